@@ -3,48 +3,110 @@ import {
   Upload, FileText, MessageSquare, PlayCircle, Save, FolderOpen, Plus, Trash2,
   CheckCircle2, AlertCircle, Loader2, FileAudio, BrainCircuit, Database, 
   X, Key, Users, File, FileImage, LayoutGrid, Paperclip, Mic, Gavel, Edit2, Check,
-  ChevronDown, ChevronRight, StopCircle, Play, Layers, ArrowUp, ArrowDown, LogOut, ExternalLink, AlertTriangle, Sun, Moon, Pencil, ChevronUp, UserPlus, Download, ZapOff, Library, Headphones, Music, HelpCircle
+  ChevronDown, ChevronRight, StopCircle, Play, Layers, ArrowUp, ArrowDown, LogOut, ExternalLink, AlertTriangle, Sun, Moon, Pencil, ChevronUp, UserPlus, Download, ZapOff, Library, Headphones, Music, HelpCircle, History, CloudOff, Package, RefreshCw, Scissors, Search
 } from 'lucide-react';
-import { EvidenceFile, Fact, ProjectState, ChatMessage, ProcessedContent, Person, EvidenceType, Citation, EvidenceCategory, AnalysisReport, SerializedProject, SerializedDatabase } from './types';
-import { processFile, analyzeFactsFromEvidence, chatWithEvidence, sanitizeTranscript, parseSecondsSafe } from './services/geminiService';
-import { exportToWord, saveProjectFile, saveDatabaseFile, loadFromJSON, exportChatToZip } from './utils/exportService';
+import { EvidenceFile, Fact, ProjectState, ChatMessage, ProcessedContent, Person, EvidenceType, EvidenceLocation, Citation, CitationVerification, CitationVerificationStatus, EvidenceCategory, AnalysisReport, SerializedProject, SerializedDatabase, SessionSummary, AIProviderId, ProcessingProgress, ReportRevision, ContradictionStatement, StatementChangeKind } from './types';
+import { AI_PROVIDERS, getProviderInfo, getDefaultProviderId, setDefaultProviderId, createProvider, processEvidenceFile, attachImportedTranscript } from './services/aiProvider';
+import { exportToWord, saveProjectFile, saveDatabaseFile, loadFromJSON, exportChatToZip, saveCaseBundle, openCaseBundle, loadCaseBundle, exportAudioClip, exportReportClipBundle, exportStatementComparisonToWord } from './utils/exportService';
+import type JSZip from 'jszip';
+import { ClipRequest, getClipPadding, setClipPadding } from './utils/audioClips';
 import { generateDocumentation } from './utils/documentationGenerator';
+import { describeMigrationReport } from './utils/schemaMigrations';
+import { computeSha256 } from './utils/fileHash';
+import { getMediaDuration } from './utils/audioUtils';
+import { planRehydration, rehydrateFile, IncomingFile, ReconciliationItem } from './utils/rehydration';
+import { formatValidationIssue, getChangedFacts, mergeFactReanalysis } from './utils/reportMerge';
+import { getComparablePeople, getStatementSources, STATEMENT_CHANGE_LABELS } from './utils/statementComparison';
+import { DEFAULT_RETRIEVAL_SETTINGS } from './utils/retrieval';
+import { getAudioStart, formatLocation } from './utils/evidenceLocation';
+import { CITATION_VERIFICATION_LABELS, verifyCitation, verifyCitationTag, quoteBeforeTag } from './utils/citationVerification';
+import { CITATION_TAG_REGEX, parseCitationTag, resolveCitationTag, resolveCitation, formatCitationTag, getFileCitationMarkers } from './utils/citations';
+import { createSessionId, getLastSessionId, isSessionEmpty, saveSession, loadSession, listSessions, deleteSession } from './utils/persistenceService';
+import { getSpeakerTable, setSpeakerPerson, attributeSpeakers, mergeSpeakers, unlinkPerson, SpeakerRef } from './utils/speakers';
+import { linkImportedSpeakers, parseTranscript } from './utils/transcriptFormats';
 import EvidenceViewer from './components/EvidenceViewer';
+import CaseSearch from './components/CaseSearch';
 
 // --- INITIAL STATE ---
 const initialProjectState: ProjectState = {
+  providerId: 'gemini',
+  retrieval: DEFAULT_RETRIEVAL_SETTINGS,
   people: [],
   facts: [],
   processedData: [], 
   savedReports: [],
+  contradictionReports: [],
+  statementComparisons: [],
   chatHistory: [],
   lastModified: Date.now(),
 };
 
-type View = 'landing' | 'setup' | 'people' | 'analysis' | 'chat' | 'library';
+const CATEGORY_LABELS: Record<EvidenceCategory, string> = {
+  TESTIMONY: 'Depoimentos',
+  INQUIRY: 'Autos de Inquirição',
+  OTHER: 'Outros Documentos',
+};
+
+type View = 'landing' | 'setup' | 'people' | 'analysis' | 'chat' | 'library' | 'search';
+
+// CITATION VERIFICATION BADGE
+const VERIFICATION_BADGE_STYLES: Record<CitationVerificationStatus, string> = {
+    VERIFIED: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800/50',
+    APPROXIMATE: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800/50',
+    NOT_FOUND: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800/50',
+};
+
+const STATEMENT_CHANGE_STYLES: Record<StatementChangeKind, string> = {
+    CONSISTENT: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-400',
+    ADDITION: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400',
+    OMISSION: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400',
+    DIVERGENCE: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-400',
+};
+
+const CitationBadge: React.FC<{ verification: CitationVerification; quote?: string }> = ({ verification, quote }) => {
+    const details = [
+        verification.note,
+        quote ? `Texto citado: "${quote}"` : null,
+        verification.score > 0 ? `Palavras encontradas: ${Math.round(verification.score * 100)}%` : null
+    ].filter(Boolean).join('\n');
+    return (
+        <span
+            className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase border mx-1 align-middle ${VERIFICATION_BADGE_STYLES[verification.status]}`}
+            title={details || CITATION_VERIFICATION_LABELS[verification.status]}
+        >
+            {verification.status === 'VERIFIED' ? <CheckCircle2 size={8}/> : verification.status === 'APPROXIMATE' ? <AlertCircle size={8}/> : <AlertTriangle size={8}/>}
+            {CITATION_VERIFICATION_LABELS[verification.status]}
+        </span>
+    );
+};
 
 // GROUPED CITATION COMPONENT (Audio Bar Style)
 const CitationGroup: React.FC<{ 
+    fileId: string | null; // Evidence the group's citations resolved to (null when none did)
     fileName: string;
     contentLines: string[];
     evidenceFiles: EvidenceFile[]; 
-    onSeek: (fileId: string, seconds: number) => void; 
+    processedData: ProcessedContent[];
+    onSeek: (fileId: string, location: EvidenceLocation) => void; 
     onOpenOriginal: (fileId: string) => void;
     renderInline: (text: string) => React.ReactNode;
-}> = ({ fileName, contentLines, evidenceFiles, onSeek, onOpenOriginal, renderInline }) => {
+    lineBadges?: React.ReactNode[]; // Shown after each line (report citations carry their own verification)
+}> = ({ fileId, fileName, contentLines, evidenceFiles, processedData, onSeek, onOpenOriginal, renderInline, lineBadges }) => {
     
     // Find Evidence
-    const evidence = evidenceFiles.find(f => f.name.toLowerCase().includes(fileName.toLowerCase()) || fileName.toLowerCase().includes(f.name.toLowerCase()));
+    const evidence = fileId ? evidenceFiles.find(f => f.id === fileId) : undefined;
     
-    // Extract all timestamps found in this group for the "Footer Bar"
-    const allTimestamps: { label: string, seconds: number }[] = [];
+    // Timestamps of the citations in this group that resolve to a segment of this file, for the "Footer Bar"
+    const allTimestamps: { label: string, seconds: number, location: EvidenceLocation }[] = [];
     contentLines.forEach(line => {
-        // Look for [00:00] or [00:00:00] or [File @ 00:00] patterns
-        const regex = /\[(?:.*?@\s*)?(\d{1,2}:\d{2}(?::\d{2})?)(?:\])?/g; 
-        let match;
-        while ((match = regex.exec(line)) !== null) {
-            allTimestamps.push({ label: match[1], seconds: parseSecondsSafe(match[1]) });
-        }
+        (line.match(CITATION_TAG_REGEX) || []).forEach(raw => {
+            const tag = parseCitationTag(raw);
+            const resolved = tag ? resolveCitationTag(tag, processedData) : null;
+            const seconds = resolved ? getAudioStart(resolved.segment.location) : null;
+            if (resolved && resolved.source.fileId === fileId && seconds !== null) {
+                allTimestamps.push({ label: resolved.segment.timestamp, seconds, location: resolved.segment.location });
+            }
+        });
     });
 
     // Deduplicate timestamps
@@ -71,7 +133,7 @@ const CitationGroup: React.FC<{
             {/* Content Body */}
             <div className="p-4 text-sm text-gray-700 dark:text-slate-300 leading-relaxed space-y-2">
                 {contentLines.map((line, i) => (
-                    <div key={i}>{renderInline(line)}</div>
+                    <div key={i}>{renderInline(line)}{lineBadges?.[i]}</div>
                 ))}
             </div>
 
@@ -82,7 +144,7 @@ const CitationGroup: React.FC<{
                     {uniqueTimestamps.map((ts, idx) => (
                          <button 
                             key={idx}
-                            onClick={(e) => { e.stopPropagation(); onSeek(evidence.id, ts.seconds); }}
+                            onClick={(e) => { e.stopPropagation(); onSeek(evidence.id, ts.location); }}
                             className="flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-primary-900/30 text-blue-700 dark:text-primary-300 rounded-md text-[10px] font-mono hover:bg-blue-200 dark:hover:bg-primary-900/50 transition-colors border border-blue-200 dark:border-primary-800/50"
                         >
                             <Play size={8} fill="currentColor"/> {ts.label}
@@ -105,25 +167,35 @@ const App: React.FC = () => {
   // App State
   const [currentView, setCurrentView] = useState<View>('landing');
   const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFile[]>([]); 
-  const [project, setProject] = useState<ProjectState>(initialProjectState);
+  const [project, setProject] = useState<ProjectState>(() => ({ ...initialProjectState, providerId: getDefaultProviderId() }));
   
   // Processing Control
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isFindingContradictions, setIsFindingContradictions] = useState(false);
+  const [isComparingStatements, setIsComparingStatements] = useState(false);
+  const [comparisonPersonId, setComparisonPersonId] = useState("");
+  const [showConsistentTopics, setShowConsistentTopics] = useState(false);
+  const [reanalyzingFactIds, setReanalyzingFactIds] = useState<string[]>([]);
   const [processingQueue, setProcessingQueue] = useState<string[]>([]);
   const abortProcessingRef = useRef<boolean>(false);
+  const [processingProgress, setProcessingProgress] = useState<Record<string, ProcessingProgress>>({});
   
   // Viewer State (Popup)
   const [activeEvidenceId, setActiveEvidenceId] = useState<string | null>(null);
-  const [seekSeconds, setSeekSeconds] = useState<number | null>(null);
+  const [seekLocation, setSeekLocation] = useState<EvidenceLocation | null>(null);
 
   // Manual Import
   const [isManualImportOpen, setIsManualImportOpen] = useState(false);
   const [manualText, setManualText] = useState("");
   const [manualName, setManualName] = useState("");
   const [manualCategory, setManualCategory] = useState<EvidenceCategory>('TESTIMONY');
+  const [manualFileName, setManualFileName] = useState<string | null>(null); // Imported transcript file, for format detection
+  const [manualTargetId, setManualTargetId] = useState(""); // Evidence file the transcript is attached to; empty = new text document
+  const [isImportingTranscript, setIsImportingTranscript] = useState(false);
 
   // People Management State
   const [newPersonList, setNewPersonList] = useState("");
+  const [selectedSpeakers, setSelectedSpeakers] = useState<string[]>([]); // "fileId::label" keys
 
   // Report Editing
   const [editingReportId, setEditingReportId] = useState<string | null>(null);
@@ -145,9 +217,20 @@ const App: React.FC = () => {
   // Quota Error Modal State
   const [showQuotaModal, setShowQuotaModal] = useState(false);
 
+  // File Hashing / Rehydration Reconciliation
+  const [hashingByCategory, setHashingByCategory] = useState<Partial<Record<EvidenceCategory, number>>>({});
+  const [reconciliationItems, setReconciliationItems] = useState<ReconciliationItem[]>([]);
+
   // Library Search State
   const [librarySearch, setLibrarySearch] = useState("");
 
+  // Session Persistence (IndexedDB autosave)
+  const [sessionId, setSessionId] = useState<string>(() => getLastSessionId() || createSessionId());
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const [autosaveStatus, setAutosaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const savedSessionIdRef = useRef<string | null>(null);
+
   // --- EFFECT: THEME ---
   useEffect(() => {
     if (isDarkMode) {
@@ -157,6 +240,49 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
   
+  // --- EFFECT: RESTORE LAST SESSION ---
+  useEffect(() => {
+      const lastId = getLastSessionId();
+      (lastId ? loadSession(lastId) : Promise.resolve(null))
+          .then(restored => {
+              if (restored) {
+                  setProject({ ...initialProjectState, ...restored.project });
+                  setEvidenceFiles(restored.files);
+                  savedSessionIdRef.current = lastId;
+              }
+          })
+          .catch(err => console.error("Session restore failed:", err))
+          .finally(() => setIsSessionRestored(true));
+  }, []);
+
+  // --- EFFECT: AUTOSAVE (debounced) ---
+  useEffect(() => {
+      if (!isSessionRestored) return;
+      // Don't create a stored session until there is something in it
+      if (savedSessionIdRef.current !== sessionId && isSessionEmpty(project, evidenceFiles)) return;
+
+      setAutosaveStatus('saving');
+      const timer = setTimeout(() => {
+          saveSession(sessionId, project, evidenceFiles)
+              .then(() => {
+                  savedSessionIdRef.current = sessionId;
+                  setAutosaveStatus('saved');
+              })
+              .catch(err => {
+                  console.error("Autosave failed:", err);
+                  setAutosaveStatus('error');
+              });
+      }, 1000);
+      return () => clearTimeout(timer);
+  }, [project, evidenceFiles, sessionId, isSessionRestored]);
+
+  // Refresh the stored sessions list whenever the landing page is shown
+  useEffect(() => {
+      if (currentView === 'landing') {
+          listSessions().then(setSavedSessions).catch(err => console.error("Could not list sessions:", err));
+      }
+  }, [currentView]);
+
   // Reset renaming state when changing report
   useEffect(() => {
       setIsRenamingReport(false);
@@ -165,6 +291,15 @@ const App: React.FC = () => {
 
   // --- HELPERS ---
 
+  const providerInfo = getProviderInfo(project.providerId);
+  const isProviderReady = !providerInfo.requiresApiKey || !!apiKey;
+
+  // The provider belongs to the project; the last choice also becomes the default for new projects
+  const handleChangeProvider = (providerId: AIProviderId) => {
+      setProject(prev => ({ ...prev, providerId }));
+      setDefaultProviderId(providerId);
+  };
+
   const isQuotaError = (error: any): boolean => {
       const msg = error?.message?.toLowerCase() || "";
       return msg.includes('429') || msg.includes('quota') || msg.includes('resource exhausted') || msg.includes('too many requests');
@@ -189,6 +324,26 @@ const App: React.FC = () => {
       return map;
   }, [evidenceFiles, project.people]);
 
+  const comparablePeople = React.useMemo(
+      () => getComparablePeople(project.people, evidenceFiles, project.processedData),
+      [project.people, evidenceFiles, project.processedData]
+  );
+
+  // Every speaker label of every transcript, with the person it is linked to
+  const speakerRows = React.useMemo(() => project.processedData.flatMap(pd =>
+      getSpeakerTable(pd, project.people).map(entry => ({
+          ref: { fileId: pd.fileId, label: entry.label } as SpeakerRef,
+          fileName: pd.fileName,
+          personId: entry.personId,
+          segmentCount: pd.segments.filter(s => s.speaker === entry.label).length
+      }))
+  ), [project.processedData, project.people]);
+
+  // Citations shown on the viewer's timeline for the open recording
+  const activeCitationMarkers = React.useMemo(() => activeEvidenceId
+      ? getFileCitationMarkers(activeEvidenceId, project.savedReports, project.chatHistory, project.processedData)
+      : [], [activeEvidenceId, project.savedReports, project.chatHistory, project.processedData]);
+
   const toggleFolder = (folderKey: string) => {
       setExpandedFolders(prev => ({ ...prev, [folderKey]: !prev[folderKey] }));
   };
@@ -205,37 +360,110 @@ const App: React.FC = () => {
 
   // --- RENDER HELPERS (CHAT) ---
   
-  const renderTextWithInlineCitations = (text: string) => {
-      // Handles [00:00, file.mp3] OR [file.mp3 @ 00:00] OR [file.mp3 @ 00:00, 01:00]
+  const renderClipButton = (request: ClipRequest) => (
+      <button
+          onClick={(e) => { e.stopPropagation(); handleExportClip(request); }}
+          disabled={isExportingClips}
+          className="inline-flex items-center p-0.5 text-gray-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-primary-400 align-middle disabled:opacity-40"
+          title={`Descarregar este excerto em WAV (±${clipPadding}s)`}
+      >
+          <Scissors size={10} />
+      </button>
+  );
+
+  // Report citations grouped by file, each line anchored and badged with its verification;
+  // a single contradiction statement is shown without the list bullet
+  const renderCitationGroups = (citations: Citation[], context: string, bulleted: boolean = true) => {
+      const groupedByFile: Record<string, Citation[]> = {};
+      citations.forEach(c => {
+          if (!groupedByFile[c.fileId]) groupedByFile[c.fileId] = [];
+          groupedByFile[c.fileId].push(c);
+      });
+
+      return Object.entries(groupedByFile).map(([fileId, cits]) => {
+          // Each line carries its citation as an anchored tag so it resolves (or is flagged) like chat citations
+          const contentLines = cits.map(c => {
+              const resolved = resolveCitation(c, project.processedData);
+              return `${bulleted ? '* ' : ''}${c.speaker ? `**${c.speaker}:** ` : ''}"${c.text}" ${formatCitationTag({ fileName: c.fileName, timestamp: c.timestamp, fileId: c.fileId, segmentId: resolved?.segment.id })}`;
+          });
+          return (
+              <CitationGroup
+                  key={fileId}
+                  fileId={project.processedData.some(d => d.fileId === fileId) ? fileId : null}
+                  fileName={cits[0].fileName}
+                  contentLines={contentLines}
+                  evidenceFiles={evidenceFiles}
+                  processedData={project.processedData}
+                  onSeek={(fid, location) => { setActiveEvidenceId(fid); setSeekLocation(location); }}
+                  onOpenOriginal={handleOpenOriginal}
+                  renderInline={line => renderTextWithInlineCitations(line, false)}
+                  lineBadges={cits.map((c, ci) => {
+                      const location = resolveCitation(c, project.processedData)?.segment.location || c.location;
+                      return (
+                          <React.Fragment key={ci}>
+                              <CitationBadge verification={verifyCitation(c, project.processedData, evidenceFiles)} quote={c.quote} />
+                              {location.kind === 'AUDIO_TIME' && renderClipButton({ fileId: c.fileId, location, context, quote: c.quote || c.text })}
+                          </React.Fragment>
+                      );
+                  })}
+              />
+          );
+      });
+  };
+
+  const renderTextWithInlineCitations = (text: string, showVerification: boolean = true) => {
+      // Handles [file.mp3 @ 00:00 #fileId/segmentId] and, for older chats, [file.mp3 @ 00:00]
       const parts = text.split(/(\[.*?\])/g);
       
       return (
         <span>
             {parts.map((part, i) => {
                 // Check if part is a citation tag
-                const matchNameTime = part.match(/^\[(.*?)\s*@\s*(.*?)\]$/); 
-
-                if (matchNameTime) {
-                    const fileRef = matchNameTime[1];
-                    const timePart = matchNameTime[2];
-                    
-                    const file = evidenceFiles.find(f => f.name.toLowerCase().includes(fileRef.toLowerCase()) || fileRef.toLowerCase().includes(f.name.toLowerCase()));
-                    
-                    if (file && !file.isVirtual && file.type === 'AUDIO') {
-                         const seconds = parseSecondsSafe(timePart);
-                         return (
+                const tag = parseCitationTag(part);
+                if (!tag) return <span key={i}>{part}</span>;
+
+                const quote = quoteBeforeTag(parts[i - 1] || "");
+                const badge = showVerification
+                    ? <CitationBadge verification={verifyCitationTag(tag, quote, project.processedData, evidenceFiles)} quote={quote} />
+                    : null;
+
+                const resolved = resolveCitationTag(tag, project.processedData);
+                if (!resolved) {
+                    return <span key={i}>[{tag.fileName} @ {tag.timestamp}]{badge}</span>;
+                }
+
+                const file = evidenceFiles.find(f => f.id === resolved.source.fileId);
+                if (file && !file.isVirtual && file.type === 'AUDIO' && resolved.segment.location.kind === 'AUDIO_TIME') {
+                     return (
+                        <span key={i}>
                             <button 
-                                key={i}
-                                onClick={(e) => { e.stopPropagation(); setActiveEvidenceId(file.id); setSeekSeconds(seconds); }}
+                                onClick={(e) => { e.stopPropagation(); setActiveEvidenceId(file.id); setSeekLocation(resolved.segment.location); }}
                                 className="inline-flex items-center gap-0.5 px-1.5 py-0.5 bg-blue-100 dark:bg-primary-900/40 text-blue-700 dark:text-primary-300 rounded text-[10px] font-mono hover:bg-blue-200 dark:hover:bg-primary-900/60 transition-colors border border-blue-200 dark:border-primary-800 shadow-sm cursor-pointer select-none mx-1"
-                                title={`Ouvir ${file.name} em ${timePart}`}
+                                title={`Ouvir ${file.name} em ${resolved.segment.timestamp}`}
                             >
-                                <Play size={8} fill="currentColor"/> {timePart}
+                                <Play size={8} fill="currentColor"/> {resolved.segment.timestamp}
                             </button>
-                        );
-                    }
+                            {renderClipButton({ fileId: file.id, location: resolved.segment.location, context: quote || resolved.segment.text, quote: quote || resolved.segment.text })}
+                            {badge}
+                        </span>
+                    );
                 }
-                return <span key={i}>{part}</span>;
+                if (file) {
+                    // Documents and images open at the cited passage instead of seeking
+                    return (
+                        <span key={i}>
+                            <button 
+                                onClick={(e) => { e.stopPropagation(); setActiveEvidenceId(file.id); setSeekLocation(resolved.segment.location); }}
+                                className="inline-flex items-center gap-0.5 px-1.5 py-0.5 bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 rounded text-[10px] font-mono hover:bg-orange-100 dark:hover:bg-orange-900/40 transition-colors border border-orange-200 dark:border-orange-800/50 cursor-pointer select-none mx-1"
+                                title={`Ver ${file.name} em ${formatLocation(resolved.segment.location)}`}
+                            >
+                                <FileText size={8}/> {formatLocation(resolved.segment.location)}
+                            </button>
+                            {badge}
+                        </span>
+                    );
+                }
+                return <span key={i}>[{resolved.source.fileName} @ {formatLocation(resolved.segment.location)}]{badge}</span>;
             })}
         </span>
       );
@@ -245,54 +473,50 @@ const App: React.FC = () => {
       const lines = msgText.split('\n');
       const renderedElements: React.ReactNode[] = [];
       
-      let currentGroup: { fileName: string, lines: string[] } | null = null;
+      let currentGroup: { key: string, fileId: string | null, fileName: string, lines: string[] } | null = null;
       
-      // Heuristic to detect if a line belongs to a file group
-      const hasFileRef = (line: string) => {
-          const match = line.match(/\[(.*?)\s*@/);
-          return match ? match[1].trim() : null;
+      // A line belongs to the group of the file its first citation resolves to
+      const getFileRef = (line: string) => {
+          const raw = line.match(CITATION_TAG_REGEX)?.[0];
+          const tag = raw ? parseCitationTag(raw) : null;
+          if (!tag) return null;
+          const resolved = resolveCitationTag(tag, project.processedData);
+          return resolved
+              ? { key: resolved.source.fileId, fileId: resolved.source.fileId, fileName: resolved.source.fileName }
+              : { key: `?${tag.fileName.toLowerCase()}`, fileId: null, fileName: tag.fileName };
+      };
+
+      const flushGroup = (key: string) => {
+          if (!currentGroup) return;
+          renderedElements.push(
+              <CitationGroup 
+                  key={key}
+                  fileId={currentGroup.fileId}
+                  fileName={currentGroup.fileName}
+                  contentLines={currentGroup.lines}
+                  evidenceFiles={evidenceFiles}
+                  processedData={project.processedData}
+                  onSeek={(fid, location) => { setActiveEvidenceId(fid); setSeekLocation(location); }}
+                  onOpenOriginal={handleOpenOriginal}
+                  renderInline={renderTextWithInlineCitations}
+              />
+          );
+          currentGroup = null;
       };
 
       lines.forEach((line, i) => {
-          const fileNameRef = hasFileRef(line);
+          const fileRef = getFileRef(line);
           
-          if (fileNameRef) {
-              if (currentGroup && currentGroup.fileName.toLowerCase() === fileNameRef.toLowerCase()) {
+          if (fileRef) {
+              if (currentGroup && currentGroup.key === fileRef.key) {
                   // Continue same group
                   currentGroup.lines.push(line);
               } else {
-                  // Flush prev group
-                  if (currentGroup) {
-                      renderedElements.push(
-                          <CitationGroup 
-                              key={`group-${i}`}
-                              fileName={currentGroup.fileName}
-                              contentLines={currentGroup.lines}
-                              evidenceFiles={evidenceFiles}
-                              onSeek={(fid, sec) => { setActiveEvidenceId(fid); setSeekSeconds(sec); }}
-                              onOpenOriginal={handleOpenOriginal}
-                              renderInline={renderTextWithInlineCitations}
-                          />
-                      );
-                  }
-                  // Start new
-                  currentGroup = { fileName: fileNameRef, lines: [line] };
+                  flushGroup(`group-${i}`);
+                  currentGroup = { ...fileRef, lines: [line] };
               }
           } else {
-              if (currentGroup) {
-                  renderedElements.push(
-                      <CitationGroup 
-                          key={`group-${i}`}
-                          fileName={currentGroup.fileName}
-                          contentLines={currentGroup.lines}
-                          evidenceFiles={evidenceFiles}
-                          onSeek={(fid, sec) => { setActiveEvidenceId(fid); setSeekSeconds(sec); }}
-                          onOpenOriginal={handleOpenOriginal}
-                          renderInline={renderTextWithInlineCitations}
-                      />
-                  );
-                  currentGroup = null;
-              }
+              flushGroup(`group-${i}`);
               if (line.trim()) {
                    renderedElements.push(
                        <p key={`text-${i}`} className="mb-2 last:mb-0 leading-relaxed">
@@ -303,32 +527,33 @@ const App: React.FC = () => {
           }
       });
 
-      // Flush final
-      if (currentGroup) {
-          renderedElements.push(
-              <CitationGroup 
-                  key={`group-last`}
-                  fileName={currentGroup.fileName}
-                  contentLines={currentGroup.lines}
-                  evidenceFiles={evidenceFiles}
-                  onSeek={(fid, sec) => { setActiveEvidenceId(fid); setSeekSeconds(sec); }}
-                  onOpenOriginal={handleOpenOriginal}
-                  renderInline={renderTextWithInlineCitations}
-              />
-          );
-      }
+      flushGroup('group-last');
       
       return renderedElements;
   };
 
   // --- ACTIONS ---
 
-  const addFiles = (fileList: FileList | File[], category: EvidenceCategory) => {
-      setEvidenceFiles(prevFiles => {
-          const updatedFiles = [...prevFiles];
-          const newFilesToAdd: EvidenceFile[] = [];
-
-          Array.from(fileList).forEach((f: File) => {
+  const createEvidenceFile = (inc: IncomingFile, category: EvidenceCategory = inc.category): EvidenceFile => ({
+      id: Math.random().toString(36).substr(2, 9),
+      file: inc.file,
+      name: inc.file.name,
+      folder: inc.folder,
+      type: getFileType(inc.file),
+      category: category,
+      size: inc.file.size,
+      sha256: inc.sha256,
+      duration: inc.duration
+  });
+
+  const addFiles = async (fileList: FileList | File[], category: EvidenceCategory) => {
+      const dropped = Array.from(fileList);
+      const trackHashing = (delta: number) => setHashingByCategory(prev => ({ ...prev, [category]: (prev[category] || 0) + delta }));
+      trackHashing(dropped.length);
+
+      let incoming: IncomingFile[];
+      try {
+          incoming = await Promise.all(dropped.map(async (f: File) => {
               // Extract folder logic
               const relativePath = (f as any).webkitRelativePath || "";
               let folderName = "Raiz";
@@ -338,40 +563,56 @@ const App: React.FC = () => {
                       folderName = parts[parts.length - 2] || parts[0]; 
                   }
               }
+              return {
+                  file: f,
+                  folder: folderName,
+                  category,
+                  sha256: await computeSha256(f),
+                  duration: f.type.startsWith('audio/') ? await getMediaDuration(f) : undefined
+              };
+          }));
+      } catch (err: any) {
+          alert(`Erro ao ler ficheiros: ${err.message}`);
+          return;
+      } finally {
+          trackHashing(-dropped.length);
+      }
 
-              // Check for existing virtual file to rehydrate
-              const existingIndex = updatedFiles.findIndex(
-                  ev => ev.name === f.name && ev.isVirtual && ev.category === category
-              );
-
-              if (existingIndex !== -1) {
-                  // REHYDRATE: Link physical file to existing metadata
-                  updatedFiles[existingIndex] = {
-                      ...updatedFiles[existingIndex],
-                      file: f,
-                      isVirtual: false, 
-                      size: f.size
-                  };
-              } else {
-                  // CREATE NEW
-                  newFilesToAdd.push({
-                      id: Math.random().toString(36).substr(2, 9),
-                      file: f,
-                      name: f.name,
-                      folder: folderName,
-                      type: getFileType(f),
-                      category: category,
-                      size: f.size
-                  });
-              }
+      // Match by content against virtual files (see utils/rehydration.ts), planned against the files
+      // as they are now: another drop may have added or rehydrated some while these were hashed
+      let review: ReconciliationItem[] = [];
+      setEvidenceFiles(prevFiles => {
+          const plan = planRehydration(incoming, prevFiles);
+          review = plan.review;
+          const updatedFiles = prevFiles.map(ev => {
+              const match = plan.rehydrate.find(r => r.fileId === ev.id);
+              // REHYDRATE: Link physical file to existing metadata
+              return match && ev.isVirtual ? rehydrateFile(ev, match.incoming) : ev;
           });
-
-          return [...updatedFiles, ...newFilesToAdd];
+          // CREATE NEW
+          return [...updatedFiles, ...plan.create.map(inc => createEvidenceFile(inc))];
       });
 
+      // Runs after the update above (files state is declared first), so `review` is already planned
+      setReconciliationItems(prev => review.length > 0 ? [...prev, ...review] : prev);
+
       // NOTA: Pastas fechadas por defeito, por isso não atualizamos expandedFolders aqui.
   };
 
+  // Applies the decisions of the reconciliation dialog (renamed / moved / mismatching files)
+  const applyReconciliation = () => {
+      const items = reconciliationItems;
+      setEvidenceFiles(prevFiles => {
+          const updatedFiles = prevFiles.map(ev => {
+              const item = items.find(i => i.accept && i.candidate.id === ev.id);
+              return item && ev.isVirtual ? rehydrateFile(ev, item.incoming) : ev;
+          });
+          const rejected = items.filter(i => !i.accept).map(i => createEvidenceFile(i.incoming));
+          return [...updatedFiles, ...rejected];
+      });
+      setReconciliationItems([]);
+  };
+
   // 1. Categorized File Upload with Folder Detection
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, category: EvidenceCategory) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -410,17 +651,32 @@ const App: React.FC = () => {
       if (!file) return;
 
       try {
+          const bundleZip = await openCaseBundle(file);
+          if (bundleZip) {
+              await handleLoadCaseBundle(bundleZip);
+              e.target.value = '';
+              return;
+          }
+
           const result = await loadFromJSON(file);
+          const migrationNotes = result.report ? describeMigrationReport(result.report) : "";
+          const withNotes = (message: string) => migrationNotes ? `${message}\n\n${migrationNotes}` : message;
+
           if (result.type === 'project') {
               const data = result.data as SerializedProject;
               setProject({
                   ...initialProjectState,
+                  caseId: data.caseId,
+                  providerId: data.providerId,
+                  retrieval: data.retrieval,
                   people: data.people || [],
                   facts: data.facts || [],
                   savedReports: data.savedReports || [],
+                  contradictionReports: data.contradictionReports || [],
+                  statementComparisons: data.statementComparisons || [],
                   chatHistory: data.chatHistory || [],
               });
-              alert("Projeto carregado com sucesso.");
+              alert(withNotes("Projeto carregado com sucesso."));
           } else if (result.type === 'database') {
               const data = result.data as SerializedDatabase;
               setProject(prev => ({ ...prev, processedData: data.processedData || [] }));
@@ -432,8 +688,12 @@ const App: React.FC = () => {
                   type: m.type as EvidenceType,
                   category: m.category as EvidenceCategory,
                   folder: m.folder || "Importado",
+                  personId: m.personId,
                   file: null,
-                  isVirtual: true
+                  isVirtual: true,
+                  sha256: m.sha256,
+                  size: m.size,
+                  duration: m.duration
               }));
               
               // Merge with existing, avoiding duplicates
@@ -444,7 +704,7 @@ const App: React.FC = () => {
               });
               
               // Default to closed folders - do not auto expand
-              alert("Base de Dados carregada. \n\nIMPORTANTE: Arraste os ficheiros originais (Áudios/PDFs) para as respetivas áreas de upload para reativar a reprodução e visualização.");
+              alert(withNotes("Base de Dados carregada. \n\nIMPORTANTE: Arraste os ficheiros originais (Áudios/PDFs) para as respetivas áreas de upload para reativar a reprodução e visualização."));
           } else {
               alert("Ficheiro desconhecido.");
           }
@@ -454,16 +714,95 @@ const App: React.FC = () => {
       e.target.value = '';
   };
 
-  const handleNewProject = () => {
-      if(evidenceFiles.length > 0 && !confirm("Tem a certeza? Isto limpará todos os dados carregados.")) return;
-      setProject(initialProjectState);
+  const startNewSession = () => {
+      setSessionId(createSessionId());
+      setProject({ ...initialProjectState, providerId: getDefaultProviderId() });
       setEvidenceFiles([]);
       setProcessingQueue([]);
+      setSelectedReportId(null);
+      setAutosaveStatus('idle');
+  };
+
+  // Restores a whole case (.veritas) into a fresh session, keeping the current one in the stored sessions list
+  const handleLoadCaseBundle = async (zip: JSZip) => {
+      if (evidenceFiles.length > 0 && !confirm("Abrir este caso substitui o projeto atual no ecrã.\n\nA sessão atual continua disponível na lista de sessões anteriores. Continuar?")) return;
+
+      const bundle = await loadCaseBundle(zip);
+      setSessionId(createSessionId());
+      setProject({
+          ...initialProjectState,
+          caseId: bundle.project.caseId,
+          providerId: bundle.project.providerId,
+          retrieval: bundle.project.retrieval,
+          people: bundle.project.people || [],
+          facts: bundle.project.facts || [],
+          savedReports: bundle.project.savedReports || [],
+          contradictionReports: bundle.project.contradictionReports || [],
+          statementComparisons: bundle.project.statementComparisons || [],
+          chatHistory: bundle.project.chatHistory || [],
+          processedData: bundle.database.processedData || [],
+      });
+      setEvidenceFiles(bundle.files);
+      setProcessingQueue([]);
+      setSelectedReportId(null);
+
+      const migrationNotes = bundle.reports.map(r => describeMigrationReport(r)).filter(Boolean).join('\n');
+      if (bundle.corruptedEntries.length > 0) {
+          alert(`Caso carregado com avisos.\n\nOs seguintes ficheiros originais falharam a verificação de integridade e não foram restaurados (ficam virtuais):\n- ${bundle.corruptedEntries.join('\n- ')}${migrationNotes ? `\n\n${migrationNotes}` : ''}`);
+      } else {
+          alert(`Caso carregado com sucesso (${bundle.files.length} ficheiros).${migrationNotes ? `\n\n${migrationNotes}` : ''}`);
+      }
+      setCurrentView('setup');
+  };
+
+  const handleSaveCaseBundle = async () => {
+      try {
+          await saveCaseBundle(project, evidenceFiles);
+      } catch (err: any) {
+          alert(`Erro ao exportar o caso: ${err.message}`);
+      }
+  };
+
+  const handleNewProject = () => {
+      if(evidenceFiles.length > 0 && !confirm("Tem a certeza? Isto limpará todos os dados carregados.\n\nA sessão atual continua disponível na lista de sessões anteriores.")) return;
+      startNewSession();
+  };
+
+  // Stored Sessions (IndexedDB)
+  const handleOpenSession = async (id: string) => {
+      if (id === sessionId) {
+          setCurrentView('setup');
+          return;
+      }
+      try {
+          const restored = await loadSession(id);
+          if (!restored) return alert("Sessão não encontrada.");
+          savedSessionIdRef.current = id;
+          setSessionId(id);
+          setProject({ ...initialProjectState, ...restored.project });
+          setEvidenceFiles(restored.files);
+          setProcessingQueue([]);
+          setSelectedReportId(null);
+          setCurrentView('setup');
+      } catch (err: any) {
+          alert(err.message);
+      }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+      if (!confirm("Apagar esta sessão guardada? As transcrições e os ficheiros armazenados no browser serão removidos.")) return;
+      try {
+          await deleteSession(id);
+          setSavedSessions(prev => prev.filter(s => s.id !== id));
+          if (id === sessionId) startNewSession();
+      } catch (err: any) {
+          alert(err.message);
+      }
   };
 
   // 3. Processing Logic with Stop
   const runProcessing = async (scope: { type: 'ALL' | 'CATEGORY' | 'FOLDER' | 'FILE', value?: string }) => {
-     if (!apiKey) return alert("Chave API em falta.");
+     if (!isProviderReady) return alert("Chave API em falta.");
      
      // Filter Logic
      const unprocessed = evidenceFiles.filter(f => {
@@ -485,6 +824,7 @@ const App: React.FC = () => {
      if (unprocessed.length === 0) return alert("Não há ficheiros novos para processar neste âmbito.");
 
      abortProcessingRef.current = false;
+     const provider = createProvider(project.providerId, apiKey);
 
      for (const file of unprocessed) {
          if (abortProcessingRef.current) {
@@ -493,8 +833,15 @@ const App: React.FC = () => {
          }
 
          setProcessingQueue(prev => [...prev, file.id]);
+         let lastProgress: ProcessingProgress | null = null;
          try {
-             const result = await processFile(apiKey, file);
+             const result = await processEvidenceFile(provider, file, {
+                 onProgress: (progress) => {
+                     lastProgress = progress;
+                     setProcessingProgress(prev => ({ ...prev, [file.id]: progress }));
+                 },
+                 shouldAbort: () => abortProcessingRef.current
+             });
              setProject(prev => ({
                  ...prev,
                  processedData: [...prev.processedData, result]
@@ -505,11 +852,19 @@ const App: React.FC = () => {
                  setShowQuotaModal(true);
                  stopProcessing();
                  break; // Stop loop immediately
-             } else {
-                 alert(`Erro ao processar ${file.name}: ${e.message}`);
+             } else if (!abortProcessingRef.current) {
+                 const partial = lastProgress as ProcessingProgress | null;
+                 const resumeNote = partial && partial.completedChunks > 0
+                     ? `\n\n${partial.completedChunks} de ${partial.totalChunks} partes já foram transcritas e serão reaproveitadas ao processar novamente.`
+                     : "";
+                 alert(`Erro ao processar ${file.name}: ${e.message}${resumeNote}`);
              }
          } finally {
              setProcessingQueue(prev => prev.filter(id => id !== file.id));
+             setProcessingProgress(prev => {
+                 const { [file.id]: _, ...rest } = prev;
+                 return rest;
+             });
          }
      }
   };
@@ -519,29 +874,11 @@ const App: React.FC = () => {
   };
 
   // Speaker Renaming
-  const handleRenameSpeaker = (fileId: string, oldName: string, newName: string) => {
-      const processed = project.processedData.find(pd => pd.fileId === fileId);
-      if (!processed) return;
-      
-      const newSegments = processed.segments.map(seg => ({
-          ...seg,
-          // Robust Replacement: Finds oldName at start of line, handling both bold and plain formats
-          // Replaces with **NewName:**
-          text: seg.text.replace(
-              new RegExp(`(^|\\s)(\\*\\*)?${oldName}(\\*\\*)?(:)?`, 'g'), 
-              `$1**${newName}:**`
-          )
-      }));
-      
-      const newFullText = newSegments.map(s => `[${s.timestamp}] ${s.text}`).join('\n');
-      
+  // Corrections made in the viewer (already recorded in the transcript's audit trail)
+  const handleTranscriptChange = (updated: ProcessedContent) => {
       setProject(prev => ({
           ...prev,
-          processedData: prev.processedData.map(pd => 
-            pd.fileId === fileId 
-                ? { ...pd, segments: newSegments, fullText: newFullText }
-                : pd
-          )
+          processedData: prev.processedData.map(pd => pd.fileId === updated.fileId ? updated : pd)
       }));
   };
 
@@ -614,7 +951,7 @@ const App: React.FC = () => {
   };
 
   const removePerson = (id: string) => {
-      setProject(prev => ({ ...prev, people: prev.people.filter(p => p.id !== id) }));
+      setProject(prev => ({ ...prev, people: prev.people.filter(p => p.id !== id), processedData: unlinkPerson(prev.processedData, id) }));
       setEvidenceFiles(prev => prev.map(f => f.personId === id ? { ...f, personId: undefined } : f));
   };
 
@@ -622,26 +959,73 @@ const App: React.FC = () => {
       setEvidenceFiles(prev => prev.map(f => f.id === fileId ? { ...f, personId: personId || undefined } : f));
   };
 
-  const handleManualImport = () => {
-      if (!manualName || !manualText) return;
-      const id = Math.random().toString(36).substr(2, 9);
-      const newFile: EvidenceFile = {
-          id, file: null, name: manualName, type: 'TEXT', category: manualCategory, isVirtual: true, folder: 'Manual'
-      };
-      setEvidenceFiles(prev => [...prev, newFile]);
-      const segments = sanitizeTranscript(manualText);
-      const processed: ProcessedContent = {
-          fileId: id, fileName: manualName, fullText: segments.map(s => `[${s.timestamp}] ${s.text}`).join('\n'), segments: segments, processedAt: Date.now()
-      };
-      setProject(prev => ({ ...prev, processedData: [...prev.processedData, processed] }));
-      setIsManualImportOpen(false); setManualName(""); setManualText("");
+  const speakerKey = (ref: SpeakerRef) => `${ref.fileId}::${ref.label}`;
+
+  const assignPersonToSpeaker = (ref: SpeakerRef, personId: string) => {
+      setProject(prev => ({
+          ...prev,
+          processedData: prev.processedData.map(pd => pd.fileId === ref.fileId ? setSpeakerPerson(pd, ref.label, personId || undefined) : pd)
+      }));
+  };
+
+  const toggleSpeakerSelection = (ref: SpeakerRef) => {
+      const key = speakerKey(ref);
+      setSelectedSpeakers(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const mergeSelectedSpeakers = () => {
+      const refs = speakerRows.map(r => r.ref).filter(ref => selectedSpeakers.includes(speakerKey(ref)));
+      try {
+          const merged = mergeSpeakers(project.processedData, project.people, refs);
+          setProject(prev => ({ ...prev, people: merged.people, processedData: merged.processedData }));
+          setSelectedSpeakers([]);
+      } catch (e: any) {
+          alert(e.message);
+      }
+  };
+
+  const closeManualImport = () => {
+      setIsManualImportOpen(false); setManualName(""); setManualText(""); setManualFileName(null); setManualTargetId("");
+  };
+
+  const handleTranscriptFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setManualText(await file.text());
+      setManualFileName(file.name);
+      if (!manualName) setManualName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  // Pasted text or an imported transcript (SRT, WebVTT, TXT, JSON), as a new document or attached to an evidence file
+  const handleManualImport = async () => {
+      const target = evidenceFiles.find(f => f.id === manualTargetId);
+      if (!manualText.trim() || (!target && !manualName)) return;
+      try {
+          const imported = parseTranscript(manualText, manualFileName || undefined);
+          if (target && project.processedData.some(pd => pd.fileId === target.id)
+              && !confirm(`"${target.name}" já tem uma transcrição. Substituí-la pela importada?\n\nAs citações de relatórios e do chat que apontam para a transcrição atual deixam de ser verificáveis.`)) return;
+
+          setIsImportingTranscript(true);
+          const evidenceFile: EvidenceFile = target || {
+              id: Math.random().toString(36).substr(2, 9), file: null, name: manualName, type: 'TEXT', category: manualCategory, isVirtual: true, folder: 'Manual'
+          };
+          const processed = linkImportedSpeakers(await attachImportedTranscript(evidenceFile, imported.segments), imported.speakerPeople, project.people);
+          if (!target) setEvidenceFiles(prev => [...prev, evidenceFile]);
+          setProject(prev => ({ ...prev, processedData: [...prev.processedData.filter(pd => pd.fileId !== evidenceFile.id), processed] }));
+          closeManualImport();
+      } catch (e: any) {
+          alert(e.message);
+      } finally {
+          setIsImportingTranscript(false);
+      }
   };
 
   const runAnalysis = async () => {
-      if (!apiKey) return alert("Chave API necessária.");
+      if (!isProviderReady) return alert("Chave API necessária.");
       setIsAnalyzing(true);
       try {
-          const report = await analyzeFactsFromEvidence(apiKey, project.processedData, project.facts, peopleMap, evidenceFiles);
+          const report = await createProvider(project.providerId, apiKey).analyze(attributeSpeakers(project.processedData, project.people), project.facts, peopleMap, evidenceFiles, project.retrieval);
           setProject(prev => ({ ...prev, savedReports: [report, ...prev.savedReports] }));
           setSelectedReportId(report.id);
           setCurrentView('analysis');
@@ -654,9 +1038,82 @@ const App: React.FC = () => {
       } finally { setIsAnalyzing(false); }
   };
 
+  // Compares the testimonies with each other; the facts in dispute only steer which passages are sent
+  const runContradictionAnalysis = async () => {
+      if (!isProviderReady) return alert("Chave API necessária.");
+      const testimonies = attributeSpeakers(
+          project.processedData.filter(pd => evidenceFiles.find(f => f.id === pd.fileId)?.category === 'TESTIMONY'),
+          project.people
+      );
+      const speakers = new Set(testimonies.flatMap(pd => pd.segments.map(s => s.speaker).filter(Boolean)));
+      if (testimonies.length < 2 && speakers.size < 2) {
+          return alert("São necessários pelo menos dois depoimentos processados (ou um depoimento com vários interlocutores) para procurar contradições.");
+      }
+      setIsFindingContradictions(true);
+      try {
+          const topics = project.facts.map(f => f.text).filter(t => t.trim());
+          const report = await createProvider(project.providerId, apiKey).findContradictions(testimonies, topics, peopleMap, evidenceFiles, project.retrieval);
+          setProject(prev => ({ ...prev, contradictionReports: [report, ...prev.contradictionReports] }));
+          setSelectedReportId(report.id);
+          setCurrentView('analysis');
+      } catch (e: any) {
+          if (isQuotaError(e)) {
+              setShowQuotaModal(true);
+          } else {
+              alert(e.message);
+          }
+      } finally { setIsFindingContradictions(false); }
+  };
+
+  // Sets a person's prior inquiry statement against their testimony
+  const runStatementComparison = async () => {
+      if (!isProviderReady) return alert("Chave API necessária.");
+      const person = comparablePeople.find(p => p.id === comparisonPersonId) || comparablePeople[0];
+      if (!person) return alert("Nenhuma pessoa tem um auto de inquirição e um depoimento processados. Associe os ficheiros à pessoa na aba Dados.");
+      const { inquiry, testimony } = getStatementSources(person, evidenceFiles, project.processedData, project.people);
+      setIsComparingStatements(true);
+      try {
+          const report = await createProvider(project.providerId, apiKey).compareStatements(attributeSpeakers([...inquiry, ...testimony], project.people), person, evidenceFiles, project.retrieval);
+          setProject(prev => ({ ...prev, statementComparisons: [report, ...prev.statementComparisons] }));
+          setSelectedReportId(report.id);
+          setCurrentView('analysis');
+      } catch (e: any) {
+          if (isQuotaError(e)) {
+              setShowQuotaModal(true);
+          } else {
+              alert(e.message);
+          }
+      } finally { setIsComparingStatements(false); }
+  };
+
+  // Re-runs some facts of an existing report and merges the answers into it (instead of a new report)
+  const reanalyzeFacts = async (reportId: string, factsToRun: Fact[], scope: ReportRevision['scope']) => {
+      if (!isProviderReady) return alert("Chave API necessária.");
+      if (factsToRun.length === 0) return alert("Não há factos alterados desde a geração deste relatório.");
+      setReanalyzingFactIds(factsToRun.map(f => f.id));
+      try {
+          const partial = await createProvider(project.providerId, apiKey).analyze(attributeSpeakers(project.processedData, project.people), factsToRun, peopleMap, evidenceFiles, project.retrieval);
+          setProject(prev => ({
+              ...prev,
+              savedReports: prev.savedReports.map(r => r.id === reportId ? mergeFactReanalysis(r, partial, factsToRun, prev.facts, scope) : r)
+          }));
+      } catch (e: any) {
+          if (isQuotaError(e)) {
+              setShowQuotaModal(true);
+          } else {
+              alert(e.message);
+          }
+      } finally { setReanalyzingFactIds([]); }
+  };
+
   const deleteReport = (reportId: string) => {
       if(confirm("Tem a certeza que quer apagar este relatório?")) {
-          setProject(prev => ({ ...prev, savedReports: prev.savedReports.filter(r => r.id !== reportId) }));
+          setProject(prev => ({
+              ...prev,
+              savedReports: prev.savedReports.filter(r => r.id !== reportId),
+              contradictionReports: prev.contradictionReports.filter(r => r.id !== reportId),
+              statementComparisons: prev.statementComparisons.filter(r => r.id !== reportId)
+          }));
           if (selectedReportId === reportId) setSelectedReportId(null);
       }
   };
@@ -667,6 +1124,12 @@ const App: React.FC = () => {
           ...prev,
           savedReports: prev.savedReports.map(r => 
               r.id === selectedReportId ? { ...r, name: tempReportName.trim() } : r
+          ),
+          contradictionReports: prev.contradictionReports.map(r =>
+              r.id === selectedReportId ? { ...r, name: tempReportName.trim() } : r
+          ),
+          statementComparisons: prev.statementComparisons.map(r =>
+              r.id === selectedReportId ? { ...r, name: tempReportName.trim() } : r
           )
       }));
       setIsRenamingReport(false);
@@ -679,24 +1142,69 @@ const App: React.FC = () => {
 
   // Chat Export Logic
   const handleExportChat = async (type: 'SINGLE' | 'FULL') => {
-      if (exportModal.messageId && type === 'SINGLE') {
-          await exportChatToZip(project.chatHistory, evidenceFiles, exportModal.messageId);
-      } else {
-          await exportChatToZip(project.chatHistory, evidenceFiles);
+      setIsExportingClips(true);
+      try {
+          if (exportModal.messageId && type === 'SINGLE') {
+              await exportChatToZip(project.chatHistory, evidenceFiles, project.processedData, exportModal.messageId, clipPadding, project.caseId);
+          } else {
+              await exportChatToZip(project.chatHistory, evidenceFiles, project.processedData, undefined, clipPadding, project.caseId);
+          }
+          setExportModal({ isOpen: false });
+      } catch (e: any) {
+          alert(`Erro na exportação: ${e.message}`);
+      } finally {
+          setIsExportingClips(false);
+      }
+  };
+
+  // Audio clips of cited excerpts
+  const [clipPadding, setClipPaddingState] = useState<number>(getClipPadding);
+  const [isExportingClips, setIsExportingClips] = useState(false);
+  const [clipProgress, setClipProgress] = useState<string | null>(null);
+
+  const changeClipPadding = (seconds: number) => {
+      if (!Number.isFinite(seconds) || seconds < 0) return;
+      setClipPaddingState(seconds);
+      setClipPadding(seconds);
+  };
+
+  const handleExportClip = async (request: ClipRequest) => {
+      setIsExportingClips(true);
+      try {
+          await exportAudioClip(request, evidenceFiles, clipPadding);
+      } catch (e: any) {
+          alert(`Não foi possível extrair o excerto: ${e.message}`);
+      } finally {
+          setIsExportingClips(false);
+      }
+  };
+
+  const handleExportReportClips = async (report: AnalysisReport) => {
+      setIsExportingClips(true);
+      setClipProgress("A preparar...");
+      try {
+          const extraction = await exportReportClipBundle(report, project.processedData, evidenceFiles, clipPadding, (done, total) => setClipProgress(`${done}/${total}`));
+          if (extraction.skipped.length > 0) {
+              alert(`${extraction.clips.length} excertos exportados. ${extraction.skipped.length} não puderam ser extraídos (ver Indice.txt).`);
+          }
+      } catch (e: any) {
+          alert(e.message);
+      } finally {
+          setIsExportingClips(false);
+          setClipProgress(null);
       }
-      setExportModal({ isOpen: false });
   };
 
   // Chat
   const [chatInput, setChatInput] = useState("");
   const [isChatting, setIsChatting] = useState(false);
   const handleChat = async () => {
-      if (!chatInput.trim() || !apiKey) return;
+      if (!chatInput.trim() || !isProviderReady) return;
       const msg: ChatMessage = { id: Date.now().toString(), role: 'user', text: chatInput, timestamp: Date.now() };
       setProject(prev => ({ ...prev, chatHistory: [...prev.chatHistory, msg] }));
       setChatInput(""); setIsChatting(true);
       try {
-          const resp = await chatWithEvidence(apiKey, project.processedData, [...project.chatHistory, msg], msg.text, peopleMap, evidenceFiles);
+          const resp = await createProvider(project.providerId, apiKey).chat(attributeSpeakers(project.processedData, project.people), [...project.chatHistory, msg], msg.text, peopleMap, evidenceFiles, project.retrieval);
           const aiMsg: ChatMessage = { id: (Date.now()+1).toString(), role: 'model', text: resp, timestamp: Date.now() };
           setProject(prev => ({ ...prev, chatHistory: [...prev.chatHistory, aiMsg] }));
       } catch(e: any) { 
@@ -715,6 +1223,7 @@ const App: React.FC = () => {
   const renderFileCard = (file: EvidenceFile) => {
       const isProcessed = project.processedData.some(pd => pd.fileId === file.id);
       const isProcessing = processingQueue.includes(file.id);
+      const progress = processingProgress[file.id];
       
       return (
          <div key={file.id} className={`bg-white dark:bg-slate-900 border p-2 rounded flex flex-col gap-2 group transition-all mb-1 ${file.isVirtual ? 'border-orange-200 dark:border-orange-900/50' : 'border-gray-200 dark:border-slate-800 hover:border-gray-400 dark:hover:border-slate-600'}`}>
@@ -770,7 +1279,21 @@ const App: React.FC = () => {
                  </select>
              )}
 
-             {isProcessing && <div className="text-[10px] text-blue-500 dark:text-blue-400 flex items-center gap-1"><Loader2 size={10} className="animate-spin" /> Processando...</div>}
+             {isProcessing && (
+                 <div className="text-[10px] text-blue-500 dark:text-blue-400 flex flex-col gap-1">
+                     <div className="flex items-center gap-1">
+                         <Loader2 size={10} className="animate-spin" />
+                         {progress && progress.totalChunks > 1
+                             ? `Processando... parte ${Math.min(progress.completedChunks + 1, progress.totalChunks)}/${progress.totalChunks}${progress.retryingChunk ? ' (nova tentativa)' : ''}`
+                             : 'Processando...'}
+                     </div>
+                     {progress && progress.totalChunks > 1 && (
+                         <div className="h-1 bg-gray-200 dark:bg-slate-800 rounded overflow-hidden">
+                             <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.completedChunks / progress.totalChunks) * 100}%` }} />
+                         </div>
+                     )}
+                 </div>
+             )}
          </div>
       );
   };
@@ -817,12 +1340,16 @@ const App: React.FC = () => {
                       />
                   </label>
                   {category === 'TESTIMONY' && (
-                      <button onClick={() => { setManualCategory('TESTIMONY'); setIsManualImportOpen(true); }} className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded-lg text-xs font-bold border border-gray-200 dark:border-slate-700">
+                      <button onClick={() => { setManualCategory('TESTIMONY'); setIsManualImportOpen(true); }} title="Colar texto ou importar uma transcrição (SRT, WebVTT, TXT, JSON)" className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded-lg text-xs font-bold border border-gray-200 dark:border-slate-700">
                           Texto
                       </button>
                   )}
               </div>
 
+              {(hashingByCategory[category] || 0) > 0 && (
+                  <div className="text-[10px] text-blue-500 dark:text-blue-400 flex items-center gap-1 mb-2"><Loader2 size={10} className="animate-spin" /> A verificar {hashingByCategory[category]} ficheiro(s)...</div>
+              )}
+
               <div className="flex-1 bg-gray-50 dark:bg-slate-925 rounded-xl border border-gray-200 dark:border-slate-800 p-2 overflow-y-auto max-h-[400px] mb-4 space-y-2">
                   {Object.keys(folders).length === 0 && (
                       <div className="flex flex-col items-center justify-center h-40 text-gray-400 dark:text-slate-600 gap-2 border-2 border-dashed border-gray-200 dark:border-slate-800/50 rounded-lg pointer-events-none">
@@ -946,6 +1473,18 @@ const App: React.FC = () => {
                       <input type="file" accept=".json" onChange={handleLoadProject} className="hidden" />
                   </label>
 
+                  {/* Abrir Caso Completo */}
+                  <label className="col-span-2 p-5 bg-white dark:bg-slate-900 hover:bg-gray-50 dark:hover:bg-slate-800 border border-gray-200 dark:border-slate-800 hover:border-gray-300 dark:hover:border-slate-700 rounded-2xl flex items-center gap-4 group transition-all cursor-pointer shadow-sm">
+                      <div className="w-10 h-10 rounded-full bg-purple-100 text-purple-600 dark:bg-purple-900/20 dark:text-purple-400 flex items-center justify-center group-hover:bg-purple-600 group-hover:text-white transition-colors">
+                          <Package size={20} />
+                      </div>
+                      <div className="text-left">
+                          <h3 className="font-bold text-gray-900 dark:text-white text-sm">Abrir Caso Completo</h3>
+                          <p className="text-[10px] text-gray-500 dark:text-slate-500">caso.veritas (projeto, base de dados e ficheiros originais)</p>
+                      </div>
+                      <input type="file" accept=".veritas,.zip" onChange={handleLoadProject} className="hidden" />
+                  </label>
+
                   {/* START BUTTON */}
                   <button 
                     onClick={() => setCurrentView('setup')}
@@ -962,6 +1501,33 @@ const App: React.FC = () => {
                  </button>
               </div>
 
+              {/* Stored Sessions */}
+              {savedSessions.length > 0 && (
+                  <div className="w-full max-w-2xl bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-2xl overflow-hidden shadow-sm text-left">
+                      <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-800 flex items-center gap-2 text-xs font-bold text-gray-500 dark:text-slate-400 uppercase">
+                          <History size={14} /> Sessões Guardadas no Browser
+                      </div>
+                      <div className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-slate-800">
+                          {savedSessions.map(s => (
+                              <div key={s.id} className="px-4 py-2 flex items-center justify-between group hover:bg-gray-50 dark:hover:bg-slate-800/50">
+                                  <button onClick={() => handleOpenSession(s.id)} className="flex-1 text-left overflow-hidden">
+                                      <div className="text-sm font-bold text-gray-800 dark:text-slate-200 truncate flex items-center gap-2">
+                                          {s.name}
+                                          {s.id === sessionId && <span className="px-1.5 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 text-[9px] rounded uppercase">Atual</span>}
+                                      </div>
+                                      <div className="text-[10px] text-gray-500 dark:text-slate-500">
+                                          {s.fileCount} ficheiros · {s.factCount} factos · {s.reportCount} relatórios · atualizado {new Date(s.updatedAt).toLocaleString('pt-PT')}
+                                      </div>
+                                  </button>
+                                  <button onClick={() => handleDeleteSession(s.id)} title="Apagar sessão" className="p-2 text-gray-400 dark:text-slate-600 hover:text-red-500 opacity-0 group-hover:opacity-100">
+                                      <Trash2 size={14} />
+                                  </button>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
               <p className="text-[10px] text-gray-400 dark:text-slate-600 max-w-md">
                  Nota: Para iniciar um novo projeto do zero, basta clicar em Iniciar Aplicação sem carregar ficheiros. O botão "Novo Projeto" encontra-se dentro da aplicação.
               </p>
@@ -972,7 +1538,7 @@ const App: React.FC = () => {
   // --- MAIN LAYOUT ---
 
   // Auth Check
-  if (!apiKey) {
+  if (!isProviderReady) {
       return (
           <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-slate-950 p-4 transition-colors duration-300">
               <div className="bg-white dark:bg-slate-900 p-8 rounded-2xl shadow-2xl border border-gray-200 dark:border-slate-800 w-full max-w-md animate-in fade-in zoom-in-95 duration-300">
@@ -1009,6 +1575,14 @@ const App: React.FC = () => {
                       >
                           Entrar na Aplicação
                       </button>
+
+                      <button 
+                        onClick={() => handleChangeProvider('mock')} 
+                        title={getProviderInfo('mock').description}
+                        className="w-full py-3 bg-gray-100 dark:bg-slate-800 hover:bg-gray-200 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300 font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                      >
+                          <ZapOff size={16} /> Continuar em Modo Offline (Demonstração)
+                      </button>
                   </div>
 
                   <div className="mt-6 pt-6 border-t border-gray-100 dark:border-slate-800 text-center">
@@ -1027,6 +1601,15 @@ const App: React.FC = () => {
       );
   }
 
+  // Nothing can be added until the last session is back, or the restore would overwrite it
+  if (!isSessionRestored) {
+      return (
+          <div className="h-screen flex items-center justify-center gap-2 bg-gray-50 dark:bg-slate-950 text-sm text-gray-500 dark:text-slate-400">
+              <Loader2 size={16} className="animate-spin" /> A restaurar a última sessão...
+          </div>
+      );
+  }
+
   if (currentView === 'landing') return renderLanding();
 
   const totalUnprocessed = evidenceFiles.filter(f => !f.isVirtual && !project.processedData.find(pd => pd.fileId === f.id)).length;
@@ -1042,6 +1625,7 @@ const App: React.FC = () => {
                     { id: 'setup', icon: LayoutGrid, label: 'Dados' },
                     { id: 'people', icon: Users, label: 'Pessoas' },
                     { id: 'library', icon: Library, label: 'Biblioteca' },
+                    { id: 'search', icon: Search, label: 'Pesquisa' },
                     { id: 'analysis', icon: FileText, label: 'Relatório' },
                     { id: 'chat', icon: MessageSquare, label: 'Chat' },
                 ].map(item => (
@@ -1067,6 +1651,20 @@ const App: React.FC = () => {
                     <span className="text-[8px]">Manual</span>
                 </button>
 
+                {/* CASE BUNDLE ACTIONS */}
+                <div className="flex flex-col gap-1 items-center pb-2 border-b border-gray-200 dark:border-slate-800 w-full">
+                    <span className="text-[8px] font-bold text-gray-400 dark:text-slate-600 uppercase mb-1">CASO</span>
+                    <label className="p-2 text-gray-400 dark:text-slate-500 hover:text-green-600 dark:hover:text-green-400 cursor-pointer flex flex-col items-center gap-1 w-full hover:bg-gray-100 dark:hover:bg-slate-800 rounded">
+                        <ArrowUp size={16} />
+                        <span className="text-[8px]">Abrir</span>
+                        <input type="file" accept=".veritas,.zip" onChange={handleLoadProject} className="hidden" />
+                    </label>
+                    <button onClick={handleSaveCaseBundle} title="Guardar caso completo (.veritas) com ficheiros originais" className="p-2 text-gray-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 flex flex-col items-center gap-1 w-full hover:bg-gray-100 dark:hover:bg-slate-800 rounded">
+                        <Package size={16} />
+                        <span className="text-[8px]">Exportar</span>
+                    </button>
+                </div>
+
                 {/* PROJECT ACTIONS */}
                 <div className="flex flex-col gap-1 items-center pb-2 border-b border-gray-200 dark:border-slate-800 w-full">
                     <span className="text-[8px] font-bold text-gray-400 dark:text-slate-600 uppercase mb-1">PROJETO</span>
@@ -1118,6 +1716,7 @@ const App: React.FC = () => {
                     {currentView === 'analysis' && 'Relatórios de Análise Forense'}
                     {currentView === 'chat' && 'Assistente IA'}
                     {currentView === 'library' && 'Biblioteca de Áudio e Evidências'}
+                    {currentView === 'search' && 'Pesquisa em Todas as Evidências'}
                 </h1>
                 <div className="flex items-center gap-4">
                      {currentView === 'setup' && totalUnprocessed > 0 && (
@@ -1136,8 +1735,28 @@ const App: React.FC = () => {
                     <div className="flex gap-4 text-xs font-mono text-gray-500 dark:text-slate-500 border-l border-gray-200 dark:border-slate-800 pl-4 border-r pr-4">
                         <span>Ficheiros: {evidenceFiles.length}</span>
                         <span>Relatórios: {project.savedReports.length}</span>
+                        {autosaveStatus === 'saving' && <span className="flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> A guardar...</span>}
+                        {autosaveStatus === 'saved' && <span className="flex items-center gap-1 text-green-600 dark:text-green-500"><Check size={12} /> Guardado</span>}
+                        {autosaveStatus === 'error' && <span className="flex items-center gap-1 text-red-500" title="Não foi possível guardar no browser. Use Guardar Projeto/Base de Dados."><CloudOff size={12} /> Erro ao guardar</span>}
                     </div>
 
+                    <input
+                        value={project.caseId || ''}
+                        onChange={(e) => setProject(prev => ({ ...prev, caseId: e.target.value || undefined }))}
+                        placeholder="N.º do processo"
+                        title="Identificação do processo, impressa no cabeçalho dos documentos exportados"
+                        className="w-36 bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-lg text-xs text-gray-600 dark:text-slate-300 px-2 py-1.5 outline-none focus:border-blue-500"
+                    />
+
+                    <select
+                        value={project.providerId}
+                        onChange={(e) => handleChangeProvider(e.target.value as AIProviderId)}
+                        title={providerInfo.description}
+                        className="bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-lg text-xs text-gray-600 dark:text-slate-300 px-2 py-1.5 outline-none"
+                    >
+                        {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+
                     <button
                         onClick={() => setIsDarkMode(!isDarkMode)}
                         className="p-2 text-gray-500 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-full transition-colors"
@@ -1196,6 +1815,59 @@ const App: React.FC = () => {
                                 >
                                     {isAnalyzing ? <Loader2 className="animate-spin" /> : "Gerar Novo Relatório"}
                                 </button>
+                                <button
+                                  onClick={runContradictionAnalysis}
+                                  disabled={isFindingContradictions}
+                                  title="Compara os depoimentos entre si e lista as declarações incompatíveis, lado a lado"
+                                  className="mt-3 px-6 py-2 bg-white dark:bg-slate-900 border border-gray-300 dark:border-slate-700 hover:border-primary-500 text-gray-700 dark:text-slate-200 rounded-full text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+                                >
+                                    {isFindingContradictions ? <Loader2 size={16} className="animate-spin" /> : <Users size={16} />} Procurar Contradições entre Testemunhas
+                                </button>
+                                <div className="mt-3 flex items-center gap-2" title="Compara o auto de inquirição de uma pessoa com o seu depoimento em julgamento: acrescentos, omissões e divergências">
+                                    <select
+                                      value={comparisonPersonId}
+                                      onChange={(e) => setComparisonPersonId(e.target.value)}
+                                      disabled={comparablePeople.length === 0}
+                                      className="bg-white dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded-full px-3 py-2 text-xs text-gray-700 dark:text-slate-200 outline-none focus:border-primary-500 disabled:opacity-50 max-w-[10rem]"
+                                    >
+                                        {comparablePeople.length === 0 && <option value="">Sem auto e depoimento</option>}
+                                        {comparablePeople.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                    <button
+                                      onClick={runStatementComparison}
+                                      disabled={isComparingStatements || comparablePeople.length === 0}
+                                      className="px-4 py-2 bg-white dark:bg-slate-900 border border-gray-300 dark:border-slate-700 hover:border-primary-500 text-gray-700 dark:text-slate-200 rounded-full text-xs font-bold flex items-center gap-2 disabled:opacity-50"
+                                    >
+                                        {isComparingStatements ? <Loader2 size={14} className="animate-spin" /> : <Gavel size={14} />} Auto vs. Depoimento
+                                    </button>
+                                </div>
+
+                                <div className="mt-6 w-full max-w-xs space-y-2 text-xs text-gray-500 dark:text-slate-400">
+                                    <label className="flex items-center justify-between gap-2" title="Máximo aproximado de tokens de evidências enviados por análise ou pergunta. Só os excertos mais relevantes são enviados quando o caso não cabe.">
+                                        <span>Orçamento de contexto (tokens)</span>
+                                        <input
+                                            type="number"
+                                            min={2000}
+                                            step={1000}
+                                            value={project.retrieval.tokenBudget}
+                                            onChange={(e) => {
+                                                const tokenBudget = parseInt(e.target.value);
+                                                if (Number.isFinite(tokenBudget)) setProject(prev => ({ ...prev, retrieval: { ...prev.retrieval, tokenBudget } }));
+                                            }}
+                                            onBlur={() => setProject(prev => ({ ...prev, retrieval: { ...prev.retrieval, tokenBudget: Math.max(2000, prev.retrieval.tokenBudget) } }))}
+                                            className="w-24 bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded px-2 py-1 text-right text-gray-800 dark:text-slate-200 outline-none focus:border-primary-500"
+                                        />
+                                    </label>
+                                    <label className={`flex items-center justify-between gap-2 ${providerInfo.supportsEmbeddings ? '' : 'opacity-50'}`} title={providerInfo.supportsEmbeddings ? "Combina a pesquisa por palavras com semelhança semântica (embeddings)." : "Não disponível com este fornecedor de IA."}>
+                                        <span>Pesquisa semântica (embeddings)</span>
+                                        <input
+                                            type="checkbox"
+                                            disabled={!providerInfo.supportsEmbeddings}
+                                            checked={providerInfo.supportsEmbeddings && project.retrieval.useEmbeddings}
+                                            onChange={(e) => setProject(prev => ({ ...prev, retrieval: { ...prev.retrieval, useEmbeddings: e.target.checked } }))}
+                                        />
+                                    </label>
+                                </div>
                             </div>
                         </div>
                     </div>
@@ -1282,6 +1954,16 @@ const App: React.FC = () => {
                     </div>
                 )}
 
+                {currentView === 'search' && (
+                    <CaseSearch
+                        files={evidenceFiles}
+                        processedData={project.processedData}
+                        people={project.people}
+                        categoryLabels={CATEGORY_LABELS}
+                        onOpen={(fid, location) => { setActiveEvidenceId(fid); setSeekLocation(location); }}
+                    />
+                )}
+
                 {/* PEOPLE */}
                 {currentView === 'people' && (
                     <div className="max-w-4xl mx-auto space-y-8 pb-20">
@@ -1316,6 +1998,52 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         </div>
+
+                        <div className="bg-white dark:bg-slate-900 p-8 rounded-2xl border border-gray-200 dark:border-slate-800 shadow-sm">
+                            <div className="flex items-center justify-between mb-2">
+                                <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                                    <Mic className="text-primary-500" /> Interlocutores nas Gravações
+                                </h2>
+                                <button
+                                    onClick={mergeSelectedSpeakers}
+                                    disabled={selectedSpeakers.length === 0}
+                                    className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-bold shadow hover:bg-primary-500 disabled:opacity-40"
+                                >
+                                    Juntar selecionados ({selectedSpeakers.length})
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">
+                                Associe cada voz identificada na transcrição a uma pessoa. As análises, o chat e as exportações passam a atribuir as falas à pessoa. Selecione vozes de gravações diferentes e junte-as para indicar que são a mesma pessoa.
+                            </p>
+                            {speakerRows.length === 0 ? (
+                                <div className="text-sm text-gray-400 dark:text-slate-500 italic">Nenhuma transcrição processada identifica interlocutores.</div>
+                            ) : (
+                                <div className="border border-gray-200 dark:border-slate-800 rounded-xl overflow-hidden divide-y divide-gray-200 dark:divide-slate-800 max-h-[400px] overflow-y-auto">
+                                    {speakerRows.map(row => (
+                                        <div key={speakerKey(row.ref)} className="flex items-center gap-3 p-2 text-sm hover:bg-gray-50 dark:hover:bg-slate-950">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedSpeakers.includes(speakerKey(row.ref))}
+                                                onChange={() => toggleSpeakerSelection(row.ref)}
+                                                className="accent-primary-600"
+                                            />
+                                            <div className="flex-1 min-w-0">
+                                                <div className="font-bold text-gray-800 dark:text-slate-200 truncate">{row.ref.label}</div>
+                                                <div className="text-[10px] text-gray-500 dark:text-slate-500 truncate">{row.fileName} · {row.segmentCount} falas</div>
+                                            </div>
+                                            <select
+                                                value={row.personId || ''}
+                                                onChange={(e) => assignPersonToSpeaker(row.ref, e.target.value)}
+                                                className="bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-lg px-2 py-1 text-xs text-gray-700 dark:text-slate-300 outline-none focus:border-primary-500 max-w-[200px]"
+                                            >
+                                                <option value="">— Sem pessoa —</option>
+                                                {project.people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     </div>
                 )}
                 
@@ -1403,6 +2131,24 @@ const App: React.FC = () => {
                                       <div className="text-[10px] text-gray-500 dark:text-slate-500">{new Date(rep.generatedAt).toLocaleString()}</div>
                                   </div>
                               ))}
+                              {project.contradictionReports.length > 0 && (
+                                  <div className="pt-3 pb-1 px-1 font-bold text-gray-400 dark:text-slate-500 text-[10px] uppercase">Contradições</div>
+                              )}
+                              {project.contradictionReports.map(rep => (
+                                  <div key={rep.id} onClick={() => setSelectedReportId(rep.id)} className={`p-3 rounded-lg cursor-pointer border transition-all ${selectedReportId === rep.id ? 'bg-blue-50 dark:bg-primary-900/30 border-primary-500/50' : 'bg-white dark:bg-slate-950 border-gray-200 dark:border-slate-800 hover:bg-gray-50 dark:hover:bg-slate-800'}`}>
+                                      <div className="text-sm font-bold text-gray-800 dark:text-slate-200 truncate">{rep.name}</div>
+                                      <div className="text-[10px] text-gray-500 dark:text-slate-500">{new Date(rep.generatedAt).toLocaleString()} · {rep.contradictions.length}</div>
+                                  </div>
+                              ))}
+                              {project.statementComparisons.length > 0 && (
+                                  <div className="pt-3 pb-1 px-1 font-bold text-gray-400 dark:text-slate-500 text-[10px] uppercase">Auto vs. Depoimento</div>
+                              )}
+                              {project.statementComparisons.map(rep => (
+                                  <div key={rep.id} onClick={() => setSelectedReportId(rep.id)} className={`p-3 rounded-lg cursor-pointer border transition-all ${selectedReportId === rep.id ? 'bg-blue-50 dark:bg-primary-900/30 border-primary-500/50' : 'bg-white dark:bg-slate-950 border-gray-200 dark:border-slate-800 hover:bg-gray-50 dark:hover:bg-slate-800'}`}>
+                                      <div className="text-sm font-bold text-gray-800 dark:text-slate-200 truncate">{rep.name}</div>
+                                      <div className="text-[10px] text-gray-500 dark:text-slate-500">{new Date(rep.generatedAt).toLocaleString()}</div>
+                                  </div>
+                              ))}
                           </div>
                       </div>
                       <div className="flex-1 bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-2xl overflow-hidden flex flex-col relative shadow-sm">
@@ -1410,6 +2156,8 @@ const App: React.FC = () => {
                            {project.savedReports.find(r => r.id === selectedReportId) ? (
                                 (() => {
                                     const activeReport = project.savedReports.find(r => r.id === selectedReportId)!;
+                                    const changedFacts = getChangedFacts(activeReport, project.facts);
+                                    const isReanalyzing = reanalyzingFactIds.length > 0;
                                     return (
                                         <>
                                             <div className="h-16 border-b border-gray-200 dark:border-slate-800 flex items-center justify-between px-6 bg-white dark:bg-slate-900">
@@ -1440,8 +2188,29 @@ const App: React.FC = () => {
                                                  <div className="flex gap-2">
                                                      {editingReportId !== activeReport.id ? (
                                                          <>
+                                                            <button
+                                                                onClick={() => reanalyzeFacts(activeReport.id, changedFacts, 'CHANGED')}
+                                                                disabled={changedFacts.length === 0 || isReanalyzing}
+                                                                title="Reanalisar apenas os factos novos ou alterados desde a geração deste relatório"
+                                                                className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 rounded text-xs text-gray-700 dark:text-white flex items-center gap-1 disabled:opacity-50"
+                                                            >
+                                                                {isReanalyzing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Reanalisar Alterados ({changedFacts.length})
+                                                            </button>
                                                             <button onClick={() => setEditingReportId(activeReport.id)} className="p-2 text-gray-400 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white"><Edit2 size={18}/></button>
-                                                            <button onClick={() => exportToWord(activeReport, activeReport.name)} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 rounded text-xs text-gray-700 dark:text-white">Exportar Word</button>
+                                                            <button onClick={() => exportToWord(activeReport, project.processedData, evidenceFiles, activeReport.name, project.caseId).catch(err => alert(err.message))} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 rounded text-xs text-gray-700 dark:text-white">Exportar Word</button>
+                                                            <div className="flex items-center bg-gray-100 dark:bg-slate-800 rounded text-xs text-gray-700 dark:text-white">
+                                                                <button
+                                                                    onClick={() => handleExportReportClips(activeReport)}
+                                                                    disabled={isExportingClips}
+                                                                    title="Exportar um ficheiro WAV por cada excerto de gravação citado, com índice"
+                                                                    className="px-3 py-1.5 hover:bg-gray-200 dark:hover:bg-slate-700 rounded-l flex items-center gap-1 disabled:opacity-50"
+                                                                >
+                                                                    {clipProgress ? <Loader2 size={12} className="animate-spin" /> : <Scissors size={12} />} Excertos Áudio {clipProgress && `(${clipProgress})`}
+                                                                </button>
+                                                                <label className="flex items-center gap-1 pr-2 pl-1 border-l border-gray-200 dark:border-slate-700" title="Margem antes e depois de cada excerto">
+                                                                    ±<input type="number" min={0} max={30} step={0.5} value={clipPadding} onChange={(e) => changeClipPadding(parseFloat(e.target.value))} className="w-10 bg-transparent outline-none text-right" />s
+                                                                </label>
+                                                            </div>
                                                             <button onClick={() => deleteReport(activeReport.id)} className="p-2 text-gray-400 dark:text-slate-400 hover:text-red-500"><Trash2 size={18}/></button>
                                                          </>
                                                      ) : (
@@ -1458,11 +2227,48 @@ const App: React.FC = () => {
                                                          <p className="text-gray-700 dark:text-slate-300 leading-relaxed text-sm">{activeReport.generalConclusion}</p>
                                                      )}
                                                  </div>
+                                                 {((activeReport.missingFacts?.length || 0) > 0 || (activeReport.validationIssues?.length || 0) > 0) && (
+                                                     <div className="bg-amber-50 dark:bg-amber-900/10 p-6 rounded-xl border border-amber-200 dark:border-amber-800/50 text-sm space-y-3">
+                                                         {(activeReport.missingFacts?.length || 0) > 0 && (
+                                                             <div>
+                                                                 <h3 className="text-amber-700 dark:text-amber-400 font-bold mb-2 uppercase text-xs flex items-center gap-2"><AlertTriangle size={14} /> Factos sem resposta na análise ({activeReport.missingFacts!.length})</h3>
+                                                                 <ul className="list-disc pl-5 text-gray-700 dark:text-slate-300 space-y-1">
+                                                                     {activeReport.missingFacts!.map(f => <li key={f.factId}>{f.factText}</li>)}
+                                                                 </ul>
+                                                             </div>
+                                                         )}
+                                                         {(activeReport.validationIssues?.length || 0) > 0 && (
+                                                             <details>
+                                                                 <summary className="cursor-pointer text-xs font-bold text-amber-700 dark:text-amber-400 uppercase">Avisos de validação da resposta ({activeReport.validationIssues!.length})</summary>
+                                                                 <ul className="list-disc pl-5 mt-2 text-xs text-gray-600 dark:text-slate-400 space-y-1">
+                                                                     {activeReport.validationIssues!.map((issue, i) => <li key={i}>{formatValidationIssue(issue, activeReport)}</li>)}
+                                                                 </ul>
+                                                             </details>
+                                                         )}
+                                                     </div>
+                                                 )}
                                                  <div className="space-y-6">
-                                                      {activeReport.results.map((res, idx) => (
+                                                      {activeReport.results.map((res, idx) => {
+                                                          const currentFact = project.facts.find(f => f.id === res.factId);
+                                                          return (
                                                           <div key={idx} className="border border-gray-200 dark:border-slate-800 rounded-xl overflow-hidden bg-white dark:bg-slate-900 shadow-sm">
                                                               <div className="bg-gray-50 dark:bg-slate-800/50 p-4 flex justify-between items-center border-b border-gray-100 dark:border-slate-800">
-                                                                  <h4 className="font-bold text-gray-800 dark:text-slate-200 text-sm">{res.factText}</h4>
+                                                                  <div className="flex items-center gap-2">
+                                                                      <h4 className="font-bold text-gray-800 dark:text-slate-200 text-sm">{res.factText}</h4>
+                                                                      {currentFact && currentFact.text !== res.factText && (
+                                                                          <span className="px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-[9px] font-bold uppercase" title={`Texto atual: ${currentFact.text}`}>Facto alterado</span>
+                                                                      )}
+                                                                      {currentFact && editingReportId !== activeReport.id && (
+                                                                          <button
+                                                                              onClick={() => reanalyzeFacts(activeReport.id, [currentFact], 'FACT')}
+                                                                              disabled={isReanalyzing}
+                                                                              title="Reanalisar este facto"
+                                                                              className="p-1 text-gray-400 dark:text-slate-500 hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-50"
+                                                                          >
+                                                                              {reanalyzingFactIds.includes(res.factId) ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                                                                          </button>
+                                                                      )}
+                                                                  </div>
                                                                   {editingReportId === activeReport.id ? (
                                                                       <select value={res.status} onChange={(e) => { const newResults = [...activeReport.results]; newResults[idx] = { ...res, status: e.target.value as any }; setProject(prev => ({ ...prev, savedReports: prev.savedReports.map(r => r.id === activeReport.id ? { ...r, results: newResults } : r) })); }} className="bg-white dark:bg-slate-900 text-xs text-gray-900 dark:text-white border border-gray-300 dark:border-slate-700 rounded p-1">
                                                                           <option value="Confirmado">Confirmado</option><option value="Desmentido">Desmentido</option><option value="Inconclusivo/Contraditório">Inconclusivo</option><option value="Não Mencionado">Não Mencionado</option>
@@ -1481,36 +2287,221 @@ const App: React.FC = () => {
                                                                   {res.citations.length > 0 && (
                                                                     <div className="space-y-3 pt-4 border-t border-gray-100 dark:border-slate-800/50">
                                                                         <h5 className="text-[10px] uppercase font-bold text-gray-400 dark:text-slate-500 mb-2">Citações e Fontes:</h5>
-                                                                        {(() => {
-                                                                            // GROUP CITATIONS BY FILE FOR REPORT
-                                                                            const groupedByFile: Record<string, Citation[]> = {};
-                                                                            res.citations.forEach(c => {
-                                                                                if(!groupedByFile[c.fileId]) groupedByFile[c.fileId] = [];
-                                                                                groupedByFile[c.fileId].push(c);
-                                                                            });
-
-                                                                            return Object.entries(groupedByFile).map(([fileId, cits]) => {
-                                                                                 const fileName = cits[0].fileName;
-                                                                                 const contentLines = cits.map(c => `* "${c.text}" [${c.timestamp}]`);
-                                                                                 
-                                                                                 return (
-                                                                                    <CitationGroup 
-                                                                                        key={fileId}
-                                                                                        fileName={fileName}
-                                                                                        contentLines={contentLines}
-                                                                                        evidenceFiles={evidenceFiles}
-                                                                                        onSeek={(fid, sec) => { setActiveEvidenceId(fid); setSeekSeconds(sec); }}
-                                                                                        onOpenOriginal={handleOpenOriginal}
-                                                                                        renderInline={renderTextWithInlineCitations}
-                                                                                    />
-                                                                                 );
-                                                                            });
-                                                                        })()}
+                                                                        {renderCitationGroups(res.citations, res.factText)}
                                                                     </div>
                                                                   )}
                                                               </div>
                                                           </div>
-                                                      ))}
+                                                          );
+                                                      })}
+                                                 </div>
+
+                                                 {(activeReport.revisions?.length || 0) > 0 && (
+                                                     <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-gray-200 dark:border-slate-800 shadow-sm">
+                                                         <h3 className="text-gray-500 dark:text-slate-400 font-bold mb-4 uppercase text-xs flex items-center gap-2"><History size={14} /> Histórico de Reanálises</h3>
+                                                         <div className="space-y-4">
+                                                             {[...activeReport.revisions!].reverse().map(rev => (
+                                                                 <div key={rev.id} className="border-l-2 border-gray-200 dark:border-slate-700 pl-4">
+                                                                     <div className="text-[10px] text-gray-400 dark:text-slate-500 uppercase font-bold mb-1">
+                                                                         {new Date(rev.createdAt).toLocaleString('pt-PT')} · {rev.scope === 'FACT' ? 'Facto individual' : 'Factos alterados'}
+                                                                     </div>
+                                                                     <ul className="space-y-1 text-xs text-gray-600 dark:text-slate-400">
+                                                                         {rev.changes.map(change => (
+                                                                             <li key={change.factId}>
+                                                                                 <span className="font-medium text-gray-800 dark:text-slate-200">{change.factText}</span>
+                                                                                 {change.previousFactText !== undefined && change.previousFactText !== change.factText && <span className="text-amber-600 dark:text-amber-400"> (texto alterado)</span>}
+                                                                                 {': '}
+                                                                                 {change.previousStatus || 'sem resultado'} → {change.status || (change.previousStatus ? 'sem resposta (mantido)' : 'sem resposta')}
+                                                                             </li>
+                                                                         ))}
+                                                                     </ul>
+                                                                 </div>
+                                                             ))}
+                                                         </div>
+                                                     </div>
+                                                 )}
+                                            </div>
+                                        </>
+                                    );
+                                })()
+                           ) : project.contradictionReports.find(r => r.id === selectedReportId) ? (
+                                (() => {
+                                    const activeReport = project.contradictionReports.find(r => r.id === selectedReportId)!;
+                                    const renderStatement = (statement: ContradictionStatement, topic: string) => (
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2 text-sm font-bold text-gray-800 dark:text-slate-200"><Users size={14} className="text-primary-600 dark:text-primary-400" /> {statement.personName}</div>
+                                            <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">{statement.summary}</p>
+                                            {renderCitationGroups([statement.citation], topic, false)}
+                                        </div>
+                                    );
+                                    return (
+                                        <>
+                                            <div className="h-16 border-b border-gray-200 dark:border-slate-800 flex items-center justify-between px-6 bg-white dark:bg-slate-900">
+                                                 {isRenamingReport ? (
+                                                    <div className="flex items-center gap-2 flex-1 mr-4">
+                                                        <input
+                                                            className="flex-1 bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded px-3 py-1 text-sm font-bold text-gray-900 dark:text-white focus:border-primary-500 outline-none"
+                                                            value={tempReportName}
+                                                            onChange={(e) => setTempReportName(e.target.value)}
+                                                            placeholder="Nome do relatório..."
+                                                            autoFocus
+                                                        />
+                                                        <button onClick={handleRenameReport} className="p-1.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded hover:bg-green-200 dark:hover:bg-green-900/50"><Check size={16} /></button>
+                                                        <button onClick={() => setIsRenamingReport(false)} className="p-1.5 bg-gray-100 dark:bg-slate-800 text-gray-500 dark:text-slate-400 rounded hover:bg-gray-200 dark:hover:bg-slate-700"><X size={16} /></button>
+                                                    </div>
+                                                 ) : (
+                                                    <div className="flex items-center gap-3">
+                                                        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{activeReport.name}</h2>
+                                                        <button
+                                                            onClick={() => { setTempReportName(activeReport.name); setIsRenamingReport(true); }}
+                                                            className="text-gray-400 hover:text-primary-500 dark:text-slate-500 dark:hover:text-primary-400 transition-colors"
+                                                        >
+                                                            <Pencil size={14} />
+                                                        </button>
+                                                    </div>
+                                                 )}
+                                                 <div className="flex gap-2">
+                                                     <button onClick={() => deleteReport(activeReport.id)} className="p-2 text-gray-400 dark:text-slate-400 hover:text-red-500"><Trash2 size={18}/></button>
+                                                 </div>
+                                            </div>
+                                            <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-gray-50 dark:bg-slate-950">
+                                                 <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-gray-200 dark:border-slate-800 shadow-sm">
+                                                     <h3 className="text-primary-600 dark:text-primary-400 font-bold mb-2 uppercase text-xs">Conclusão Geral</h3>
+                                                     <p className="text-gray-700 dark:text-slate-300 leading-relaxed text-sm">{activeReport.generalConclusion}</p>
+                                                     <p className="text-[10px] text-gray-400 dark:text-slate-500 mt-3">
+                                                         Depoimentos comparados: {activeReport.comparedFileIds.map(id => evidenceFiles.find(f => f.id === id)?.name || project.processedData.find(pd => pd.fileId === id)?.fileName || id).join(', ')}
+                                                     </p>
+                                                 </div>
+                                                 {(activeReport.validationIssues?.length || 0) > 0 && (
+                                                     <div className="bg-amber-50 dark:bg-amber-900/10 p-6 rounded-xl border border-amber-200 dark:border-amber-800/50 text-sm">
+                                                         <details>
+                                                             <summary className="cursor-pointer text-xs font-bold text-amber-700 dark:text-amber-400 uppercase">Avisos de validação da resposta ({activeReport.validationIssues!.length})</summary>
+                                                             <ul className="list-disc pl-5 mt-2 text-xs text-gray-600 dark:text-slate-400 space-y-1">
+                                                                 {activeReport.validationIssues!.map((issue, i) => <li key={i}>{issue}</li>)}
+                                                             </ul>
+                                                         </details>
+                                                     </div>
+                                                 )}
+                                                 {activeReport.contradictions.length === 0 ? (
+                                                     <div className="text-center text-sm text-gray-400 dark:text-slate-500 py-8">Nenhuma contradição encontrada entre os depoimentos.</div>
+                                                 ) : (
+                                                     <div className="space-y-6">
+                                                         {activeReport.contradictions.map((contradiction, idx) => (
+                                                             <div key={contradiction.id} className="border border-gray-200 dark:border-slate-800 rounded-xl overflow-hidden bg-white dark:bg-slate-900 shadow-sm">
+                                                                 <div className="bg-gray-50 dark:bg-slate-800/50 p-4 border-b border-gray-100 dark:border-slate-800">
+                                                                     <div className="flex items-center gap-2">
+                                                                         <span className="px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-[9px] font-bold uppercase">Contradição {idx + 1}</span>
+                                                                         <h4 className="font-bold text-gray-800 dark:text-slate-200 text-sm">{contradiction.topic}</h4>
+                                                                     </div>
+                                                                     {contradiction.explanation && <p className="text-xs text-gray-500 dark:text-slate-400 mt-2">{contradiction.explanation}</p>}
+                                                                 </div>
+                                                                 <div className="p-6 grid grid-cols-2 gap-6 divide-x divide-gray-100 dark:divide-slate-800">
+                                                                     {contradiction.statements.map((statement, si) => (
+                                                                         <div key={si} className={si > 0 ? 'pl-6' : ''}>{renderStatement(statement, contradiction.topic)}</div>
+                                                                     ))}
+                                                                 </div>
+                                                             </div>
+                                                         ))}
+                                                     </div>
+                                                 )}
+                                            </div>
+                                        </>
+                                    );
+                                })()
+                           ) : project.statementComparisons.find(r => r.id === selectedReportId) ? (
+                                (() => {
+                                    const activeReport = project.statementComparisons.find(r => r.id === selectedReportId)!;
+                                    const fileNames = (ids: string[]) => ids.map(id => evidenceFiles.find(f => f.id === id)?.name || id).join(', ');
+                                    const visibleTopics = activeReport.topics.filter(t => showConsistentTopics || t.kind !== 'CONSISTENT');
+                                    return (
+                                        <>
+                                            <div className="h-16 border-b border-gray-200 dark:border-slate-800 flex items-center justify-between px-6 bg-white dark:bg-slate-900">
+                                                 {isRenamingReport ? (
+                                                    <div className="flex items-center gap-2 flex-1 mr-4">
+                                                        <input
+                                                            className="flex-1 bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded px-3 py-1 text-sm font-bold text-gray-900 dark:text-white focus:border-primary-500 outline-none"
+                                                            value={tempReportName}
+                                                            onChange={(e) => setTempReportName(e.target.value)}
+                                                            placeholder="Nome do relatório..."
+                                                            autoFocus
+                                                        />
+                                                        <button onClick={handleRenameReport} className="p-1.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded hover:bg-green-200 dark:hover:bg-green-900/50"><Check size={16} /></button>
+                                                        <button onClick={() => setIsRenamingReport(false)} className="p-1.5 bg-gray-100 dark:bg-slate-800 text-gray-500 dark:text-slate-400 rounded hover:bg-gray-200 dark:hover:bg-slate-700"><X size={16} /></button>
+                                                    </div>
+                                                 ) : (
+                                                    <div className="flex items-center gap-3">
+                                                        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{activeReport.name}</h2>
+                                                        <button
+                                                            onClick={() => { setTempReportName(activeReport.name); setIsRenamingReport(true); }}
+                                                            className="text-gray-400 hover:text-primary-500 dark:text-slate-500 dark:hover:text-primary-400 transition-colors"
+                                                        >
+                                                            <Pencil size={14} />
+                                                        </button>
+                                                    </div>
+                                                 )}
+                                                 <div className="flex gap-2">
+                                                     <button onClick={() => exportStatementComparisonToWord(activeReport, project.processedData, evidenceFiles, project.caseId).catch(err => alert(err.message))} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 rounded text-xs text-gray-700 dark:text-white">Exportar Word</button>
+                                                     <button onClick={() => deleteReport(activeReport.id)} className="p-2 text-gray-400 dark:text-slate-400 hover:text-red-500"><Trash2 size={18}/></button>
+                                                 </div>
+                                            </div>
+                                            <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-gray-50 dark:bg-slate-950">
+                                                 <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-gray-200 dark:border-slate-800 shadow-sm">
+                                                     <h3 className="text-primary-600 dark:text-primary-400 font-bold mb-2 uppercase text-xs">Conclusão Geral</h3>
+                                                     <p className="text-gray-700 dark:text-slate-300 leading-relaxed text-sm">{activeReport.generalConclusion}</p>
+                                                     <div className="flex flex-wrap gap-2 mt-4">
+                                                         {(Object.keys(STATEMENT_CHANGE_LABELS) as StatementChangeKind[]).map(kind => (
+                                                             <span key={kind} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${STATEMENT_CHANGE_STYLES[kind]}`}>
+                                                                 {STATEMENT_CHANGE_LABELS[kind]}: {activeReport.topics.filter(t => t.kind === kind).length}
+                                                             </span>
+                                                         ))}
+                                                     </div>
+                                                     <p className="text-[10px] text-gray-400 dark:text-slate-500 mt-3">
+                                                         Auto de inquirição: {fileNames(activeReport.inquiryFileIds)} · Depoimento: {fileNames(activeReport.testimonyFileIds)}
+                                                     </p>
+                                                 </div>
+                                                 {(activeReport.validationIssues?.length || 0) > 0 && (
+                                                     <div className="bg-amber-50 dark:bg-amber-900/10 p-6 rounded-xl border border-amber-200 dark:border-amber-800/50 text-sm">
+                                                         <details>
+                                                             <summary className="cursor-pointer text-xs font-bold text-amber-700 dark:text-amber-400 uppercase">Avisos de validação da resposta ({activeReport.validationIssues!.length})</summary>
+                                                             <ul className="list-disc pl-5 mt-2 text-xs text-gray-600 dark:text-slate-400 space-y-1">
+                                                                 {activeReport.validationIssues!.map((issue, i) => <li key={i}>{issue}</li>)}
+                                                             </ul>
+                                                         </details>
+                                                     </div>
+                                                 )}
+                                                 <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+                                                     <input type="checkbox" checked={showConsistentTopics} onChange={(e) => setShowConsistentTopics(e.target.checked)} />
+                                                     Mostrar também os temas coincidentes
+                                                 </label>
+                                                 <div className="space-y-6">
+                                                     {visibleTopics.map(topic => (
+                                                         <div key={topic.id} className="border border-gray-200 dark:border-slate-800 rounded-xl overflow-hidden bg-white dark:bg-slate-900 shadow-sm">
+                                                             <div className="bg-gray-50 dark:bg-slate-800/50 p-4 border-b border-gray-100 dark:border-slate-800">
+                                                                 <div className="flex items-center gap-2">
+                                                                     <span className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase ${STATEMENT_CHANGE_STYLES[topic.kind]}`}>{STATEMENT_CHANGE_LABELS[topic.kind]}</span>
+                                                                     <h4 className="font-bold text-gray-800 dark:text-slate-200 text-sm">{topic.topic}</h4>
+                                                                 </div>
+                                                                 {topic.explanation && <p className="text-xs text-gray-500 dark:text-slate-400 mt-2">{topic.explanation}</p>}
+                                                             </div>
+                                                             <div className="p-6 grid grid-cols-2 gap-6">
+                                                                 <div className="min-w-0">
+                                                                     <h5 className="text-[10px] uppercase font-bold text-gray-400 dark:text-slate-500">Auto de Inquirição</h5>
+                                                                     {topic.inquiryCitations.length > 0
+                                                                         ? renderCitationGroups(topic.inquiryCitations, topic.topic)
+                                                                         : <p className="text-xs italic text-gray-400 dark:text-slate-500 mt-3">Não consta do auto.</p>}
+                                                                 </div>
+                                                                 <div className="min-w-0">
+                                                                     <h5 className="text-[10px] uppercase font-bold text-gray-400 dark:text-slate-500">Depoimento</h5>
+                                                                     {topic.testimonyCitations.length > 0
+                                                                         ? renderCitationGroups(topic.testimonyCitations, topic.topic)
+                                                                         : <p className="text-xs italic text-gray-400 dark:text-slate-500 mt-3">Não referido no depoimento.</p>}
+                                                                 </div>
+                                                             </div>
+                                                         </div>
+                                                     ))}
+                                                     {visibleTopics.length === 0 && (
+                                                         <div className="text-center text-sm text-gray-400 dark:text-slate-500 py-8">Sem acrescentos, omissões ou divergências entre o auto e o depoimento.</div>
+                                                     )}
                                                  </div>
                                             </div>
                                         </>
@@ -1529,17 +2520,82 @@ const App: React.FC = () => {
         {isManualImportOpen && (
             <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
                 <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl w-full max-w-2xl border border-gray-200 dark:border-slate-800 shadow-2xl">
-                    <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Importar Texto Manualmente</h3>
-                    <input className="w-full bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 p-3 rounded-lg text-gray-900 dark:text-white mb-4" placeholder="Nome do Documento / Depoimento" value={manualName} onChange={e => setManualName(e.target.value)} />
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Importar Texto ou Transcrição</h3>
+                    <div className="flex gap-2 mb-4">
+                        <select
+                            value={manualTargetId}
+                            onChange={e => setManualTargetId(e.target.value)}
+                            className="flex-1 bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 p-3 rounded-lg text-sm text-gray-900 dark:text-white outline-none"
+                            title="Uma transcrição associada a uma gravação fica sincronizada com o áudio, sem reprocessar"
+                        >
+                            <option value="">Novo documento de texto</option>
+                            {evidenceFiles.map(f => (
+                                <option key={f.id} value={f.id}>Associar a: {f.name}{project.processedData.some(pd => pd.fileId === f.id) ? ' (substitui a transcrição)' : ''}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2 px-4 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded-lg text-xs font-bold border border-gray-200 dark:border-slate-700 cursor-pointer" title="SRT, WebVTT, texto com tempos, JSON (Veritas, Whisper) ou transcrições de outras ferramentas">
+                            <Upload size={14} /> Ficheiro
+                            <input type="file" accept=".srt,.vtt,.txt,.json,text/plain,text/vtt,application/json" className="hidden" onChange={handleTranscriptFileSelect} />
+                        </label>
+                    </div>
+                    {!manualTargetId && (
+                        <input className="w-full bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 p-3 rounded-lg text-gray-900 dark:text-white mb-4" placeholder="Nome do Documento / Depoimento" value={manualName} onChange={e => setManualName(e.target.value)} />
+                    )}
                     <textarea 
-                        className="w-full h-64 bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-lg p-3 text-sm text-gray-800 dark:text-slate-300 outline-none focus:border-primary-500 resize-none"
-                        placeholder="Cole o texto aqui..."
+                        className="w-full h-64 bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-lg p-3 text-sm text-gray-800 dark:text-slate-300 outline-none focus:border-primary-500 resize-none font-mono"
+                        placeholder="Cole o texto aqui, ou carregue um ficheiro de legendas ou transcrição..."
                         value={manualText}
-                        onChange={e => setManualText(e.target.value)}
+                        onChange={e => { setManualText(e.target.value); setManualFileName(null); }}
                     />
+                    {manualFileName && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">Ficheiro: {manualFileName}</p>}
                     <div className="flex justify-end gap-2 mt-4">
-                        <button onClick={() => setIsManualImportOpen(false)} className="px-4 py-2 text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200 text-sm font-bold">Cancelar</button>
-                        <button onClick={handleManualImport} className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-sm font-bold shadow-lg shadow-primary-900/20">Importar</button>
+                        <button onClick={closeManualImport} className="px-4 py-2 text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200 text-sm font-bold">Cancelar</button>
+                        <button onClick={handleManualImport} disabled={isImportingTranscript} className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-sm font-bold shadow-lg shadow-primary-900/20 disabled:opacity-50">
+                            {isImportingTranscript && <Loader2 size={14} className="animate-spin" />} Importar
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* REHYDRATION RECONCILIATION MODAL */}
+        {reconciliationItems.length > 0 && (
+            <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl w-full max-w-2xl border border-gray-200 dark:border-slate-800 shadow-2xl">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Reconciliar Ficheiros</h3>
+                    <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">Alguns ficheiros correspondem a ficheiros em falta do projeto, mas não exatamente. Confirme a associação de cada um.</p>
+                    <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                        {reconciliationItems.map(item => {
+                            const isMismatch = item.reason === 'CONTENT_MISMATCH';
+                            return (
+                                <label key={item.id} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${isMismatch ? 'border-orange-200 dark:border-orange-900/50 bg-orange-50 dark:bg-orange-900/10' : 'border-gray-200 dark:border-slate-800 bg-gray-50 dark:bg-slate-950'}`}>
+                                    <input
+                                        type="checkbox"
+                                        className="mt-1"
+                                        checked={item.accept}
+                                        onChange={(e) => setReconciliationItems(prev => prev.map(i => i.id === item.id ? { ...i, accept: e.target.checked } : i))}
+                                    />
+                                    <div className="text-xs text-gray-700 dark:text-slate-300 space-y-1 overflow-hidden">
+                                        <div className="font-bold truncate">{item.incoming.file.name} → {item.candidate.name}</div>
+                                        {isMismatch ? (
+                                            <div className="text-orange-600 dark:text-orange-400 flex items-center gap-1">
+                                                <AlertTriangle size={12} /> Mesmo nome, mas o conteúdo é diferente do ficheiro que foi transcrito. Associar apenas se tiver a certeza.
+                                            </div>
+                                        ) : (
+                                            <div className="text-gray-500 dark:text-slate-400">
+                                                Conteúdo idêntico (SHA-256).
+                                                {(item.reason === 'RENAMED' || item.reason === 'RENAMED_MOVED') && ' O ficheiro foi renomeado.'}
+                                                {(item.reason === 'MOVED' || item.reason === 'RENAMED_MOVED') && ` Largado em "${CATEGORY_LABELS[item.incoming.category]}" mas pertence a "${CATEGORY_LABELS[item.candidate.category]}".`}
+                                            </div>
+                                        )}
+                                        <div className="text-[10px] text-gray-400 dark:text-slate-500">{item.accept ? 'Será associado ao ficheiro em falta.' : 'Será adicionado como ficheiro novo.'}</div>
+                                    </div>
+                                </label>
+                            );
+                        })}
+                    </div>
+                    <div className="flex justify-end gap-2 mt-4">
+                        <button onClick={applyReconciliation} className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-sm font-bold shadow-lg shadow-primary-900/20">Confirmar</button>
                     </div>
                 </div>
             </div>
@@ -1550,10 +2606,12 @@ const App: React.FC = () => {
             <EvidenceViewer 
                 file={evidenceFiles.find(f => f.id === activeEvidenceId) || null}
                 processedData={project.processedData.find(pd => pd.fileId === activeEvidenceId)}
-                initialSeekSeconds={seekSeconds}
+                initialLocation={seekLocation}
                 personName={evidenceFiles.find(f => f.id === activeEvidenceId)?.personId ? project.people.find(p => p.id === evidenceFiles.find(f => f.id === activeEvidenceId)?.personId)?.name : undefined}
-                onClose={() => { setActiveEvidenceId(null); setSeekSeconds(null); }}
-                onRenameSpeaker={handleRenameSpeaker}
+                onClose={() => { setActiveEvidenceId(null); setSeekLocation(null); }}
+                people={project.people}
+                citationMarkers={activeCitationMarkers}
+                onTranscriptChange={handleTranscriptChange}
             />
         )}
         
@@ -1562,14 +2620,19 @@ const App: React.FC = () => {
             <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
                 <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl w-full max-w-md border border-gray-200 dark:border-slate-800 shadow-2xl">
                     <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Exportar Conversa</h3>
-                    <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">Escolha o formato de exportação.</p>
+                    <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">Escolha o formato de exportação. As gravações citadas são anexadas como excertos WAV, não como ficheiros completos.</p>
+                    <label className="flex items-center justify-between text-xs text-gray-600 dark:text-slate-300 mb-4">
+                        Margem antes e depois de cada excerto (segundos)
+                        <input type="number" min={0} max={30} step={0.5} value={clipPadding} onChange={(e) => changeClipPadding(parseFloat(e.target.value))} className="w-16 bg-gray-50 dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded px-2 py-1 text-right outline-none focus:border-primary-500" />
+                    </label>
+                    {isExportingClips && <div className="text-xs text-gray-500 dark:text-slate-400 mb-2 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> A extrair excertos...</div>}
                     <div className="flex flex-col gap-2">
                         {exportModal.messageId && (
-                            <button onClick={() => handleExportChat('SINGLE')} className="p-3 bg-blue-50 dark:bg-primary-900/20 text-blue-700 dark:text-primary-300 rounded-lg text-sm font-bold hover:bg-blue-100 dark:hover:bg-primary-900/40 text-left transition-colors">
+                            <button onClick={() => handleExportChat('SINGLE')} disabled={isExportingClips} className="disabled:opacity-50 p-3 bg-blue-50 dark:bg-primary-900/20 text-blue-700 dark:text-primary-300 rounded-lg text-sm font-bold hover:bg-blue-100 dark:hover:bg-primary-900/40 text-left transition-colors">
                                 Exportar Apenas Esta Resposta
                             </button>
                         )}
-                        <button onClick={() => handleExportChat('FULL')} className="p-3 bg-gray-50 dark:bg-slate-800 text-gray-700 dark:text-slate-300 rounded-lg text-sm font-bold hover:bg-gray-100 dark:hover:bg-slate-700 text-left transition-colors">
+                        <button onClick={() => handleExportChat('FULL')} disabled={isExportingClips} className="disabled:opacity-50 p-3 bg-gray-50 dark:bg-slate-800 text-gray-700 dark:text-slate-300 rounded-lg text-sm font-bold hover:bg-gray-100 dark:hover:bg-slate-700 text-left transition-colors">
                             Exportar Toda a Conversa
                         </button>
                     </div>
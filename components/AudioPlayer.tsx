@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { EvidenceFile } from '../types';
 import { Play, Pause, Volume2, X } from 'lucide-react';
+import { PlaybackToolbar, usePlaybackControls } from './PlaybackControls';
 
 interface AudioPlayerProps {
   activeFile: EvidenceFile | null;
@@ -12,6 +13,7 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ activeFile, seekTo, onClose }
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
+  const playback = usePlaybackControls(audioRef, { isPlaying, setIsPlaying });
 
   // Handle new file loading
   useEffect(() => {
@@ -47,6 +49,8 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ activeFile, seekTo, onClose }
 
   const handleLoadedMetadata = () => {
     if (audioRef.current) {
+        playback.applyToMedia();
+
         // 1. Seek if requested
         if (seekTo !== null && Number.isFinite(seekTo)) {
             audioRef.current.currentTime = Math.max(0, seekTo);
@@ -59,17 +63,6 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ activeFile, seekTo, onClose }
     }
   };
 
-  const togglePlay = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        audioRef.current.play();
-      }
-      setIsPlaying(!isPlaying);
-    }
-  };
-
   const handleTimeUpdate = () => {
     if (audioRef.current && Number.isFinite(audioRef.current.duration)) {
       const pct = (audioRef.current.currentTime / audioRef.current.duration) * 100;
@@ -99,11 +92,12 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ activeFile, seekTo, onClose }
 
         <div className="flex items-center gap-4">
             <button 
-                onClick={togglePlay}
+                onClick={playback.togglePlay}
                 className="w-12 h-12 flex items-center justify-center rounded-full bg-primary-600 text-white hover:bg-primary-500 hover:scale-105 transition-all shadow-lg"
             >
                 {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1" />}
             </button>
+            <PlaybackToolbar controls={playback} tone="dark" />
             <div className="flex items-center gap-2 text-slate-500">
                 <Volume2 size={18} />
             </div>
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { EvidenceCategory, EvidenceFile, EvidenceLocation, Person, ProcessedContent, TranscriptSegment } from '../types';
+import { EMPTY_SEARCH_FILTERS, SearchFilters, SearchHit, TextRange, parseSearchQuery, searchCase } from '../utils/caseSearch';
+import { formatLocation, getAudioStart, parseLocationLabel } from '../utils/evidenceLocation';
+import { getSpeakerDisplayName } from '../utils/speakers';
+import { Search, PlayCircle, Eye, FileAudio, FileText, Users, AlertTriangle } from 'lucide-react';
+
+interface CaseSearchProps {
+  files: EvidenceFile[];
+  processedData: ProcessedContent[];
+  people: Person[];
+  categoryLabels: Record<EvidenceCategory, string>;
+  onOpen: (fileId: string, location: EvidenceLocation) => void; // Plays recordings, opens documents at the segment
+}
+
+const UNFOLDERED_LABEL = 'Geral';
+
+// "mm:ss" or "hh:mm:ss"; undefined when empty, null when unreadable
+const parseTimeInput = (value: string): number | undefined | null => {
+  if (!value.trim()) return undefined;
+  const location = parseLocationLabel(value);
+  return location ? getAudioStart(location) : null;
+};
+
+const renderRanges = (text: string, ranges: TextRange[]) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-yellow-300 dark:bg-yellow-600/50 text-black dark:text-white rounded px-0.5">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+};
+
+const CaseSearch: React.FC<CaseSearchProps> = ({ files, processedData, people, categoryLabels, onOpen }) => {
+  const [query, setQuery] = useState("");
+  const [personId, setPersonId] = useState("");
+  const [category, setCategory] = useState<EvidenceCategory | "">("");
+  const [folder, setFolder] = useState<string | null>(null);
+  const [fromText, setFromText] = useState("");
+  const [toText, setToText] = useState("");
+
+  const folders = useMemo(() => Array.from(new Set(files.map(f => f.folder || ""))).sort(), [files]);
+  const fromSeconds = parseTimeInput(fromText);
+  const toSeconds = parseTimeInput(toText);
+
+  const filters: SearchFilters = {
+    ...EMPTY_SEARCH_FILTERS,
+    personIds: personId ? [personId] : [],
+    categories: category ? [category] : [],
+    folders: folder !== null ? [folder] : [],
+    fromSeconds: fromSeconds ?? undefined,
+    toSeconds: toSeconds ?? undefined
+  };
+
+  const { result, error } = useMemo(() => {
+    if (!query.trim()) return { result: null, error: null };
+    try {
+      return { result: searchCase(parseSearchQuery(query), processedData, files, people, filters), error: null };
+    } catch (err: any) {
+      return { result: null, error: err.message as string };
+    }
+  }, [query, processedData, files, people, personId, category, folder, fromSeconds, toSeconds]);
+
+  // Hits grouped by file, keeping the order of the search
+  const groups = useMemo(() => {
+    const byFile = new Map<string, SearchHit[]>();
+    result?.hits.forEach(hit => byFile.set(hit.fileId, [...(byFile.get(hit.fileId) || []), hit]));
+    return Array.from(byFile.entries());
+  }, [result]);
+
+  const speakerName = (fileId: string, segment: TranscriptSegment): string | null => {
+    const content = processedData.find(pd => pd.fileId === fileId);
+    return content && segment.speaker ? getSpeakerDisplayName(content, segment.speaker, people) : null;
+  };
+
+  const renderContext = (fileId: string, segments: TranscriptSegment[]) => segments.map(seg => {
+    const speaker = speakerName(fileId, seg);
+    return (
+      <p key={seg.id} className="text-xs text-gray-400 dark:text-slate-500 leading-relaxed">
+        <span className="font-mono mr-2">{formatLocation(seg.location)}</span>
+        {speaker && <span className="font-bold mr-1">{speaker}:</span>}
+        {seg.text}
+      </p>
+    );
+  });
+
+  const inputClass = "px-3 py-2 bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-xl text-sm focus:border-primary-500 outline-none";
+
+  return (
+    <div className="max-w-5xl mx-auto pb-20 space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="p-3 bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-200 dark:border-slate-800">
+          <Search size={24} className="text-primary-600 dark:text-primary-400" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Pesquisa no Processo</h2>
+          <p className="text-sm text-gray-500 dark:text-slate-400">Procure em todas as transcrições e documentos processados de uma só vez.</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="relative">
+          <input
+            className={`${inputClass} w-full pl-10 py-3 text-base`}
+            placeholder='Ex.: "carro azul" OU viatura NÃO estacionado'
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            autoFocus
+          />
+          <Search className="absolute left-3 top-3.5 text-gray-400 w-4 h-4" />
+        </div>
+        <p className="text-[11px] text-gray-500 dark:text-slate-500">
+          Palavras inteiras, <code>"frase exata"</code>, prefixo com <code>testemunh*</code>, operadores <code>E</code>, <code>OU</code>, <code>NÃO</code> (ou <code>-palavra</code>) em maiúsculas e parênteses. Maiúsculas e acentos são ignorados.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <select className={inputClass} value={personId} onChange={e => setPersonId(e.target.value)}>
+            <option value="">Todas as pessoas</option>
+            {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <select className={inputClass} value={category} onChange={e => setCategory(e.target.value as EvidenceCategory | "")}>
+            <option value="">Todas as categorias</option>
+            {(Object.keys(categoryLabels) as EvidenceCategory[]).map(c => <option key={c} value={c}>{categoryLabels[c]}</option>)}
+          </select>
+          <select className={inputClass} value={folder ?? "*"} onChange={e => setFolder(e.target.value === "*" ? null : e.target.value)}>
+            <option value="*">Todas as pastas</option>
+            {folders.map(f => <option key={f} value={f}>{f || UNFOLDERED_LABEL}</option>)}
+          </select>
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+            <span>Gravação de</span>
+            <input className={`${inputClass} w-24 font-mono ${fromSeconds === null ? 'border-red-400 dark:border-red-500' : ''}`} placeholder="00:00" value={fromText} onChange={e => setFromText(e.target.value)} />
+            <span>a</span>
+            <input className={`${inputClass} w-24 font-mono ${toSeconds === null ? 'border-red-400 dark:border-red-500' : ''}`} placeholder="fim" value={toText} onChange={e => setToText(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-xl px-4 py-3">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      {processedData.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 border-2 border-dashed border-gray-200 dark:border-slate-800 rounded-2xl text-gray-400 dark:text-slate-600">
+          <p className="font-bold">Ainda não há evidências processadas</p>
+          <p className="text-sm mt-2">Processe os ficheiros no separador "Dados" para os poder pesquisar.</p>
+        </div>
+      ) : result && (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            {result.total === 0
+              ? 'Nenhum resultado.'
+              : `${result.total} resultado${result.total === 1 ? '' : 's'} em ${result.fileCount} ficheiro${result.fileCount === 1 ? '' : 's'}`}
+            {result.hits.length < result.total && ` · a mostrar os primeiros ${result.hits.length}; refine a pesquisa para ver os restantes.`}
+          </p>
+
+          {groups.map(([fileId, hits]) => {
+            const file = files.find(f => f.id === fileId)!;
+            const person = people.find(p => p.id === file.personId);
+            const isAudio = file.type === 'AUDIO';
+            return (
+              <div key={fileId} className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800 rounded-2xl overflow-hidden shadow-sm">
+                <div className="px-5 py-3 bg-gray-50 dark:bg-slate-900 border-b border-gray-100 dark:border-slate-800 flex items-center gap-3">
+                  {isAudio ? <FileAudio size={16} className="text-blue-500 dark:text-primary-400" /> : <FileText size={16} className="text-orange-500" />}
+                  <span className="font-bold text-sm text-gray-900 dark:text-white truncate" title={file.name}>{file.name}</span>
+                  <span className="text-[10px] uppercase font-bold text-gray-400 dark:text-slate-500">{categoryLabels[file.category]}</span>
+                  {person && <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-slate-400"><Users size={12} /> {person.name}</span>}
+                  <span className="ml-auto text-xs text-gray-400 dark:text-slate-500">{hits.length}</span>
+                </div>
+                <div className="divide-y divide-gray-100 dark:divide-slate-800">
+                  {hits.map(hit => {
+                    const speaker = speakerName(fileId, hit.segment);
+                    return (
+                      <div key={hit.segment.id} className="px-5 py-4 space-y-1 hover:bg-gray-50 dark:hover:bg-slate-800/40 group">
+                        {renderContext(fileId, hit.before)}
+                        <div className="flex gap-3 items-start">
+                          <p className="flex-1 text-sm text-gray-800 dark:text-slate-200 leading-relaxed">
+                            <span className="font-mono text-xs font-bold text-blue-600 dark:text-primary-400 mr-2">{formatLocation(hit.segment.location)}</span>
+                            {speaker && <span className="font-bold mr-1">{speaker}:</span>}
+                            {renderRanges(hit.segment.text, hit.ranges)}
+                          </p>
+                          <button
+                            onClick={() => onOpen(fileId, hit.segment.location)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold shrink-0"
+                            title={isAudio ? 'Ouvir a partir deste segmento' : 'Abrir o documento neste segmento'}
+                          >
+                            {isAudio ? <><PlayCircle size={14} /> Ouvir</> : <><Eye size={14} /> Abrir</>}
+                          </button>
+                        </div>
+                        {renderContext(fileId, hit.after)}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaseSearch;
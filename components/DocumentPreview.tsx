@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { EvidenceFile, ImageRegion } from '../types';
+import { drawPdfPage, loadPdfDocument, locatePdfPassage } from '../utils/pdfDocument';
+import { ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+
+// What the preview should show: the page of the selected passage, and the passage itself
+export interface PreviewFocus {
+  page?: number;          // 1-based PDF page
+  passage?: string;       // Text to highlight on that page
+  region?: ImageRegion;   // Highlighted area of an image
+}
+
+interface DocumentPreviewProps {
+  file: EvidenceFile;     // PDF or image, with its original available
+  fileUrl: string;        // Object URL of the original
+  focus: PreviewFocus | null;
+}
+
+interface PageSize {
+  width: number;   // PDF units, at scale 1
+  height: number;
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3];
+const PAGE_RENDER_MARGIN = '600px'; // Pages are drawn shortly before they scroll into view
+const HIGHLIGHT_COLOR = 'rgba(250, 204, 21, 0.4)';
+
+const regionStyle = (region: ImageRegion): React.CSSProperties => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+  backgroundColor: HIGHLIGHT_COLOR
+});
+
+interface PdfPageViewProps {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  width: number;             // CSS pixels
+  highlights: ImageRegion[];
+}
+
+// One page: a placeholder of the right size until it nears the screen, then a canvas
+const PdfPageView: React.FC<PdfPageViewProps> = ({ doc, pageNumber, size, width, highlights }) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const drawingRef = useRef<Promise<unknown>>(Promise.resolve()); // pdf.js refuses two renders on one canvas
+
+  useEffect(() => {
+    const el = wrapperRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(entries => setIsVisible(entries[0].isIntersecting), { rootMargin: PAGE_RENDER_MARGIN });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    if (!isVisible) {
+      canvas.width = canvas.height = 0; // Pages far from view give their bitmap back
+      return;
+    }
+    let cancelled = false;
+    let task: ReturnType<typeof drawPdfPage> | null = null;
+    drawingRef.current = drawingRef.current
+      .then(() => doc.getPage(pageNumber))
+      .then(page => {
+        if (cancelled) return;
+        // Drawn at the screen's pixel density so small print stays sharp
+        task = drawPdfPage(page, canvas, (width * window.devicePixelRatio) / size.width);
+        return task.promise;
+      })
+      .catch(err => {
+        if (err?.name !== 'RenderingCancelledException') console.error(err);
+      });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, pageNumber, isVisible, width]);
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={wrapperRef}
+        data-page={pageNumber}
+        className="relative bg-white shadow-md border border-gray-200 dark:border-slate-700"
+        style={{ width, height: (width * size.height) / size.width }}
+      >
+        <canvas ref={canvasRef} className="w-full h-full" />
+        {highlights.map((region, i) => (
+          <div key={i} className="absolute rounded-sm pointer-events-none mix-blend-multiply" style={regionStyle(region)} />
+        ))}
+      </div>
+      <p className="text-center text-[10px] font-mono text-gray-400 dark:text-slate-500">Pág {pageNumber}</p>
+    </div>
+  );
+};
+
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ file, fileUrl, focus }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoomIdx, setZoomIdx] = useState(0);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [highlights, setHighlights] = useState<{ page: number; regions: ImageRegion[] } | null>(null);
+
+  const isPdf = file.type === 'PDF';
+  const pageWidth = Math.max(0, width * ZOOM_LEVELS[zoomIdx]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    // Padding excluded: pages fit the panel at 100%
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isPdf || !file.file) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setPageSizes([]);
+    setLoadError(null);
+    loadPdfDocument(file.file)
+      .then(async pdf => {
+        // Cleaned up before it opened: nobody else will release it
+        if (cancelled) { pdf.destroy(); return; }
+        loaded = pdf;
+        const sizes: PageSize[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          const viewport = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+          sizes.push({ width: viewport.width, height: viewport.height });
+        }
+        if (cancelled) return;
+        setPageSizes(sizes);
+        setDoc(pdf);
+      })
+      .catch(err => { if (!cancelled) setLoadError(err.message); });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, isPdf]);
+
+  // Passage rectangles on the focused page; scanned pages have no text layer to search
+  useEffect(() => {
+    setHighlights(null);
+    if (!doc || !focus?.page || !focus.passage) return;
+    let cancelled = false;
+    const page = focus.page;
+    locatePdfPassage(doc, page, focus.passage)
+      .then(regions => { if (!cancelled) setHighlights({ page, regions }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [doc, focus?.page, focus?.passage]);
+
+  // Lands on the focused page, then on the passage once it has been located
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !focus?.page || pageSizes.length === 0) return;
+    const pageEl = container.querySelector<HTMLElement>(`[data-page="${focus.page}"]`);
+    if (!pageEl) return;
+    const regions = highlights?.page === focus.page ? highlights.regions : [];
+    const offset = regions.length > 0 ? Math.min(...regions.map(r => r.y)) * pageEl.offsetHeight - container.clientHeight / 3 : -16;
+    container.scrollTo({ top: Math.max(0, pageEl.offsetTop + offset), behavior: 'smooth' });
+  }, [focus?.page, highlights, pageSizes, pageWidth]);
+
+  const passageNotFound = isPdf && !!focus?.passage && highlights?.page === focus.page && highlights.regions.length === 0;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-2 min-h-0">
+      <div className="flex items-center justify-between text-[10px] text-gray-500 dark:text-slate-400">
+        <span>
+          {isPdf
+            ? (pageSizes.length > 0 ? `${pageSizes.length} página${pageSizes.length === 1 ? '' : 's'}` : '')
+            : 'Imagem original'}
+          {passageNotFound && <span className="ml-2 text-amber-600 dark:text-amber-400">Passagem não localizada na camada de texto desta página.</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoomIdx(Math.max(0, zoomIdx - 1))} disabled={zoomIdx === 0} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-slate-800 disabled:opacity-30" title="Reduzir"><ZoomOut size={14} /></button>
+          <span className="font-mono w-10 text-center">{Math.round(ZOOM_LEVELS[zoomIdx] * 100)}%</span>
+          <button onClick={() => setZoomIdx(Math.min(ZOOM_LEVELS.length - 1, zoomIdx + 1))} disabled={zoomIdx === ZOOM_LEVELS.length - 1} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-slate-800 disabled:opacity-30" title="Ampliar"><ZoomIn size={14} /></button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative flex-1 min-h-0 overflow-auto rounded-lg bg-gray-200 dark:bg-slate-950 p-3">
+        {isPdf ? (
+          loadError ? (
+            <p className="text-xs text-red-600 dark:text-red-400 text-center py-8">Não foi possível abrir o PDF: {loadError}</p>
+          ) : doc && pageWidth > 0 ? (
+            <div className="space-y-3" style={{ width: pageWidth }}>
+              {pageSizes.map((size, idx) => (
+                <PdfPageView
+                  key={idx}
+                  doc={doc}
+                  pageNumber={idx + 1}
+                  size={size}
+                  width={pageWidth}
+                  highlights={highlights?.page === idx + 1 ? highlights.regions : []}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-8 text-xs text-gray-500 dark:text-slate-400">
+              <Loader2 size={14} className="animate-spin" /> A abrir o documento...
+            </div>
+          )
+        ) : (
+          <div className="relative" style={{ width: pageWidth || undefined }}>
+            <img src={fileUrl} alt={file.name} className="w-full h-auto shadow-md" />
+            {focus?.region && <div className="absolute rounded-sm pointer-events-none mix-blend-multiply border-2 border-yellow-500" style={regionStyle(focus.region)} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPreview;
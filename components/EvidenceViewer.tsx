@@ -1,24 +1,41 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { EvidenceFile, ProcessedContent } from '../types';
-import { Play, Pause, X, Rewind, FastForward, FileText, User, ExternalLink, Search, ChevronUp, ChevronDown, Edit3, Save } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EvidenceFile, EvidenceLocation, Person, ProcessedContent, TranscriptSegment, WordTiming } from '../types';
+import { getAudioStart, locationMatches, formatLocation } from '../utils/evidenceLocation';
+import { alignSegmentWords, findSegmentAtTime, findWordAtTime } from '../utils/wordTiming';
+import { CORRECTION_KIND_LABELS, SegmentEdit, editSegment, getUndoableCorrection, mergeWithNext, renameSpeaker, splitSegment, undoLastCorrection } from '../utils/transcriptEditing';
+import { getSpeakerDisplayName, getSpeakerLabels, getSpeakerPerson, setSpeakerPerson } from '../utils/speakers';
+import { CitationMarker } from '../utils/citations';
+import { isTimedTranscript, TRANSCRIPT_FORMATS, TranscriptFormat } from '../utils/transcriptFormats';
+import { exportTranscript } from '../utils/exportService';
+import WaveformTimeline, { TimelineRegion } from './WaveformTimeline';
+import DocumentPreview, { PreviewFocus } from './DocumentPreview';
+import { PlaybackToolbar, usePlaybackControls } from './PlaybackControls';
+import { Play, Pause, X, Rewind, FastForward, FileText, User, ExternalLink, Search, ChevronUp, ChevronDown, Edit3, Save, Undo2, Scissors, Merge, History, Pencil } from 'lucide-react';
+
+const SPEAKER_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1'];
+const UNLABELLED_SPEAKER_COLOR = '#94a3b8';
 
 interface EvidenceViewerProps {
   file: EvidenceFile | null;
   processedData: ProcessedContent | undefined;
-  initialSeekSeconds: number | null;
+  initialLocation: EvidenceLocation | null; // Passage to open at (seeks recordings, scrolls documents)
   personName?: string;
+  people: Person[];  // Case people the file's speakers can be linked to
+  citationMarkers: CitationMarker[]; // Report and chat citations pointing at this file
   onClose: () => void;
-  onRenameSpeaker: (fileId: string, oldName: string, newName: string) => void;
+  onTranscriptChange: (updated: ProcessedContent) => void; // Receives the transcript with the new correction recorded
 }
 
 const EvidenceViewer: React.FC<EvidenceViewerProps> = ({ 
   file, 
   processedData, 
-  initialSeekSeconds, 
+  initialLocation, 
   personName,
+  people,
+  citationMarkers,
   onClose,
-  onRenameSpeaker
+  onTranscriptChange
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -26,6 +43,8 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>(-1);
+  const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
+  const activeSegmentRef = useRef<number>(-1); // Read by the animation-frame loop, which outlives renders
   
   const [fileUrl, setFileUrl] = useState<string | null>(null);
 
@@ -40,6 +59,14 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
   const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
   const [newSpeakerName, setNewSpeakerName] = useState("");
 
+  // Transcript Editing State
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Required<SegmentEdit>>({ text: "", speaker: "", position: "" });
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showCorrections, setShowCorrections] = useState(false);
+  const draftTextRef = useRef<HTMLTextAreaElement>(null);
+
   useEffect(() => {
     if (file && file.file) {
       const url = URL.createObjectURL(file.file);
@@ -54,30 +81,7 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
   // Detect Speakers on Load
   useEffect(() => {
       if (processedData) {
-          const speakers = new Set<string>();
-          processedData.segments.forEach(seg => {
-              let name = "";
-              
-              // Pattern 1: Bold Format (**Speaker**)
-              const boldMatch = seg.text.match(/^\*\*(.*?)\*\*/);
-              if (boldMatch) {
-                  name = boldMatch[1].replace(':', '').trim();
-              } 
-              // Pattern 2: Legacy/Simple Format (Speaker:) - Must be at start of string
-              else {
-                  const simpleMatch = seg.text.match(/^([A-Za-zÀ-ÖØ-öø-ÿ0-9\s]+):/);
-                  if (simpleMatch) {
-                      name = simpleMatch[1].trim();
-                  }
-              }
-
-              // Validate name to avoid false positives (e.g., too long sentences)
-              if (name && name.length > 0 && name.length < 40 && !name.includes('\n')) {
-                  speakers.add(name);
-              }
-          });
-          
-          const speakerList = Array.from(speakers).sort();
+          const speakerList = getSpeakerLabels(processedData).sort();
           setDetectedSpeakers(speakerList);
           
           // Auto-open tools if speakers are detected
@@ -112,7 +116,7 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       const segIndex = searchResults[nextIndex];
       scrollToSegment(segIndex);
       // Optional: Jump audio too? Yes
-      if (processedData) jumpToSegment(processedData.segments[segIndex].seconds);
+      if (processedData) jumpToSegment(processedData.segments[segIndex]);
   };
 
   const handlePrevResult = () => {
@@ -121,16 +125,67 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       setCurrentResultIndex(prevIndex);
       const segIndex = searchResults[prevIndex];
       scrollToSegment(segIndex);
-      if (processedData) jumpToSegment(processedData.segments[segIndex].seconds);
+      if (processedData) jumpToSegment(processedData.segments[segIndex]);
   };
 
+  // Word timings of each segment; segments transcribed before word alignment spread their words evenly
+  const segmentWords = useMemo<(WordTiming[] | undefined)[]>(
+      () => processedData ? processedData.segments.map(seg => seg.words || alignSegmentWords(seg)) : [],
+      [processedData]
+  );
+
+  // One colour per speaker label, in order of first appearance
+  const speakerColors = useMemo<Record<string, string>>(() => {
+      const colors: Record<string, string> = {};
+      if (processedData) getSpeakerLabels(processedData).forEach((label, idx) => { colors[label] = SPEAKER_COLORS[idx % SPEAKER_COLORS.length]; });
+      return colors;
+  }, [processedData]);
+
+  const timelineRegions = useMemo<TimelineRegion[]>(() => {
+      if (!processedData) return [];
+      return processedData.segments.flatMap(seg => {
+          if (seg.location.kind !== 'AUDIO_TIME' || seg.location.end === undefined) return [];
+          return [{
+              start: seg.location.start,
+              end: seg.location.end,
+              color: seg.speaker ? speakerColors[seg.speaker] : UNLABELLED_SPEAKER_COLOR,
+              label: seg.speaker ? getSpeakerDisplayName(processedData, seg.speaker, people) : ''
+          }];
+      });
+  }, [processedData, speakerColors, people]);
+
+  // Documents and images have nothing to seek: highlight the cited passage instead
+  useEffect(() => {
+      if (!processedData || !initialLocation || getAudioStart(initialLocation) !== null) return;
+      const idx = processedData.segments.findIndex(seg => locationMatches(seg.location, initialLocation));
+      if (idx !== -1) {
+          activeSegmentRef.current = idx;
+          setActiveSegmentIndex(idx);
+          setTimeout(() => scrollToSegment(idx), 0);
+      }
+  }, [processedData, initialLocation]);
+
+  // The preview follows the selected segment, or the cited page when no segment matched it
+  const previewFocus = useMemo<PreviewFocus | null>(() => {
+      const seg = processedData?.segments[activeSegmentIndex];
+      const location = seg?.location || initialLocation;
+      if (!location) return null;
+      switch (location.kind) {
+          case 'PAGE': return { page: location.page, passage: seg?.text };
+          case 'IMAGE_REGION': return { region: location.region };
+          default: return null;
+      }
+  }, [processedData, activeSegmentIndex, initialLocation]);
+
   const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLAudioElement>) => {
       const audio = e.currentTarget;
       setDuration(audio.duration);
+      playback.applyToMedia();
 
       // Seek and Play safely on load
-      if (initialSeekSeconds !== null && !isNaN(initialSeekSeconds)) {
-          audio.currentTime = Math.max(0, initialSeekSeconds);
+      const initialSeconds = initialLocation ? getAudioStart(initialLocation) : null;
+      if (initialSeconds !== null && !isNaN(initialSeconds)) {
+          audio.currentTime = Math.max(0, initialSeconds);
           
           const playPromise = audio.play();
           if (playPromise !== undefined) {
@@ -144,6 +199,31 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       }
   };
 
+  // Segment and word being spoken at `time`; nothing is highlighted during pauses
+  const syncToTime = (time: number) => {
+      if (!processedData) return;
+      const idx = findSegmentAtTime(processedData.segments, time);
+      if (idx !== activeSegmentRef.current) {
+          activeSegmentRef.current = idx;
+          setActiveSegmentIndex(idx);
+          if (idx !== -1) scrollToSegment(idx);
+      }
+      const words = idx !== -1 ? segmentWords[idx] : undefined;
+      setActiveWordIndex(words ? findWordAtTime(words, time) : -1);
+  };
+
+  // timeupdate only fires a few times per second, too coarse for words: follow every frame while playing
+  useEffect(() => {
+      if (!isPlaying) return;
+      let frame = 0;
+      const tick = () => {
+          if (audioRef.current) syncToTime(audioRef.current.currentTime);
+          frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+  }, [isPlaying, segmentWords]);
+
   const handleTimeUpdate = () => {
     if (audioRef.current) {
       const time = audioRef.current.currentTime;
@@ -151,18 +231,7 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       if(!Number.isNaN(audioRef.current.duration)) {
           setDuration(audioRef.current.duration);
       }
-
-      if (processedData?.segments) {
-        const idx = processedData.segments.findIndex((seg, i) => {
-           const nextSeg = processedData.segments[i + 1];
-           return time >= seg.seconds && (nextSeg ? time < nextSeg.seconds : true);
-        });
-        
-        if (idx !== -1 && idx !== activeSegmentIndex) {
-            setActiveSegmentIndex(idx);
-            scrollToSegment(idx);
-        }
-      }
+      syncToTime(time);
     }
   };
 
@@ -173,8 +242,22 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       }
   };
 
-  const jumpToSegment = (seconds: number) => {
-      if (audioRef.current) {
+  // Recordings play from the segment; documents show it in the preview
+  const selectSegment = (idx: number) => {
+      if (!processedData) return;
+      const seg = processedData.segments[idx];
+      if (getAudioStart(seg.location) !== null) {
+          jumpToSegment(seg);
+          return;
+      }
+      activeSegmentRef.current = idx;
+      setActiveSegmentIndex(idx);
+  };
+
+  // Only segments located in time can be played
+  const jumpToSegment = (segment: TranscriptSegment) => {
+      const seconds = getAudioStart(segment.location);
+      if (audioRef.current && seconds !== null) {
           audioRef.current.currentTime = seconds;
           audioRef.current.play()
               .then(() => setIsPlaying(true))
@@ -182,24 +265,28 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       }
   };
 
-  const togglePlay = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-          audioRef.current.pause();
-          setIsPlaying(false);
-      } else {
-          audioRef.current.play().catch(console.error);
-          setIsPlaying(true);
-      }
-    }
+  const showTime = (seconds: number) => {
+      setCurrentTime(seconds);
+      syncToTime(seconds);
   };
 
-  const skip = (amount: number) => {
-      if (audioRef.current) {
-          audioRef.current.currentTime += amount;
-      }
+  const seekTo = (seconds: number) => {
+      if (!audioRef.current) return;
+      audioRef.current.currentTime = seconds;
+      showTime(seconds);
   };
 
+  // Speed, A-B loop, auto-rewind and shortcuts; "repeat segment" loops the segment being spoken
+  const playback = usePlaybackControls(audioRef, {
+      isPlaying,
+      setIsPlaying,
+      onSeek: showTime,
+      getSegmentRange: () => {
+          const seg = processedData?.segments[activeSegmentRef.current];
+          return seg && seg.location.kind === 'AUDIO_TIME' && seg.location.end !== undefined ? { start: seg.location.start, end: seg.location.end } : null;
+      }
+  });
+
   const formatTime = (time: number) => {
       if (Number.isNaN(time)) return "00:00";
       const m = Math.floor(time / 60);
@@ -218,20 +305,79 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
       );
   };
   
+  // Active segment read word by word: the word being said is highlighted, clicking a word plays from it
+  const renderTimedWords = (words: WordTiming[]) => {
+      return (
+          <>
+              {words.map((word, i) => (
+                  <React.Fragment key={i}>
+                      {i > 0 && ' '}
+                      <span
+                          onClick={(e) => {
+                              e.stopPropagation();
+                              if (audioRef.current) {
+                                  audioRef.current.currentTime = word.start;
+                                  syncToTime(word.start);
+                              }
+                          }}
+                          className={`rounded px-0.5 transition-colors ${i === activeWordIndex ? 'bg-blue-600 text-white dark:bg-primary-500' : 'hover:bg-blue-100 dark:hover:bg-primary-900/40'}`}
+                      >
+                          {word.text}
+                      </span>
+                  </React.Fragment>
+              ))}
+          </>
+      );
+  };
+
   const submitRename = (oldName: string) => {
-      if(file && newSpeakerName.trim() && newSpeakerName !== oldName) {
-          onRenameSpeaker(file.id, oldName, newSpeakerName.trim());
+      if(processedData && newSpeakerName.trim() && newSpeakerName !== oldName) {
+          onTranscriptChange(renameSpeaker(processedData, oldName, newSpeakerName.trim()));
           setEditingSpeaker(null);
           setNewSpeakerName("");
-          
-          // Update local state immediately for better UX
-          setDetectedSpeakers(prev => prev.map(s => s === oldName ? newSpeakerName.trim() : s));
       }
   };
 
+  // Every change goes through transcriptEditing, which records it in the audit trail
+  const applyChange = (change: (content: ProcessedContent) => ProcessedContent): boolean => {
+      if (!processedData) return false;
+      try {
+          const updated = change(processedData);
+          if (updated !== processedData) onTranscriptChange(updated);
+          setEditError(null);
+          return true;
+      } catch (err: any) {
+          setEditError(err.message);
+          return false;
+      }
+  };
+
+  const startEditing = (seg: TranscriptSegment) => {
+      setEditingSegmentId(seg.id);
+      setDraft({ text: seg.text.trim(), speaker: seg.speaker || "", position: formatLocation(seg.location) });
+      setEditError(null);
+  };
+
+  const saveDraft = () => {
+      if (editingSegmentId && applyChange(content => editSegment(content, editingSegmentId, draft))) setEditingSegmentId(null);
+  };
+
+  // Saves pending changes, then splits what was said at the cursor
+  const splitAtCursor = () => {
+      if (!editingSegmentId) return;
+      const cursor = draftTextRef.current?.selectionStart ?? 0;
+      const offset = cursor - (draft.text.length - draft.text.trimStart().length);
+      if (applyChange(content => splitSegment(editSegment(content, editingSegmentId, draft), editingSegmentId, offset))) setEditingSegmentId(null);
+  };
+
+  const undoableCorrection = processedData ? getUndoableCorrection(processedData) : undefined;
+  const corrections = processedData?.corrections || [];
+
   if (!file) return null;
 
   const isAudio = file.type === 'AUDIO';
+  const canPreview = !!fileUrl && (file.type === 'PDF' || file.type === 'IMAGE');
+  const ocrPages = processedData?.pageMethods?.filter(p => p.method === 'AI_OCR').map(p => p.page);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -251,10 +397,53 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
                              <User size={12} /> {personName}
                          </div>
                      )}
+                     {ocrPages && (
+                         <div className="text-[10px] text-gray-500 dark:text-slate-400" title="Páginas sem camada de texto (digitalizadas) são lidas pela IA; as restantes vêm do próprio PDF">
+                             {ocrPages.length === 0
+                                 ? 'Texto extraído do PDF'
+                                 : ocrPages.length === processedData?.pageMethods?.length
+                                     ? 'Documento digitalizado: texto lido pela IA (OCR)'
+                                     : `OCR pela IA: pág. ${ocrPages.join(', ')} · restantes páginas extraídas do PDF`}
+                         </div>
+                     )}
                  </div>
              </div>
              
              <div className="flex items-center gap-2">
+                 {processedData && (
+                     <>
+                         <button
+                             onClick={() => applyChange(undoLastCorrection)}
+                             disabled={!undoableCorrection}
+                             className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                             title={undoableCorrection ? `Desfazer: ${undoableCorrection.description}` : "Nada para desfazer"}
+                         >
+                             <Undo2 size={18} />
+                             <span className="hidden sm:inline text-xs font-bold">Desfazer</span>
+                         </button>
+                         <button
+                             onClick={() => { setIsEditing(!isEditing); setEditingSegmentId(null); setEditError(null); }}
+                             className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-colors border ${isEditing ? 'bg-blue-600 dark:bg-primary-600 text-white border-transparent' : 'text-gray-500 dark:text-slate-400 border-transparent hover:bg-gray-100 dark:hover:bg-slate-800 hover:text-gray-900 dark:hover:text-white'}`}
+                             title="Corrigir texto, interlocutor e posição dos segmentos"
+                         >
+                             <Pencil size={16} />
+                             <span className="hidden sm:inline">{isEditing ? 'A editar' : 'Editar'}</span>
+                         </button>
+                         <select
+                             value=""
+                             onChange={(e) => {
+                                 try { exportTranscript(processedData, e.target.value as TranscriptFormat, people); } catch (err: any) { alert(err.message); }
+                             }}
+                             className="px-2 py-2 bg-transparent hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg text-xs font-bold text-gray-500 dark:text-slate-400 outline-none cursor-pointer"
+                             title="Descarregar a transcrição como legendas, texto ou JSON"
+                         >
+                             <option value="" disabled>Exportar transcrição</option>
+                             {TRANSCRIPT_FORMATS.map(f => (
+                                 <option key={f.id} value={f.id} disabled={f.timedOnly && !isTimedTranscript(processedData)}>{f.label} (.{f.extension})</option>
+                             ))}
+                         </select>
+                     </>
+                 )}
                  {fileUrl && (
                      <a 
                          href={fileUrl}
@@ -278,21 +467,37 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
           <div className="flex-1 flex overflow-hidden">
              
              {/* Left Panel: Media / Visuals */}
-             <div className="w-1/3 bg-gray-50 dark:bg-slate-925 border-r border-gray-200 dark:border-slate-800 flex flex-col p-6 items-center justify-center relative">
+             <div className={`${canPreview ? 'w-1/2' : 'w-1/3'} bg-gray-50 dark:bg-slate-925 border-r border-gray-200 dark:border-slate-800 flex flex-col p-6 items-center justify-center relative`}>
                  {isAudio ? (
                      <div className="w-full space-y-8">
-                         {/* Visualization Placeholder */}
-                         <div className="aspect-video bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 shadow-inner flex items-center justify-center relative overflow-hidden group">
-                             <div className="absolute inset-0 bg-gradient-to-br from-blue-50/50 dark:from-primary-900/10 to-transparent"></div>
-                             {isPlaying && (
-                                 <div className="flex gap-1 items-end h-12">
-                                     {[...Array(8)].map((_, i) => (
-                                         <div key={i} className="w-2 bg-blue-500 dark:bg-primary-500 animate-pulse" style={{ height: `${Math.random() * 100}%`, animationDuration: `${0.5 + Math.random()}s` }}></div>
+                         {/* Waveform with speaker regions and citation markers */}
+                         {file && (
+                             <div className="space-y-2">
+                                 <WaveformTimeline
+                                     file={file}
+                                     duration={duration}
+                                     currentTime={currentTime}
+                                     regions={timelineRegions}
+                                     markers={citationMarkers}
+                                     loop={playback.loopEnabled ? playback.loop : null}
+                                     onSeek={seekTo}
+                                 />
+                                 <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500 dark:text-slate-400">
+                                     {processedData && Object.entries(speakerColors).map(([label, color]) => (
+                                         <span key={label} className="flex items-center gap-1">
+                                             <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }}></span>
+                                             {getSpeakerDisplayName(processedData, label, people)}
+                                         </span>
                                      ))}
+                                     {citationMarkers.length > 0 && (
+                                         <>
+                                             <span className="flex items-center gap-1"><span className="w-2 h-2 rotate-45 bg-amber-400"></span> Citação em relatório</span>
+                                             <span className="flex items-center gap-1"><span className="w-2 h-2 rotate-45 bg-sky-400"></span> Citação no chat</span>
+                                         </>
+                                     )}
                                  </div>
-                             )}
-                             {!isPlaying && <Play size={48} className="text-gray-300 dark:text-slate-700" />}
-                         </div>
+                             </div>
+                         )}
 
                          {/* Controls */}
                          <div className="space-y-4">
@@ -300,29 +505,23 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
                                  <span>{formatTime(currentTime)}</span>
                                  <span>{formatTime(duration)}</span>
                              </div>
-                             <input 
-                                type="range" 
-                                min="0" 
-                                max={duration || 100} 
-                                value={currentTime}
-                                onChange={(e) => {
-                                    if(audioRef.current) audioRef.current.currentTime = parseFloat(e.target.value);
-                                }}
-                                className="w-full h-1.5 bg-gray-200 dark:bg-slate-700 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-600 dark:[&::-webkit-slider-thumb]:bg-primary-500 [&::-webkit-slider-thumb]:rounded-full"
-                             />
-                             
                              <div className="flex items-center justify-center gap-6">
-                                 <button onClick={() => skip(-10)} className="text-gray-400 dark:text-slate-400 hover:text-gray-700 dark:hover:text-white p-2"><Rewind size={20} /></button>
+                                 <button onClick={() => playback.skip(-10)} className="text-gray-400 dark:text-slate-400 hover:text-gray-700 dark:hover:text-white p-2"><Rewind size={20} /></button>
                                  <button 
-                                    onClick={togglePlay}
+                                    onClick={playback.togglePlay}
                                     className="w-14 h-14 bg-blue-600 dark:bg-primary-600 hover:bg-blue-500 dark:hover:bg-primary-500 rounded-full flex items-center justify-center text-white shadow-lg shadow-blue-500/30 dark:shadow-primary-900/30 transition-transform active:scale-95"
                                  >
                                      {isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" className="ml-1" />}
                                  </button>
-                                 <button onClick={() => skip(10)} className="text-gray-400 dark:text-slate-400 hover:text-gray-700 dark:hover:text-white p-2"><FastForward size={20} /></button>
+                                 <button onClick={() => playback.skip(10)} className="text-gray-400 dark:text-slate-400 hover:text-gray-700 dark:hover:text-white p-2"><FastForward size={20} /></button>
                              </div>
+                             <PlaybackToolbar controls={playback} />
                          </div>
                      </div>
+                 ) : canPreview ? (
+                     <div className="w-full flex-1 min-h-0">
+                         <DocumentPreview file={file} fileUrl={fileUrl!} focus={previewFocus} />
+                     </div>
                  ) : (
                      <div className="text-center space-y-4 w-full h-full flex flex-col items-center justify-center">
                          {fileUrl ? (
@@ -399,7 +598,18 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
                                                     </div>
                                                     <span className="text-xs text-gray-700 dark:text-slate-300 font-bold truncate" title={speaker}>{speaker}</span>
                                                 </div>
-                                                <button onClick={() => { setEditingSpeaker(speaker); setNewSpeakerName(speaker); }} className="text-gray-400 hover:text-blue-600 dark:hover:text-primary-400 p-1 transition-colors" title="Renomear Interlocutor"><Edit3 size={14} /></button>
+                                                <div className="flex items-center gap-1 shrink-0">
+                                                    <select
+                                                        value={processedData ? getSpeakerPerson(processedData, speaker, people)?.id || "" : ""}
+                                                        onChange={e => processedData && onTranscriptChange(setSpeakerPerson(processedData, speaker, e.target.value || undefined))}
+                                                        className="max-w-[8rem] text-[11px] p-1 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded text-gray-700 dark:text-slate-300 outline-none"
+                                                        title="Pessoa que fala com esta voz"
+                                                    >
+                                                        <option value="">— Sem pessoa —</option>
+                                                        {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                    </select>
+                                                    <button onClick={() => { setEditingSpeaker(speaker); setNewSpeakerName(speaker); }} className="text-gray-400 hover:text-blue-600 dark:hover:text-primary-400 p-1 transition-colors" title="Renomear Interlocutor"><Edit3 size={14} /></button>
+                                                </div>
                                              </>
                                          )}
                                      </div>
@@ -408,6 +618,38 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
                          </div>
                      )}
                  </div>
+
+                 {/* Corrections Audit Trail */}
+                 {corrections.length > 0 && (
+                     <div className="mt-3 w-full bg-white dark:bg-slate-900 rounded-xl border border-gray-200 dark:border-slate-800 overflow-hidden shadow-sm flex flex-col">
+                         <button
+                            onClick={() => setShowCorrections(!showCorrections)}
+                            className="w-full px-4 py-3 flex items-center justify-between text-xs font-bold text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800 bg-gray-50 dark:bg-slate-900"
+                         >
+                             <span className="flex items-center gap-2"><History size={14} /> Correções ({corrections.length})</span>
+                             {showCorrections ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                         </button>
+                         {showCorrections && (
+                             <div className="p-3 bg-white dark:bg-slate-950 max-h-64 overflow-y-auto space-y-2 border-t border-gray-100 dark:border-slate-800">
+                                 {[...corrections].reverse().map(c => (
+                                     <div key={c.id} className="text-[11px] bg-gray-50 dark:bg-slate-900 p-2 rounded border border-gray-100 dark:border-slate-800 space-y-1">
+                                         <div className="flex items-center justify-between gap-2">
+                                             <span className="font-bold text-gray-700 dark:text-slate-300">{CORRECTION_KIND_LABELS[c.kind]}</span>
+                                             <span className="text-gray-400 dark:text-slate-600">{new Date(c.createdAt).toLocaleString('pt-PT')}</span>
+                                         </div>
+                                         <p className="text-gray-600 dark:text-slate-400">{c.description}</p>
+                                         {c.kind !== 'RENAME_SPEAKER' && (
+                                             <div className="space-y-0.5">
+                                                 {c.before.map(seg => <p key={`b-${seg.id}`} className="text-red-600 dark:text-red-400 line-through decoration-red-300/60">{seg.text}</p>)}
+                                                 {c.after.map(seg => <p key={`a-${seg.id}`} className="text-green-700 dark:text-green-400">{seg.text}</p>)}
+                                             </div>
+                                         )}
+                                     </div>
+                                 ))}
+                             </div>
+                         )}
+                     </div>
+                 )}
              </div>
 
              {/* Right Panel: Transcript / Text */}
@@ -435,26 +677,97 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({
                  <div className="absolute top-12 left-0 right-0 h-4 bg-gradient-to-b from-white dark:from-slate-900 to-transparent z-10 pointer-events-none"></div>
                  
                  <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-8 space-y-4 scroll-smooth">
+                     {editError && !editingSegmentId && (
+                         <div className="text-xs font-bold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-lg p-3">{editError}</div>
+                     )}
                      {processedData ? (
-                         processedData.segments.map((seg, idx) => (
+                         processedData.segments.map((seg, idx) => editingSegmentId === seg.id ? (
+                             <div id={`seg-${idx}`} key={seg.id} className="p-4 rounded-xl border border-blue-300 dark:border-primary-500/60 bg-blue-50/50 dark:bg-primary-900/10 space-y-3">
+                                 <div className="flex gap-3">
+                                     <label className="flex-1 text-[10px] font-bold uppercase text-gray-500 dark:text-slate-500">
+                                         Interlocutor
+                                         <input
+                                            className="mt-1 w-full text-sm font-normal normal-case p-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded text-gray-900 dark:text-white outline-none focus:ring-1 focus:ring-blue-500"
+                                            value={draft.speaker}
+                                            onChange={e => setDraft({ ...draft, speaker: e.target.value })}
+                                            placeholder="Sem interlocutor"
+                                            list="viewer-speaker-labels"
+                                         />
+                                         <datalist id="viewer-speaker-labels">
+                                             {detectedSpeakers.map(label => <option key={label} value={label} />)}
+                                         </datalist>
+                                     </label>
+                                     <label className="w-48 text-[10px] font-bold uppercase text-gray-500 dark:text-slate-500">
+                                         {isAudio ? 'Tempo (início–fim)' : 'Posição'}
+                                         <input
+                                            className="mt-1 w-full text-sm font-mono font-normal p-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded text-gray-900 dark:text-white outline-none focus:ring-1 focus:ring-blue-500"
+                                            value={draft.position}
+                                            onChange={e => setDraft({ ...draft, position: e.target.value })}
+                                         />
+                                     </label>
+                                 </div>
+                                 <textarea
+                                    ref={draftTextRef}
+                                    className="w-full min-h-[6rem] text-base leading-relaxed p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded text-gray-900 dark:text-white outline-none focus:ring-1 focus:ring-blue-500"
+                                    value={draft.text}
+                                    onChange={e => setDraft({ ...draft, text: e.target.value })}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveDraft();
+                                        if (e.key === 'Escape') setEditingSegmentId(null);
+                                    }}
+                                    autoFocus
+                                 />
+                                 {seg.original && (
+                                     <p className="text-xs text-gray-500 dark:text-slate-500 italic">Original (IA) em {formatLocation(seg.original.location)}: {seg.original.text}</p>
+                                 )}
+                                 {editError && <p className="text-xs text-red-600 dark:text-red-400 font-bold">{editError}</p>}
+                                 <div className="flex flex-wrap gap-2">
+                                     <button onClick={saveDraft} className="flex items-center gap-1.5 px-3 py-1.5 bg-green-600 hover:bg-green-500 text-white rounded text-xs font-bold"><Save size={14}/> Guardar</button>
+                                     <button onClick={splitAtCursor} className="flex items-center gap-1.5 px-3 py-1.5 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-300 rounded text-xs font-bold hover:bg-gray-50 dark:hover:bg-slate-700" title="Divide o segmento na posição do cursor"><Scissors size={14}/> Dividir no cursor</button>
+                                     <button onClick={() => { setEditingSegmentId(null); setEditError(null); }} className="flex items-center gap-1.5 px-3 py-1.5 text-gray-500 dark:text-slate-400 rounded text-xs font-bold hover:bg-gray-100 dark:hover:bg-slate-800"><X size={14}/> Cancelar</button>
+                                 </div>
+                             </div>
+                         ) : (
                              <div 
                                 id={`seg-${idx}`}
-                                key={idx} 
-                                onClick={() => isAudio && jumpToSegment(seg.seconds)}
+                                key={seg.id} 
+                                onClick={() => !isEditing && selectSegment(idx)}
                                 className={`p-4 rounded-xl border transition-all duration-300 cursor-pointer group
-                                    ${activeSegmentIndex === idx && isAudio 
+                                    ${activeSegmentIndex === idx 
                                         ? 'bg-blue-50 dark:bg-primary-900/20 border-blue-200 dark:border-primary-500/50 shadow-sm dark:shadow-[0_0_15px_rgba(59,130,246,0.1)] scale-[1.01]' 
                                         : 'bg-transparent border-transparent hover:bg-gray-50 dark:hover:bg-slate-800/50 hover:border-gray-100 dark:hover:border-slate-700'}
                                     ${searchResults.includes(idx) ? 'ring-2 ring-yellow-400/50 dark:ring-yellow-500/30' : ''}
                                 `}
                              >
                                  <div className="flex gap-4">
-                                     <span className={`text-xs font-mono font-bold mt-1 min-w-[3rem] ${activeSegmentIndex === idx ? 'text-blue-600 dark:text-primary-400' : 'text-gray-400 dark:text-slate-600'}`}>
-                                         {seg.timestamp}
+                                     <span className={`text-xs font-mono font-bold mt-1 min-w-[3rem] whitespace-nowrap ${activeSegmentIndex === idx ? 'text-blue-600 dark:text-primary-400' : 'text-gray-400 dark:text-slate-600'}`}>
+                                         {formatLocation(seg.location)}
                                      </span>
-                                     <p className={`text-base leading-relaxed whitespace-pre-wrap ${activeSegmentIndex === idx ? 'text-gray-900 dark:text-white font-medium' : 'text-gray-600 dark:text-slate-300'}`}>
-                                         {renderHighlightedText(seg.text)}
-                                     </p>
+                                     <div className="flex-1">
+                                         <p className={`text-base leading-relaxed whitespace-pre-wrap ${activeSegmentIndex === idx ? 'text-gray-900 dark:text-white font-medium' : 'text-gray-600 dark:text-slate-300'}`}>
+                                             {seg.speaker && (
+                                                 <span className="font-bold text-gray-900 dark:text-white mr-1" title={seg.speaker}>
+                                                     {getSpeakerDisplayName(processedData, seg.speaker, people)}:
+                                                 </span>
+                                             )}
+                                             {isAudio && activeSegmentIndex === idx && segmentWords[idx] && !searchQuery.trim()
+                                                 ? renderTimedWords(segmentWords[idx]!)
+                                                 : renderHighlightedText(seg.text)}
+                                         </p>
+                                         {seg.original && (
+                                             <span className="inline-block mt-1 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400" title={`Original (IA): ${seg.original.text}`}>
+                                                 Corrigido
+                                             </span>
+                                         )}
+                                     </div>
+                                     {isEditing && (
+                                         <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                             <button onClick={(e) => { e.stopPropagation(); startEditing(seg); }} className="p-1.5 text-gray-400 hover:text-blue-600 dark:hover:text-primary-400 rounded hover:bg-gray-100 dark:hover:bg-slate-800" title="Corrigir segmento"><Edit3 size={14}/></button>
+                                             {idx + 1 < processedData.segments.length && (
+                                                 <button onClick={(e) => { e.stopPropagation(); applyChange(content => mergeWithNext(content, seg.id)); }} className="p-1.5 text-gray-400 hover:text-blue-600 dark:hover:text-primary-400 rounded hover:bg-gray-100 dark:hover:bg-slate-800" title="Juntar com o segmento seguinte"><Merge size={14}/></button>
+                                             )}
+                                         </div>
+                                     )}
                                  </div>
                              </div>
                          ))
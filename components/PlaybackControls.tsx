@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AUTO_REWIND_OPTIONS, DEFAULT_PLAYBACK_SETTINGS, LoopRegion, PLAYBACK_ACTION_LABELS, PLAYBACK_RATES, PlaybackAction, PlaybackSettings,
+  findShortcutAction, formatKeyCombo, getPlaybackSettings, resumeTime, savePlaybackSettings, stepPlaybackRate
+} from '../utils/playbackSettings';
+import { formatLocation } from '../utils/evidenceLocation';
+import { Repeat, Keyboard, X } from 'lucide-react';
+
+// Review controls shared by the evidence viewer and the standalone player: speed with pitch
+// preservation, A-B loop, auto-rewind on resume and keyboard shortcuts.
+
+interface PlaybackControlsOptions {
+  isPlaying: boolean;
+  setIsPlaying: (playing: boolean) => void;
+  getSegmentRange?: () => LoopRegion | null; // Segment being spoken, for "repeat segment"
+  onSeek?: (seconds: number) => void;         // Lets the owner sync its display after a jump
+}
+
+export interface PlaybackControls {
+  settings: PlaybackSettings;
+  updateSettings: (patch: Partial<PlaybackSettings>) => void;
+  loop: LoopRegion | null;
+  loopEnabled: boolean;
+  capturingAction: PlaybackAction | null;
+  canMarkSegment: boolean;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  skip: (seconds: number) => void;
+  runAction: (action: PlaybackAction) => void;
+  captureShortcut: (action: PlaybackAction | null) => void;
+  applyToMedia: () => void; // Call once the media is loaded
+}
+
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+export const usePlaybackControls = (
+  audioRef: React.RefObject<HTMLAudioElement | null>,
+  { isPlaying, setIsPlaying, getSegmentRange, onSeek }: PlaybackControlsOptions
+): PlaybackControls => {
+  const [settings, setSettings] = useState<PlaybackSettings>(getPlaybackSettings);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [capturingAction, setCapturingAction] = useState<PlaybackAction | null>(null);
+  const pausedAtRef = useRef<number | null>(null); // Position of the last pause, to detect a plain resume
+
+  const updateSettings = (patch: Partial<PlaybackSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      savePlaybackSettings(next);
+      return next;
+    });
+  };
+
+  const applyToMedia = () => {
+    const audio = audioRef.current as (HTMLAudioElement & { mozPreservesPitch?: boolean; webkitPreservesPitch?: boolean }) | null;
+    if (!audio) return;
+    audio.preservesPitch = settings.preservePitch;
+    audio.mozPreservesPitch = settings.preservePitch;
+    audio.webkitPreservesPitch = settings.preservePitch;
+    audio.defaultPlaybackRate = settings.rate;
+    audio.playbackRate = settings.rate;
+  };
+
+  useEffect(applyToMedia, [settings.rate, settings.preservePitch]);
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const limit = Number.isFinite(audio.duration) ? audio.duration : Infinity;
+    audio.currentTime = Math.max(0, Math.min(limit, seconds));
+    onSeek?.(audio.currentTime);
+  };
+
+  const activeLoop = loopEnabled && loop && loop.end !== undefined ? loop : null;
+
+  const play = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // Only a resume where playback stopped rewinds; after a jump the reviewer chose the position
+    if (pausedAtRef.current !== null && Math.abs(audio.currentTime - pausedAtRef.current) < 0.5) {
+      seek(resumeTime(audio.currentTime, settings.autoRewindSeconds, activeLoop));
+    }
+    pausedAtRef.current = null;
+    audio.play().then(() => setIsPlaying(true)).catch(console.error);
+  };
+
+  const pause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.pause();
+    pausedAtRef.current = audio.currentTime;
+    setIsPlaying(false);
+  };
+
+  const togglePlay = () => (isPlaying ? pause() : play());
+
+  const skip = (seconds: number) => {
+    if (audioRef.current) seek(audioRef.current.currentTime + seconds);
+  };
+
+  // timeupdate is too coarse for a tight loop: check every frame while a loop plays
+  useEffect(() => {
+    if (!isPlaying || !activeLoop) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      const end = activeLoop.end as number;
+      // Only playback running into B loops back; a jump elsewhere leaves the loop alone
+      if (audio && audio.currentTime >= end && audio.currentTime - end < 0.5) seek(activeLoop.start);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, activeLoop?.start, activeLoop?.end]);
+
+  const runAction = (action: PlaybackAction) => {
+    const time = audioRef.current?.currentTime ?? 0;
+    switch (action) {
+      case 'PLAY_PAUSE': togglePlay(); break;
+      case 'BACK': skip(-settings.skipSeconds); break;
+      case 'FORWARD': skip(settings.skipSeconds); break;
+      case 'SLOWER': updateSettings({ rate: stepPlaybackRate(settings.rate, -1) }); break;
+      case 'FASTER': updateSettings({ rate: stepPlaybackRate(settings.rate, 1) }); break;
+      case 'MARK_A':
+        setLoop(prev => ({ start: time, end: prev?.end !== undefined && prev.end > time ? prev.end : undefined }));
+        break;
+      case 'MARK_B': {
+        const start = loop?.start ?? 0;
+        if (time <= start) {
+          setLoop({ start: time, end: start > time ? start : undefined });
+        } else {
+          setLoop({ start, end: time });
+          setLoopEnabled(true);
+        }
+        break;
+      }
+      case 'MARK_SEGMENT': {
+        const range = getSegmentRange?.();
+        if (range && range.end !== undefined) {
+          setLoop(range);
+          setLoopEnabled(true);
+          seek(range.start);
+        }
+        break;
+      }
+      case 'TOGGLE_LOOP': if (loop?.end !== undefined) setLoopEnabled(prev => !prev); break;
+      case 'CLEAR_LOOP': setLoop(null); setLoopEnabled(false); break;
+    }
+  };
+
+  const captureShortcut = (action: PlaybackAction | null) => setCapturingAction(action);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (capturingAction) {
+        e.preventDefault();
+        if (e.key === 'Escape') { setCapturingAction(null); return; }
+        const combo = formatKeyCombo(e);
+        if (!combo) return;
+        // A combination drives one action only: it is taken from whichever action had it
+        const shortcuts = { ...settings.shortcuts };
+        (Object.keys(shortcuts) as PlaybackAction[]).forEach(a => { if (shortcuts[a] === combo) shortcuts[a] = ''; });
+        shortcuts[capturingAction] = combo;
+        updateSettings({ shortcuts });
+        setCapturingAction(null);
+        return;
+      }
+      if (isTypingTarget(e.target)) return;
+      const combo = formatKeyCombo(e);
+      const action = combo ? findShortcutAction(settings, combo) : undefined;
+      if (!action) return;
+      e.preventDefault();
+      runAction(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return {
+    settings, updateSettings, loop, loopEnabled, capturingAction, canMarkSegment: !!getSegmentRange,
+    play, pause, togglePlay, skip, runAction, captureShortcut, applyToMedia
+  };
+};
+
+interface PlaybackToolbarProps {
+  controls: PlaybackControls;
+  tone?: 'auto' | 'dark'; // 'dark' for the always-dark standalone player
+}
+
+const TONES = {
+  auto: {
+    text: 'text-gray-500 dark:text-slate-400',
+    button: 'bg-gray-100 dark:bg-slate-800 hover:bg-gray-200 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300',
+    active: 'bg-blue-600 dark:bg-primary-600 text-white',
+    panel: 'bg-white dark:bg-slate-900 border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-300',
+  },
+  dark: {
+    text: 'text-slate-400',
+    button: 'bg-slate-800 hover:bg-slate-700 text-slate-300',
+    active: 'bg-primary-600 text-white',
+    panel: 'bg-slate-900 border-slate-700 text-slate-300',
+  },
+};
+
+export const PlaybackToolbar: React.FC<PlaybackToolbarProps> = ({ controls, tone = 'auto' }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const { settings, updateSettings, loop, loopEnabled, capturingAction } = controls;
+  const classes = TONES[tone];
+  const shortcutHint = (action: PlaybackAction) => settings.shortcuts[action] ? ` (${settings.shortcuts[action]})` : '';
+
+  return (
+    <div className={`relative flex flex-wrap items-center justify-center gap-2 text-xs ${classes.text}`}>
+      <select
+        value={settings.rate}
+        onChange={(e) => updateSettings({ rate: parseFloat(e.target.value) })}
+        className={`rounded-md px-1.5 py-1 font-mono outline-none ${classes.button}`}
+        title={`Velocidade${shortcutHint('SLOWER')}${shortcutHint('FASTER')}`}
+      >
+        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+      </select>
+
+      <button onClick={() => controls.runAction('MARK_A')} className={`px-2 py-1 rounded-md font-bold ${loop ? classes.active : classes.button}`} title={`${PLAYBACK_ACTION_LABELS.MARK_A}${shortcutHint('MARK_A')}`}>A</button>
+      <button onClick={() => controls.runAction('MARK_B')} className={`px-2 py-1 rounded-md font-bold ${loop?.end !== undefined ? classes.active : classes.button}`} title={`${PLAYBACK_ACTION_LABELS.MARK_B}${shortcutHint('MARK_B')}`}>B</button>
+      <button
+        onClick={() => controls.runAction('TOGGLE_LOOP')}
+        disabled={loop?.end === undefined}
+        className={`p-1.5 rounded-md disabled:opacity-40 ${loopEnabled ? classes.active : classes.button}`}
+        title={`${PLAYBACK_ACTION_LABELS.TOGGLE_LOOP}${shortcutHint('TOGGLE_LOOP')}`}
+      >
+        <Repeat size={14} />
+      </button>
+      {loop && (
+        <span className="flex items-center gap-1 font-mono">
+          {formatLocation({ kind: 'AUDIO_TIME', start: loop.start })}–{loop.end !== undefined ? formatLocation({ kind: 'AUDIO_TIME', start: loop.end }) : '?'}
+          <button onClick={() => controls.runAction('CLEAR_LOOP')} className="hover:text-red-500" title={`${PLAYBACK_ACTION_LABELS.CLEAR_LOOP}${shortcutHint('CLEAR_LOOP')}`}><X size={12} /></button>
+        </span>
+      )}
+
+      <button onClick={() => setShowSettings(prev => !prev)} className={`p-1.5 rounded-md ${showSettings ? classes.active : classes.button}`} title="Reprodução e atalhos de teclado">
+        <Keyboard size={14} />
+      </button>
+
+      {showSettings && (
+        <div className={`absolute bottom-full mb-2 z-20 w-80 p-4 rounded-xl border shadow-xl space-y-3 text-left ${classes.panel}`}>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.preservePitch} onChange={(e) => updateSettings({ preservePitch: e.target.checked })} />
+              Manter o tom da voz
+            </label>
+            <label className="flex items-center gap-1">
+              Recuar ao retomar
+              <select value={settings.autoRewindSeconds} onChange={(e) => updateSettings({ autoRewindSeconds: parseInt(e.target.value) })} className={`rounded px-1 py-0.5 outline-none ${classes.button}`}>
+                {AUTO_REWIND_OPTIONS.map(s => <option key={s} value={s}>{s === 0 ? 'Não' : `${s}s`}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center justify-between">
+            Passo de recuar / avançar
+            <select value={settings.skipSeconds} onChange={(e) => updateSettings({ skipSeconds: parseInt(e.target.value) })} className={`rounded px-1 py-0.5 outline-none ${classes.button}`}>
+              {[1, 2, 3, 5, 10].map(s => <option key={s} value={s}>{s}s</option>)}
+            </select>
+          </label>
+          <div className="space-y-1">
+            <div className="font-bold uppercase text-[10px] opacity-70">Atalhos de teclado</div>
+            {(Object.keys(PLAYBACK_ACTION_LABELS) as PlaybackAction[])
+              .filter(action => action !== 'MARK_SEGMENT' || controls.canMarkSegment)
+              .map(action => (
+                <div key={action} className="flex items-center justify-between gap-2">
+                  <span>{PLAYBACK_ACTION_LABELS[action]}</span>
+                  <button onClick={() => controls.captureShortcut(capturingAction === action ? null : action)} className={`min-w-[90px] px-2 py-0.5 rounded font-mono ${capturingAction === action ? classes.active : classes.button}`}>
+                    {capturingAction === action ? 'Prima a tecla…' : settings.shortcuts[action] || '—'}
+                  </button>
+                </div>
+              ))}
+          </div>
+          <button onClick={() => updateSettings({ shortcuts: DEFAULT_PLAYBACK_SETTINGS.shortcuts })} className="text-[10px] underline opacity-70 hover:opacity-100">Repor atalhos predefinidos</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EvidenceFile } from '../types';
+import { getWaveformColumns, getWaveformPeaks, WaveformPeaks } from '../utils/waveform';
+import { CitationMarker } from '../utils/citations';
+import { formatLocation, getAudioStart } from '../utils/evidenceLocation';
+import { LoopRegion } from '../utils/playbackSettings';
+import { ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+
+export interface TimelineRegion {
+  start: number;
+  end: number;
+  color: string; // CSS colour of the speaker
+  label: string;
+}
+
+interface WaveformTimelineProps {
+  file: EvidenceFile;
+  duration: number;
+  currentTime: number;
+  regions: TimelineRegion[];   // Speaker segments
+  markers: CitationMarker[];   // Citations pointing at this recording
+  loop?: LoopRegion | null;    // Active A-B loop
+  onSeek: (seconds: number) => void;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64];
+const CANVAS_HEIGHT = 96;
+const REGION_BAND_HEIGHT = 10;
+const WAVE_COLOR = '#64748b';
+const PLAYHEAD_COLOR = '#ef4444';
+const LOOP_COLOR = '#facc15';
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ file, duration, currentTime, regions, markers, loop, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [zoomIdx, setZoomIdx] = useState(0);
+  const [viewStart, setViewStart] = useState(0);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  // The media element may not know the length yet; the decoded audio always does
+  const total = duration || peaks?.duration || 0;
+  const zoom = ZOOM_LEVELS[zoomIdx];
+  const viewLength = total / zoom;
+  const viewEnd = viewStart + viewLength;
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    setDecodeError(null);
+    setIsDecoding(true);
+    getWaveformPeaks(file)
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(err => { if (!cancelled) setDecodeError(err.message); })
+      .finally(() => { if (!cancelled) setIsDecoding(false); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const clampStart = (start: number, length: number = viewLength) => Math.max(0, Math.min(total - length, start));
+
+  // Zoomed in, the view follows the playhead once it leaves the visible window
+  useEffect(() => {
+    if (zoom === 1 || total === 0) return;
+    if (currentTime < viewStart || currentTime > viewEnd) setViewStart(clampStart(currentTime - viewLength * 0.1));
+  }, [currentTime, zoom, total]);
+
+  const changeZoom = (delta: number) => {
+    const next = Math.max(0, Math.min(ZOOM_LEVELS.length - 1, zoomIdx + delta));
+    const nextLength = total / ZOOM_LEVELS[next];
+    setZoomIdx(next);
+    setViewStart(next === 0 ? 0 : clampStart(currentTime - nextLength / 2, nextLength));
+  };
+
+  const xOf = (seconds: number) => ((seconds - viewStart) / viewLength) * width;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+    if (total === 0) return;
+
+    const waveHeight = CANVAS_HEIGHT - REGION_BAND_HEIGHT - 2;
+    regions.forEach(region => {
+      if (region.end < viewStart || region.start > viewEnd) return;
+      const x = xOf(region.start);
+      const w = Math.max(1, xOf(region.end) - x);
+      ctx.fillStyle = region.color;
+      ctx.globalAlpha = 0.12;
+      ctx.fillRect(x, 0, w, waveHeight);
+      ctx.globalAlpha = 0.9;
+      ctx.fillRect(x, CANVAS_HEIGHT - REGION_BAND_HEIGHT, w, REGION_BAND_HEIGHT);
+    });
+    if (loop && loop.end !== undefined) {
+      ctx.fillStyle = LOOP_COLOR;
+      ctx.globalAlpha = 0.25;
+      ctx.fillRect(xOf(loop.start), 0, Math.max(1, xOf(loop.end) - xOf(loop.start)), CANVAS_HEIGHT);
+    }
+    ctx.globalAlpha = 1;
+
+    const middle = waveHeight / 2;
+    ctx.fillStyle = WAVE_COLOR;
+    if (peaks) {
+      getWaveformColumns(peaks, viewStart, viewEnd, width).forEach((column, x) => {
+        const top = middle - column.max * middle;
+        const bottom = middle - column.min * middle;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      });
+    } else {
+      ctx.fillRect(0, middle, width, 1);
+    }
+
+    if (currentTime >= viewStart && currentTime <= viewEnd) {
+      ctx.fillStyle = PLAYHEAD_COLOR;
+      ctx.fillRect(Math.round(xOf(currentTime)), 0, 2, CANVAS_HEIGHT);
+    }
+  }, [peaks, regions, width, viewStart, zoom, total, currentTime, loop?.start, loop?.end]);
+
+  const timeAtPointer = (e: React.MouseEvent<HTMLCanvasElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(total, viewStart + ((e.clientX - rect.left) / rect.width) * viewLength));
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (total > 0) onSeek(timeAtPointer(e));
+  };
+
+  const hoveredRegion = hoverTime !== null ? regions.find(r => hoverTime >= r.start && hoverTime < r.end) : undefined;
+
+  // Scrolling pans the zoomed view
+  const handleWheel = (e: React.WheelEvent) => {
+    if (zoom === 1) return;
+    const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+    setViewStart(clampStart(viewStart + (delta / Math.max(1, width)) * viewLength));
+  };
+
+  const visibleMarkers = markers
+    .map(marker => ({ marker, seconds: getAudioStart(marker.location) as number }))
+    .filter(({ seconds }) => seconds >= viewStart && seconds <= viewEnd);
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-gray-500 dark:text-slate-400">
+        <span className="flex items-center gap-1">
+          {isDecoding && <><Loader2 size={12} className="animate-spin" /> A descodificar áudio...</>}
+          {decodeError && <span title={decodeError}>Forma de onda indisponível</span>}
+          {!isDecoding && !decodeError && hoverTime !== null && `${formatLocation({ kind: 'AUDIO_TIME', start: hoverTime })}${hoveredRegion?.label ? ` · ${hoveredRegion.label}` : ''}`}
+          {!isDecoding && !decodeError && hoverTime === null && zoom > 1 && `${formatLocation({ kind: 'AUDIO_TIME', start: viewStart })} – ${formatLocation({ kind: 'AUDIO_TIME', start: viewEnd })}`}
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => changeZoom(-1)} disabled={zoomIdx === 0} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-slate-800 disabled:opacity-30" title="Afastar"><ZoomOut size={14} /></button>
+          <span className="font-mono w-8 text-center">{zoom}×</span>
+          <button onClick={() => changeZoom(1)} disabled={zoomIdx === ZOOM_LEVELS.length - 1 || total === 0} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-slate-800 disabled:opacity-30" title="Aproximar"><ZoomIn size={14} /></button>
+        </div>
+      </div>
+      <div ref={containerRef} className="relative w-full bg-white dark:bg-slate-900 rounded-xl border border-gray-200 dark:border-slate-800 overflow-hidden" style={{ height: CANVAS_HEIGHT }} onWheel={handleWheel}>
+        <canvas ref={canvasRef} onClick={handleClick} onMouseMove={(e) => total > 0 && setHoverTime(timeAtPointer(e))} onMouseLeave={() => setHoverTime(null)} className="absolute inset-0 cursor-pointer" style={{ width, height: CANVAS_HEIGHT }} />
+        {visibleMarkers.map(({ marker, seconds }, idx) => (
+          <button
+            key={idx}
+            onClick={() => onSeek(seconds)}
+            title={`${marker.label} (${formatLocation(marker.location)})${marker.resolved ? '' : ' — citação não verificada'}`}
+            className={`absolute top-0 -translate-x-1/2 w-2.5 h-2.5 rotate-45 mt-0.5 border ${marker.origin === 'REPORT' ? 'bg-amber-400 border-amber-600' : 'bg-sky-400 border-sky-600'} ${marker.resolved ? '' : 'opacity-40'}`}
+            style={{ left: xOf(seconds) }}
+          />
+        ))}
+      </div>
+      {zoom > 1 && total > 0 && (
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, total - viewLength)}
+          step={viewLength / 100}
+          value={viewStart}
+          onChange={(e) => setViewStart(clampStart(parseFloat(e.target.value)))}
+          className="w-full h-1 accent-gray-400"
+          title="Deslocar a vista"
+        />
+      )}
+    </div>
+  );
+};
+
+export default WaveformTimeline;
@@ -0,0 +1,38 @@
+/**
+ * Canned model output used by the offline mock provider (services/mockProvider.ts).
+ *
+ * Texts are written exactly as the real provider returns them, so they run through the same
+ * parsing pipeline. A file whose name (without extension, case-insensitive) matches a key in
+ * MOCK_TRANSCRIPTS_BY_NAME gets that text; any other file gets the default for its type.
+ */
+
+export const MOCK_AUDIO_TRANSCRIPT = `[00:00] **Juiz:** Bom dia. Vamos dar início à inquirição da testemunha. Jura dizer a verdade?
+[00:06] **Voz 1:** Juro, senhor Juiz.
+[00:09] **Juiz:** Diga-nos onde se encontrava na noite de 12 de março.
+[00:14] **Voz 1:** Estava no café Central, na rua Direita, com o meu cunhado. Chegámos por volta das nove da noite.
+[00:24] **Advogado:** E viu o arguido nesse café?
+[00:27] **Voz 1:** Vi. Ele entrou pouco depois das dez e sentou-se ao balcão.
+[00:35] **Advogado:** Reparou se ele vinha acompanhado?
+[00:38] **Voz 1:** Vinha sozinho. Pediu uma cerveja e falou com o dono do café.
+[00:47] **Juiz:** A que horas saiu o arguido?
+[00:50] **Voz 1:** Não me recordo bem. Talvez às onze, onze e pouco.
+[00:58] **Advogado:** Viu o arguido discutir com alguém?
+[01:02] **Voz 1:** Não, não vi nenhuma discussão. Estava tudo calmo.
+[01:09] **Advogado:** O veículo do arguido estava estacionado à porta?
+[01:13] **Voz 1:** Estava uma carrinha branca à porta, mas não sei se era dele.
+[01:21] **Juiz:** Mais alguma pergunta? Não havendo, a testemunha está dispensada.`;
+
+export const MOCK_DOCUMENT_TRANSCRIPT = `[Pág 1] AUTO DE INQUIRIÇÃO. Aos catorze dias do mês de março compareceu nestes serviços a testemunha, que declarou o seguinte.
+[Pág 1] Que na noite de 12 de março se encontrava no café Central, na rua Direita, acompanhado do seu cunhado, onde chegou cerca das nove horas da noite.
+[Pág 1] Que viu o arguido entrar no café cerca das dez horas, sozinho, tendo-se sentado ao balcão.
+[Pág 2] Que o arguido saiu do café por volta da meia-noite, em passo apressado.
+[Pág 2] Que ouviu o arguido discutir em voz alta com o dono do café, por causa de uma dívida.
+[Pág 2] Que à porta do café estava estacionada a carrinha branca do arguido, que conhece bem.
+[Pág 3] E mais não disse. Lido e achado conforme, vai assinar.`;
+
+export const MOCK_IMAGE_TRANSCRIPT = `[Pág 1] Fotografia da fachada do café Central, rua Direita. Visível uma carrinha branca estacionada junto à porta.`;
+
+export const MOCK_TRANSCRIPTS_BY_NAME: Record<string, string> = {
+  "depoimento": MOCK_AUDIO_TRANSCRIPT,
+  "auto de inquiricao": MOCK_DOCUMENT_TRANSCRIPT,
+};
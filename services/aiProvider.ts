@@ -0,0 +1,131 @@
+import { AIProvider, AIProviderId, EvidenceFile, PageExtraction, ProcessedContent, ProcessingOptions, TranscriptSegment } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { buildProcessedContent } from "./responseParser";
+import { decodeAudioToMono } from "../utils/audioUtils";
+import { alignTranscriptWords, DecodedAudio } from "../utils/wordTiming";
+import { extractPdfTextLayer, loadPdfDocument, renderPdfPageImage } from "../utils/pdfDocument";
+import { createSegmentId } from "../utils/citations";
+import { pageParagraph } from "../utils/evidenceLocation";
+
+const DEFAULT_PROVIDER_KEY = 'veritas_default_provider';
+const ALIGNMENT_SAMPLE_RATE = 8000; // Enough to tell speech from silence, at half the memory of transcription chunks
+
+export interface ProviderInfo {
+    id: AIProviderId;
+    label: string;
+    description: string;
+    requiresApiKey: boolean;
+    supportsEmbeddings: boolean;
+}
+
+export const AI_PROVIDERS: ProviderInfo[] = [
+    { id: 'gemini', label: 'Google Gemini', description: 'Transcrição e análise na nuvem (requer chave API).', requiresApiKey: true, supportsEmbeddings: true },
+    { id: 'mock', label: 'Offline (Demonstração)', description: 'Transcrições de exemplo e análise local por palavras. Não envia dados para a internet.', requiresApiKey: false, supportsEmbeddings: false },
+];
+
+export const getProviderInfo = (id: AIProviderId): ProviderInfo => AI_PROVIDERS.find(p => p.id === id) || AI_PROVIDERS[0];
+
+/**
+ * Provider used for new projects (the last one the user picked).
+ */
+export const getDefaultProviderId = (): AIProviderId => {
+    const stored = localStorage.getItem(DEFAULT_PROVIDER_KEY);
+    return AI_PROVIDERS.some(p => p.id === stored) ? stored as AIProviderId : 'gemini';
+};
+
+export const setDefaultProviderId = (id: AIProviderId) => localStorage.setItem(DEFAULT_PROVIDER_KEY, id);
+
+export const createProvider = (id: AIProviderId, apiKey: string): AIProvider => {
+    switch (id) {
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        default: return createGeminiProvider(apiKey);
+    }
+};
+
+/**
+ * Local alignment pass for a transcribed recording: segment ends and word timings, measured on
+ * the decoded audio. When the browser cannot decode the file they are estimated from speech rate.
+ */
+const withWordTimings = async (evidenceFile: EvidenceFile, content: ProcessedContent): Promise<ProcessedContent> => {
+    let audio: DecodedAudio | undefined;
+    let duration = evidenceFile.duration;
+    if (evidenceFile.file) {
+        try {
+            const decoded = await decodeAudioToMono(evidenceFile.file, ALIGNMENT_SAMPLE_RATE);
+            audio = decoded;
+            duration = decoded.duration;
+        } catch (err) {
+            console.warn(`Alinhamento de palavras estimado para ${evidenceFile.name}:`, err);
+        }
+    }
+    return { ...content, segments: alignTranscriptWords(content.segments, duration, audio) };
+};
+
+/**
+ * Attaches a transcript made elsewhere (an imported file) to an evidence file. Recordings get the
+ * same alignment pass as a transcription, so the import plays and highlights like one.
+ */
+export const attachImportedTranscript = async (evidenceFile: EvidenceFile, segments: TranscriptSegment[]): Promise<ProcessedContent> => {
+    const content = buildProcessedContent(evidenceFile, segments);
+    if (evidenceFile.type !== 'AUDIO') return content;
+    if (!segments.some(s => s.location.kind === 'AUDIO_TIME')) {
+        throw new Error("A transcrição importada não tem tempos, pelo que não pode ser associada a uma gravação.");
+    }
+    return withWordTimings(evidenceFile, content);
+};
+
+/**
+ * PDF text read locally from its text layer, page by page. Only pages without one (scans) are
+ * rendered to images and sent to the provider for OCR, so born-digital documents keep their exact
+ * wording and cost no quota. PDFs pdf.js cannot open go to the provider whole, as before.
+ */
+const extractPdf = async (provider: AIProvider, evidenceFile: EvidenceFile, options: ProcessingOptions = {}): Promise<ProcessedContent> => {
+    if (!evidenceFile.file) return provider.extract(evidenceFile, options);
+    let doc;
+    try {
+        doc = await loadPdfDocument(evidenceFile.file);
+    } catch (err) {
+        console.warn(`Leitura local de ${evidenceFile.name} falhou; a extrair com a IA:`, err);
+        return provider.extract(evidenceFile, options);
+    }
+
+    try {
+        const pages = await extractPdfTextLayer(doc);
+        const scannedTotal = pages.filter(p => !p.hasTextLayer).length;
+        const segments: TranscriptSegment[] = [];
+        const pageMethods: PageExtraction[] = [];
+        let scannedDone = 0;
+        if (scannedTotal > 0) options.onProgress?.({ completedChunks: 0, totalChunks: scannedTotal });
+
+        for (const page of pages) {
+            if (page.hasTextLayer) {
+                page.paragraphs.forEach((text, idx) => segments.push({ id: createSegmentId(), timestamp: `Pág ${page.page}`, location: pageParagraph(page.page, idx + 1), text }));
+                pageMethods.push({ page: page.page, method: 'TEXT_LAYER' });
+                continue;
+            }
+            if (options.shouldAbort?.()) throw new Error("Processamento interrompido pelo utilizador.");
+            const imageName = `${evidenceFile.name.replace(/\.[^.]+$/, '')}_pag${page.page}.jpg`;
+            const image = new File([await renderPdfPageImage(doc, page.page)], imageName, { type: 'image/jpeg' });
+            const ocr = await provider.extract({ ...evidenceFile, name: imageName, type: 'IMAGE', file: image }, { shouldAbort: options.shouldAbort });
+            // Whatever page markers the model wrote, this is one page of the PDF
+            ocr.segments.forEach((seg, idx) => segments.push({ ...seg, timestamp: `Pág ${page.page}`, location: pageParagraph(page.page, idx + 1) }));
+            pageMethods.push({ page: page.page, method: 'AI_OCR' });
+            options.onProgress?.({ completedChunks: ++scannedDone, totalChunks: scannedTotal });
+        }
+        return { ...buildProcessedContent(evidenceFile, segments), pageMethods };
+    } finally {
+        doc.destroy();
+    }
+};
+
+/**
+ * Routes a file to transcription (audio, followed by word alignment) or text extraction (documents
+ * and images; PDFs are read locally first).
+ */
+export const processEvidenceFile = async (provider: AIProvider, evidenceFile: EvidenceFile, options?: ProcessingOptions): Promise<ProcessedContent> => {
+    if (evidenceFile.type === 'PDF') return extractPdf(provider, evidenceFile, options);
+    if (evidenceFile.type !== 'AUDIO') return provider.extract(evidenceFile, options);
+    return withWordTimings(evidenceFile, await provider.transcribe(evidenceFile, options));
+};
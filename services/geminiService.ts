@@ -1,10 +1,35 @@
-import { GoogleGenAI } from "@google/genai";
-import { EvidenceFile, EvidenceType, Fact, FactAnalysis, FactStatus, AnalysisReport, ChatMessage, ProcessedContent, Citation } from "../types";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProvider, EvidenceFile, Fact, FactStatus, AnalysisReport, ChatMessage, ContradictionReport, Person, StatementComparisonReport, ProcessedContent, ProcessingOptions, RetrievalSettings, TranscriptSegment } from "../types";
+import { decodeAudioToMono, encodeWav, sliceSamples } from "../utils/audioUtils";
+import { planAudioChunks, stitchChunkSegments, formatTimestamp } from "../utils/transcriptStitching";
+import { retrieveContext, formatRetrievedFile, EmbedFn, RetrievedContext } from "../utils/retrieval";
+import { audioTime } from "../utils/evidenceLocation";
+import { anchorChatCitations, createSegmentId, stripCitationAnchors } from "../utils/citations";
+import { cleanRepetitiveLoops, sanitizeTranscript, buildProcessedContent, parseStructuredAnalysis, parseContradictionAnalysis, parseStatementComparison } from "./responseParser";
+
+export const GEMINI_MODEL = "gemini-2.5-flash";
+const EMBEDDING_MODEL = "text-embedding-004";
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Segment texts rarely change between questions: embed each one only once per page load
+const embeddingCache = new Map<string, number[]>();
+
+// Long recordings are decoded locally and transcribed in overlapping chunks:
+// a single inline request is limited to ~20MB and long answers come back truncated.
+const CHUNKING_MIN_DURATION_SECONDS = 15 * 60;
+const CHUNKING_MIN_SIZE_BYTES = 15 * 1024 * 1024;
+const CHUNK_SECONDS = 5 * 60;        // 16kHz mono WAV: ~9.6MB per chunk
+const CHUNK_OVERLAP_SECONDS = 15;
+const CHUNK_SAMPLE_RATE = 16000;
+const CHUNK_MAX_ATTEMPTS = 3;
+
+// Completed chunks per file: a file stopped mid-way (quota, user stop) resumes where it left off
+const completedChunkCache = new Map<string, Map<number, TranscriptSegment[]>>();
 
 /**
  * Converts a File object to a Base64 string for the API.
  */
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+const fileToGenerativePart = async (file: Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -22,110 +47,252 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
   });
 };
 
-/**
- * Cleans repetitive word loops (Stuttering Hallucinations).
- */
-export const cleanRepetitiveLoops = (text: string): string => {
-    if (!text) return "";
-    const loopRegex = /\b(\w+)(?:[\s,.]+\1\b){3,}/gi;
-    let cleaned = text.replace(loopRegex, '$1');
-    const phraseLoopRegex = /(.{5,50}?)(?:[\s,.]+\1){3,}/gi;
-    cleaned = cleaned.replace(phraseLoopRegex, '$1');
-    return cleaned;
+const withRetry = async <T>(fn: () => Promise<T>, onRetry?: (attempt: number) => void): Promise<T> => {
+    let lastError: any;
+    for (let attempt = 1; attempt <= CHUNK_MAX_ATTEMPTS; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            lastError = err;
+            if (attempt < CHUNK_MAX_ATTEMPTS) {
+                onRetry?.(attempt);
+                await new Promise(resolve => setTimeout(resolve, 2000 * attempt * attempt));
+            }
+        }
+    }
+    throw lastError;
+};
+
+const generateTranscript = async (
+    ai: GoogleGenAI,
+    model: string,
+    filePart: { inlineData: { data: string; mimeType: string } },
+    systemInstruction: string,
+    userPrompt: string
+): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: {
+        parts: [filePart, { text: userPrompt }]
+      },
+      config: {
+        systemInstruction: systemInstruction,
+        temperature: 0.2, 
+      }
+    });
+
+    const rawText = response.text || "";
+    if (!rawText.trim()) throw new Error("A IA devolveu uma resposta vazia.");
+
+    // Cleanup
+    return rawText.replace(/^```[a-z]*\n/gm, '').replace(/^```/gm, '');
+};
+
+const needsChunking = (evidenceFile: EvidenceFile): boolean => {
+    if (evidenceFile.type !== 'AUDIO' || !evidenceFile.file) return false;
+    if (evidenceFile.duration !== undefined) return evidenceFile.duration > CHUNKING_MIN_DURATION_SECONDS;
+    return evidenceFile.file.size > CHUNKING_MIN_SIZE_BYTES;
 };
 
 /**
- * Sanitizes the raw transcription text to remove AI hallucinations, loops, and time-travel artifacts.
+ * Transcribes a long recording chunk by chunk. Each chunk is retried on its own;
+ * completed chunks are kept so a later run only redoes what is missing.
  */
-export const sanitizeTranscript = (rawText: string): { timestamp: string; seconds: number; text: string }[] => {
-    const segments: { timestamp: string; seconds: number; text: string }[] = [];
-    
-    // STRICT FORMATTING: Ensure NEWLINE before every timestamp to force "one speech per line"
-    let formattedText = rawText
-        .replace(/([^\n])\s*(\[\d{1,2}:\d{2}(?::\d{2})?\])/g, '$1\n$2')
-        .replace(/([^\n])\s+(\d{1,2}:\d{2}:\d{2})/g, '$1\n$2')
-        .replace(/([^\n])\s*(\[P[áa]g)/g, '$1\n$2')
-        .replace(/(\n\s*){2,}/g, '\n'); 
-    
-    const lines = formattedText.split('\n');
-    
-    const timestampRegex = /(?:^|[\s\*\-\.\(\[])(?:(?:(\d{1,2}):)?(\d{1,2}):(\d{2})|P[áa]g\.?\s*(\d+)|Page\s*(\d+))(?:\]|\)|:)?[\*\-\)]*\s+(.*)/i;
-    
-    let lastSeconds = -1;
-    let lastText = "";
-
-    for (const line of lines) {
-        if (line.trim().length < 2) continue;
-
-        const match = line.match(timestampRegex);
-        if (match) {
-            // Time parts
-            const hours = match[1] ? parseInt(match[1]) : 0;
-            const minutes = match[2] ? parseInt(match[2]) : null;
-            const secondsPart = match[3] ? parseInt(match[3]) : null;
-            
-            // Page parts
-            const pageNum = match[4] || match[5] ? parseInt(match[4] || match[5]) : null;
-
-            let metricValue = 0;
-            let displayTimestamp = "";
-
-            if (minutes !== null && secondsPart !== null) {
-                metricValue = (hours * 3600) + (minutes * 60) + secondsPart;
-                if (hours > 0) {
-                     displayTimestamp = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secondsPart.toString().padStart(2, '0')}`;
-                } else {
-                     displayTimestamp = `${minutes.toString().padStart(2, '0')}:${secondsPart.toString().padStart(2, '0')}`;
-                }
-            } else if (pageNum !== null) {
-                metricValue = pageNum; 
-                displayTimestamp = `Pág ${pageNum}`;
-            }
+const transcribeInChunks = async (
+    ai: GoogleGenAI,
+    model: string,
+    evidenceFile: EvidenceFile,
+    systemInstruction: string,
+    options: ProcessingOptions
+): Promise<TranscriptSegment[]> => {
+    const { samples, sampleRate, duration } = await decodeAudioToMono(evidenceFile.file!, CHUNK_SAMPLE_RATE);
+    const chunks = planAudioChunks(duration, CHUNK_SECONDS, CHUNK_OVERLAP_SECONDS);
+
+    const cacheKey = `${evidenceFile.id}:${evidenceFile.sha256 || evidenceFile.file!.size}`;
+    const done = completedChunkCache.get(cacheKey) || new Map<number, TranscriptSegment[]>();
+    completedChunkCache.set(cacheKey, done);
+
+    const report = (retryingChunk?: number) => options.onProgress?.({ completedChunks: done.size, totalChunks: chunks.length, retryingChunk });
+    report();
+
+    for (const chunk of chunks) {
+        if (done.has(chunk.index)) continue;
+        if (options.shouldAbort?.()) throw new Error("Processamento interrompido pelo utilizador.");
+
+        // Keep speaker labels consistent across chunks
+        const knownSpeakers = new Set<string>();
+        done.forEach(segs => segs.forEach(seg => { if (seg.speaker) knownSpeakers.add(seg.speaker); }));
+        const speakerHint = knownSpeakers.size > 0
+            ? ` Interlocutores já identificados nas partes anteriores: ${Array.from(knownSpeakers).join(', ')}. Usa os mesmos nomes para as mesmas vozes.`
+            : "";
+
+        const userPrompt = `Transcreve este excerto (parte ${chunk.index + 1} de ${chunks.length}, começa em ${formatTimestamp(chunk.start)} da gravação). ` +
+            `Os carimbos de tempo devem ser relativos ao início deste excerto (00:00). Identifica os interlocutores e usa o formato [MM:SS-MM:SS] **Nome:** Texto (início e fim de cada fala).${speakerHint}`;
+
+        const filePart = await fileToGenerativePart(encodeWav(sliceSamples(samples, sampleRate, chunk.start, chunk.end), sampleRate));
+
+        let rawText: string;
+        try {
+            rawText = await withRetry(
+                () => generateTranscript(ai, model, filePart, systemInstruction, userPrompt),
+                () => report(chunk.index + 1)
+            );
+        } catch (error: any) {
+            throw new Error(`Parte ${chunk.index + 1}/${chunks.length}: ${error.message}`);
+        }
 
-            let text = match[6] ? match[6].trim() : "";
+        let segments = sanitizeTranscript(rawText);
+        if (segments.length === 0 && rawText.trim()) {
+            segments = [{ id: createSegmentId(), timestamp: "00:00", location: audioTime(0), text: rawText.trim() }];
+        }
+        done.set(chunk.index, segments);
+        report();
+    }
 
-            // Hallucination check
-            if (["subtitles by", "inaudível"].some(t => text.toLowerCase().includes(t))) continue;
-            
-            text = cleanRepetitiveLoops(text);
+    completedChunkCache.delete(cacheKey);
+    return stitchChunkSegments(chunks.map(chunk => ({ chunk, segments: done.get(chunk.index) || [] })));
+};
 
-            if (text === lastText) continue;
+// One cited passage, as every JSON mode answer returns it
+const CITATION_ITEM_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segmentId: { type: Type.STRING, description: "ID do segmento citado, exatamente como aparece nas evidências (ex.: F2-S14)." },
+    fileName: { type: Type.STRING, description: "Nome exato do ficheiro citado." },
+    timestamp: { type: Type.STRING, description: "MM:SS ou HH:MM:SS para áudio, Pág X para documentos." },
+    quote: { type: Type.STRING, description: "Excerto literal do segmento citado, palavra por palavra (é verificado contra a transcrição)." }
+  },
+  required: ["segmentId", "fileName", "timestamp", "quote"],
+  propertyOrdering: ["segmentId", "fileName", "timestamp", "quote"]
+};
 
-            if (text && text.length > 0) {
-                segments.push({
-                    timestamp: displayTimestamp,
-                    seconds: metricValue,
-                    text: text
-                });
-                lastSeconds = metricValue;
-                lastText = text;
-            }
+// JSON mode schema for fact analysis (maps to StructuredAnalysisResponse in responseParser.ts)
+const ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    facts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          factId: { type: Type.STRING, description: "ID do facto, exatamente como indicado na lista de factos." },
+          status: { type: Type.STRING, enum: Object.values(FactStatus) },
+          summary: { type: Type.STRING, description: "Resumo da análise do facto." },
+          citations: { type: Type.ARRAY, items: CITATION_ITEM_SCHEMA }
+        },
+        required: ["factId", "status", "summary", "citations"],
+        propertyOrdering: ["factId", "status", "summary", "citations"]
+      }
+    },
+    generalConclusion: { type: Type.STRING }
+  },
+  required: ["facts", "generalConclusion"],
+  propertyOrdering: ["facts", "generalConclusion"]
+};
 
-        } else {
-            // Append text to previous segment if it looks like continuation
-            if (segments.length > 0 && line.trim().length > 0) {
-                let cleanLine = cleanRepetitiveLoops(line.trim());
-                if (!cleanLine.startsWith('[') && cleanLine.length > 1) {
-                    segments[segments.length - 1].text += " " + cleanLine;
-                }
+// JSON mode schema for contradictions (maps to StructuredContradictionResponse in responseParser.ts)
+const CONTRADICTION_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    contradictions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING, description: "Assunto concreto sobre o qual as declarações divergem." },
+          explanation: { type: Type.STRING, description: "Porque é que as duas declarações não podem ser ambas verdadeiras." },
+          statements: {
+            type: Type.ARRAY,
+            description: "Exatamente duas declarações, de pessoas ou depoimentos diferentes.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                person: { type: Type.STRING, description: "Quem faz a declaração, tal como indicado no início da linha." },
+                summary: { type: Type.STRING, description: "O que esta pessoa afirma sobre o assunto." },
+                segmentId: { type: Type.STRING, description: "ID do segmento citado, exatamente como aparece nas evidências (ex.: F2-S14)." },
+                fileName: { type: Type.STRING, description: "Nome exato do ficheiro citado." },
+                timestamp: { type: Type.STRING, description: "MM:SS ou HH:MM:SS." },
+                quote: { type: Type.STRING, description: "Excerto literal do segmento citado, palavra por palavra (é verificado contra a transcrição)." }
+              },
+              required: ["person", "summary", "segmentId", "fileName", "timestamp", "quote"],
+              propertyOrdering: ["person", "summary", "segmentId", "fileName", "timestamp", "quote"]
             }
-        }
+          }
+        },
+        required: ["topic", "explanation", "statements"],
+        propertyOrdering: ["topic", "explanation", "statements"]
+      }
+    },
+    generalConclusion: { type: Type.STRING }
+  },
+  required: ["contradictions", "generalConclusion"],
+  propertyOrdering: ["contradictions", "generalConclusion"]
+};
+
+// JSON mode schema for inquiry vs. testimony comparison (maps to StructuredComparisonResponse in responseParser.ts)
+const COMPARISON_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    topics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING, description: "Assunto concreto tratado no auto e/ou no depoimento." },
+          kind: { type: Type.STRING, enum: ['CONSISTENT', 'ADDITION', 'OMISSION', 'DIVERGENCE'] },
+          explanation: { type: Type.STRING, description: "O que mudou entre o auto e o depoimento (ou porque coincidem)." },
+          inquiryCitations: { type: Type.ARRAY, description: "Passagens do auto de inquirição (vazio num acrescento).", items: CITATION_ITEM_SCHEMA },
+          testimonyCitations: { type: Type.ARRAY, description: "Passagens do depoimento gravado (vazio numa omissão).", items: CITATION_ITEM_SCHEMA }
+        },
+        required: ["topic", "kind", "explanation", "inquiryCitations", "testimonyCitations"],
+        propertyOrdering: ["topic", "kind", "explanation", "inquiryCitations", "testimonyCitations"]
+      }
+    },
+    generalConclusion: { type: Type.STRING }
+  },
+  required: ["topics", "generalConclusion"],
+  propertyOrdering: ["topics", "generalConclusion"]
+};
+
+/**
+ * Embeds texts in batches, reusing cached vectors.
+ */
+const embedTexts = async (ai: GoogleGenAI, texts: string[]): Promise<number[][]> => {
+    const missing = Array.from(new Set(texts.filter(t => !embeddingCache.has(t))));
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const response = await ai.models.embedContent({ model: EMBEDDING_MODEL, contents: batch });
+        const vectors = response.embeddings || [];
+        if (vectors.length !== batch.length) throw new Error("Resposta de embeddings incompleta.");
+        batch.forEach((text, j) => embeddingCache.set(text, vectors[j].values || []));
     }
+    return texts.map(t => embeddingCache.get(t) || []);
+};
+
+/**
+ * Evidence block of a prompt: only the retrieved segments, each prefixed by its ID.
+ */
+const formatEvidenceContext = (context: RetrievedContext, peopleMap: Record<string, string>, fileMetadata: EvidenceFile[], tag: 'file' | 'document'): string => {
+    const blocks = context.files.map(file => {
+        const category = fileMetadata.find(f => f.id === file.source.fileId)?.category || "OTHER";
+        const person = peopleMap[file.source.fileId] || (tag === 'file' ? "Desconhecido" : "N/A");
+        return `<${tag} name="${file.source.fileName}" person="${person}" category="${category}">\n${formatRetrievedFile(file)}\n</${tag}>`;
+    }).join('\n\n');
 
-    return segments;
+    const note = context.truncated
+        ? `(Excertos selecionados por relevância: ${context.selectedSegments} de ${context.totalSegments} segmentos. "[...]" indica texto omitido.)\n`
+        : "";
+    return note + blocks;
 };
 
 /**
  * Universal Processing Function: Handles Audio, PDF, and Images.
  */
-export const processFile = async (apiKey: string, evidenceFile: EvidenceFile): Promise<ProcessedContent> => {
+const processFile = async (ai: GoogleGenAI, model: string, evidenceFile: EvidenceFile, options: ProcessingOptions = {}): Promise<ProcessedContent> => {
   if (evidenceFile.isVirtual || !evidenceFile.file) {
       throw new Error("Este ficheiro é virtual e não pode ser processado pela API.");
   }
 
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  const model = "gemini-2.5-flash"; 
-
   // Determine Prompt based on File Type
   let systemInstruction = "";
   let userPrompt = "";
@@ -137,20 +304,21 @@ export const processFile = async (apiKey: string, evidenceFile: EvidenceFile): P
           
           REGRAS DE DIARIZAÇÃO (IDENTIFICAÇÃO DE INTERLOCUTORES):
           1. Tenta identificar quem fala pelo contexto (ex: "Senhor Juiz", "Senhora Testemunha").
-          2. Se souberes o nome/papel, usa: [MM:SS] **Juiz:** Texto...
-          3. Se não souberes, usa identificadores genéricos consistentes: [MM:SS] **Voz 1:** Texto... / [MM:SS] **Voz 2:** Texto...
+          2. Se souberes o nome/papel, usa: [MM:SS-MM:SS] **Juiz:** Texto...
+          3. Se não souberes, usa identificadores genéricos consistentes: [MM:SS-MM:SS] **Voz 1:** Texto... / [MM:SS-MM:SS] **Voz 2:** Texto...
           
           REGRAS DE FORMATAÇÃO (RIGOROSAS):
           1. OBRIGATÓRIO: Coloca cada nova fala numa NOVA LINHA.
-          2. OBRIGATÓRIO: Inicia cada fala com o carimbo de tempo [MM:SS] ou [HH:MM:SS].
-          3. Formato da linha: [Tempo] **Interlocutor:** O que foi dito.
+          2. OBRIGATÓRIO: Inicia cada fala com o intervalo de tempo [início-fim], em MM:SS ou HH:MM:SS.
+          3. O fim é o momento em que a pessoa acaba de falar, não o início da fala seguinte: pausas longas ficam fora do intervalo e falas sobrepostas podem ter intervalos sobrepostos.
+          4. Formato da linha: [Início-Fim] **Interlocutor:** O que foi dito.
           
           EXEMPLO DO FORMATO DESEJADO:
-          [00:01] **Juiz:** Bom dia a todos.
-          [00:03] **Voz 1:** Bom dia, senhor Juiz.
-          [01:15:20] **Voz 2:** Não me recordo disso.
+          [00:01-00:02] **Juiz:** Bom dia a todos.
+          [00:03-00:05] **Voz 1:** Bom dia, senhor Juiz.
+          [01:15:20-01:15:23] **Voz 2:** Não me recordo disso.
       `;
-      userPrompt = "Transcreve este áudio. Identifica os interlocutores (Voz 1, Voz 2...) e usa o formato [MM:SS] **Nome:** Texto.";
+      userPrompt = "Transcreve este áudio. Identifica os interlocutores (Voz 1, Voz 2...) e usa o formato [MM:SS-MM:SS] **Nome:** Texto.";
   } else {
       // PDF / IMAGE / TEXT
       systemInstruction = `
@@ -164,51 +332,20 @@ export const processFile = async (apiKey: string, evidenceFile: EvidenceFile): P
   }
 
   try {
-        const filePart = await fileToGenerativePart(evidenceFile.file);
-        
-        const response = await ai.models.generateContent({
-          model: model,
-          contents: {
-            parts: [filePart, { text: userPrompt }]
-          },
-          config: {
-            systemInstruction: systemInstruction,
-            temperature: 0.2, 
-          }
-        });
-
-        let rawText = response.text || "";
-        if (!rawText.trim()) throw new Error("A IA devolveu uma resposta vazia.");
-
-        // Cleanup
-        rawText = rawText.replace(/^```[a-z]*\n/gm, '').replace(/^```/gm, '');
-
-        // Sanitize / Parse
-        const segments = sanitizeTranscript(rawText);
-
-        // Fallback for non-timestamped docs
-        if (segments.length === 0 && rawText.trim().length > 0) {
-            const paragraphs = rawText.split(/\n\s*\n/);
-            paragraphs.forEach((p, idx) => {
-                if (p.trim()) {
-                    segments.push({
-                        timestamp: evidenceFile.type === 'AUDIO' ? "00:00" : `Parte ${idx + 1}`,
-                        seconds: idx,
-                        text: p.trim()
-                    });
-                }
-            });
-        }
+        let segments: TranscriptSegment[];
+        let rawText = "";
+
+        if (needsChunking(evidenceFile)) {
+            segments = await transcribeInChunks(ai, model, evidenceFile, systemInstruction, options);
+        } else {
+            const filePart = await fileToGenerativePart(evidenceFile.file);
+            rawText = await generateTranscript(ai, model, filePart, systemInstruction, userPrompt);
 
-        const fullText = segments.map(s => `[${s.timestamp}] ${s.text}`).join('\n');
+            // Sanitize / Parse
+            segments = sanitizeTranscript(rawText);
+        }
 
-        return {
-          fileId: evidenceFile.id,
-          fileName: evidenceFile.name,
-          fullText: fullText,
-          segments: segments,
-          processedAt: Date.now()
-        };
+        return buildProcessedContent(evidenceFile, segments, rawText);
 
     } catch (error: any) {
         console.error("Processing Error:", error);
@@ -216,67 +353,39 @@ export const processFile = async (apiKey: string, evidenceFile: EvidenceFile): P
     }
 };
 
-export const parseSecondsSafe = (timestamp: string): number => {
-    if (timestamp.includes(':')) {
-        const parts = timestamp.split(':').map(Number);
-        if (parts.length === 3) {
-            return (parts[0] * 3600) + (parts[1] * 60) + parts[2];
-        }
-        if (parts.length === 2) {
-            return (parts[0] * 60) + parts[1];
-        }
-    }
-    const num = timestamp.match(/\d+/);
-    return num ? parseInt(num[0]) : 0;
-}
-
 /**
- * Analyzes Facts using ALL processed evidence (Audio + Docs).
+ * Analyzes Facts using the evidence segments most relevant to each fact (Audio + Docs).
  */
-export const analyzeFactsFromEvidence = async (
-  apiKey: string,
+const analyzeFactsFromEvidence = async (
+  ai: GoogleGenAI,
+  model: string,
   processedData: ProcessedContent[], 
   facts: Fact[],
   peopleMap: Record<string, string>,
-  fileMetadata: EvidenceFile[] 
+  fileMetadata: EvidenceFile[],
+  retrieval: RetrievalSettings,
+  embed: EmbedFn
 ): Promise<AnalysisReport> => {
   if (!processedData.length || !facts.length) {
     throw new Error("São necessários dados e factos.");
   }
 
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  const model = "gemini-2.5-flash";
-
   const factsList = facts.map((f, i) => `${i + 1}. [ID: ${f.id}] ${f.text}`).join('\n');
   
-  const evidenceContext = processedData.map((t) => {
-      const personName = peopleMap[t.fileId] || "Desconhecido";
-      const fileData = fileMetadata.find(f => f.id === t.fileId);
-      const category = fileData?.category || "OTHER";
-
-      return `
-<file name="${t.fileName}" person="${personName}" category="${category}">
-${t.fullText}
-</file>
-`;
-  }).join('\n');
+  const context = await retrieveContext(processedData, facts.map(f => f.text), retrieval, embed);
+  const evidenceContext = formatEvidenceContext(context, peopleMap, fileMetadata, 'file');
 
   const systemInstruction = `
     És um Juiz e Analista Forense.
     OBJETIVO: Verificar factos cruzando DEPOIMENTOS e DOCUMENTOS.
     
-    FORMATO OBRIGATÓRIO PARA CADA FACTO:
-    [[FACT]]
-    ID: {id do facto}
-    [[STATUS]] {Confirmado | Desmentido | Inconclusivo | Não Mencionado} [[END_STATUS]]
-    [[SUMMARY]] Resumo da análise [[END_SUMMARY]]
-    [[EVIDENCES]]
-    - [NomeDoAudio.mp3 @ 00:00] "Texto citado"
-    [[END_EVIDENCES]]
-    [[END_FACT]]
-    
-    CONCLUSÃO GLOBAL:
-    [[CONCLUSION]] Conclusão geral [[END_CONCLUSION]]
+    RESPOSTA EM JSON:
+    - Uma entrada em "facts" para CADA facto pedido, com o "factId" exatamente como indicado.
+    - "status": ${Object.values(FactStatus).join(' | ')}.
+    - "citations": ID do segmento (ex.: F2-S14, o código entre parênteses retos no início de cada linha), ficheiro, carimbo de tempo (ou página) e o excerto literal, palavra por palavra, que sustenta a análise.
+    - "generalConclusion": conclusão global.
+
+    ATRIBUIÇÃO: cada fala é de quem está indicado no início da linha (**Nome:**), que pode não ser a pessoa associada ao ficheiro (person). Atribui cada afirmação a quem a proferiu.
   `;
 
   const prompt = `EVIDÊNCIAS:\n${evidenceContext}\n\nFACTOS:\n${factsList}`;
@@ -285,125 +394,160 @@ ${t.fullText}
     const response = await ai.models.generateContent({
       model: model,
       contents: { parts: [{ text: prompt }] },
-      config: { systemInstruction: systemInstruction, temperature: 0.1 }
+      config: {
+        systemInstruction: systemInstruction,
+        temperature: 0.1,
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA
+      }
     });
 
-    const rawText = response.text || "";
-    const results: FactAnalysis[] = [];
-    let generalConclusion = "Análise concluída.";
-    
-    const conclusionMatch = rawText.match(/\[\[CONCLUSION\]\]([\s\S]*?)\[\[END_CONCLUSION\]\]/);
-    if (conclusionMatch) generalConclusion = conclusionMatch[1].trim();
+    return parseStructuredAnalysis(response.text || "", processedData, facts, fileMetadata);
 
-    const factBlocks = rawText.split('[[FACT]]').slice(1);
-    
-    for (const block of factBlocks) {
-        const idMatch = block.match(/ID:\s*(.*?)(\n|\[)/);
-        const factId = idMatch ? idMatch[1].trim() : "";
-        const statusMatch = block.match(/\[\[STATUS\]\]([\s\S]*?)\[\[END_STATUS\]\]/);
-        const status = statusMatch ? statusMatch[1].trim() as FactStatus : FactStatus.INCONCLUSIVE;
-        const summaryMatch = block.match(/\[\[SUMMARY\]\]([\s\S]*?)\[\[END_SUMMARY\]\]/);
-        const summaryText = summaryMatch ? summaryMatch[1].trim() : "Sem resumo disponível.";
-        const evidencesMatch = block.match(/\[\[EVIDENCES\]\]([\s\S]*?)\[\[END_EVIDENCES\]\]/);
-        const evidencesContent = evidencesMatch ? evidencesMatch[1] : "";
-
-        const citations: Citation[] = [];
-        const citationRegex = /\[\s*(.*?)\s*@\s*(.*?)\s*\]/g;
-        let match;
-        
-        while ((match = citationRegex.exec(evidencesContent)) !== null) {
-            const fileNameRef = match[1].trim();
-            const timestampGroup = match[2].trim();
-            const timestamps = timestampGroup.split(',').map(t => t.trim());
-
-            const source = processedData.find(d => 
-                d.fileName.toLowerCase().includes(fileNameRef.toLowerCase()) || 
-                fileNameRef.toLowerCase().includes(d.fileName.toLowerCase())
-            );
-            
-            const fileMeta = fileMetadata.find(f => f.id === source?.fileId);
-            const isDocument = fileMeta?.category !== 'TESTIMONY';
-
-            if (source) {
-                timestamps.forEach(ts => {
-                    const seconds = parseSecondsSafe(ts);
-                    let text = "Texto indisponível";
-                    
-                    if (isDocument) {
-                         const seg = source.segments.reduce((prev, curr) => {
-                             return Math.abs(curr.seconds - seconds) < Math.abs(prev.seconds - seconds) ? curr : prev;
-                        }, source.segments[0]);
-                        text = seg ? seg.text : text;
-                    } else {
-                        const centerIdx = source.segments.findIndex(s => Math.abs(s.seconds - seconds) < 2);
-                        if (centerIdx !== -1) {
-                            const start = Math.max(0, centerIdx - 1);
-                            const end = Math.min(source.segments.length, centerIdx + 6);
-                            text = source.segments.slice(start, end).map(s => s.text).join(" ");
-                        }
-                    }
-
-                    citations.push({
-                        fileId: source.fileId,
-                        fileName: source.fileName,
-                        timestamp: ts,
-                        seconds: seconds,
-                        text: text
-                    });
-                });
-            }
-        }
+  } catch (error: any) {
+    throw new Error(`Erro na análise: ${error.message}`);
+  }
+};
 
-        if (factId) {
-            results.push({
-                factId: factId,
-                factText: facts.find(f => f.id === factId)?.text || "Desconhecido",
-                status: status,
-                summary: summaryText,
-                citations: citations
-            });
-        }
-    }
+/**
+ * Compares testimonies with each other and lists the statements that contradict one another.
+ * The facts in dispute steer retrieval when the testimonies do not fit the context budget.
+ */
+const findContradictionsInEvidence = async (
+  ai: GoogleGenAI,
+  model: string,
+  processedData: ProcessedContent[],
+  topics: string[],
+  peopleMap: Record<string, string>,
+  fileMetadata: EvidenceFile[],
+  retrieval: RetrievalSettings,
+  embed: EmbedFn
+): Promise<ContradictionReport> => {
+  if (!processedData.length) {
+    throw new Error("São necessários depoimentos processados.");
+  }
 
-    return {
-      id: Date.now().toString(),
-      name: `Relatório #${Math.floor(Date.now() / 1000).toString().slice(-4)}`,
-      generatedAt: new Date().toISOString(),
-      generalConclusion,
-      results
-    };
+  const context = await retrieveContext(processedData, topics, retrieval, embed);
+  const evidenceContext = formatEvidenceContext(context, peopleMap, fileMetadata, 'file');
+  const topicsList = topics.length > 0 ? `\n\nFACTOS EM DISCUSSÃO (para orientar a comparação):\n${topics.map((t, i) => `${i + 1}. ${t}`).join('\n')}` : "";
+
+  const systemInstruction = `
+    És um Juiz e Analista Forense.
+    OBJETIVO: Encontrar CONTRADIÇÕES entre testemunhas: declarações de pessoas diferentes (ou de depoimentos diferentes da mesma pessoa) sobre o mesmo assunto que não podem ser ambas verdadeiras.
+
+    RESPOSTA EM JSON:
+    - Uma entrada em "contradictions" por cada contradição, com o "topic" (assunto concreto) e a "explanation" (porque são incompatíveis).
+    - "statements": EXATAMENTE duas declarações, cada uma com quem a faz, o que afirma, o ID do segmento (ex.: F2-S14), o ficheiro, o carimbo de tempo e o excerto literal, palavra por palavra.
+    - Diferenças de pormenor compatíveis entre si, ou perguntas de quem interroga, NÃO são contradições.
+    - Se não houver contradições, devolve a lista vazia.
+    - "generalConclusion": apreciação global da consistência dos depoimentos.
+
+    ATRIBUIÇÃO: cada fala é de quem está indicado no início da linha (**Nome:**), que pode não ser a pessoa associada ao ficheiro (person).
+  `;
+
+  const prompt = `DEPOIMENTOS:\n${evidenceContext}${topicsList}`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        systemInstruction: systemInstruction,
+        temperature: 0.1,
+        responseMimeType: "application/json",
+        responseSchema: CONTRADICTION_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseContradictionAnalysis(response.text || "", processedData, peopleMap, fileMetadata);
 
   } catch (error: any) {
-    throw new Error(`Erro na análise: ${error.message}`);
+    throw new Error(`Erro na análise de contradições: ${error.message}`);
+  }
+};
+
+/**
+ * Aligns a person's prior inquiry statement with their testimony, topic by topic. The statement's
+ * paragraphs are the retrieval queries, so a long testimony is cut down to what relates to it.
+ */
+const compareStatementsInEvidence = async (
+  ai: GoogleGenAI,
+  model: string,
+  processedData: ProcessedContent[],
+  person: Person,
+  fileMetadata: EvidenceFile[],
+  retrieval: RetrievalSettings,
+  embed: EmbedFn
+): Promise<StatementComparisonReport> => {
+  const categoryOf = (content: ProcessedContent) => fileMetadata.find(f => f.id === content.fileId)?.category;
+  const inquiry = processedData.filter(pd => categoryOf(pd) === 'INQUIRY');
+  if (!inquiry.length || !processedData.some(pd => categoryOf(pd) === 'TESTIMONY')) {
+    throw new Error("São necessários um auto de inquirição e um depoimento processados da mesma pessoa.");
+  }
+
+  const queries = inquiry.flatMap(pd => pd.segments.map(s => s.text));
+  const context = await retrieveContext(processedData, queries, retrieval, embed);
+  const peopleMap = Object.fromEntries(processedData.map(pd => [pd.fileId, person.name]));
+  const evidenceContext = formatEvidenceContext(context, peopleMap, fileMetadata, 'file');
+
+  const systemInstruction = `
+    És um Juiz e Analista Forense.
+    OBJETIVO: Comparar o AUTO DE INQUIRIÇÃO (declaração escrita anterior, category="INQUIRY") de ${person.name} com o seu DEPOIMENTO gravado em julgamento (category="TESTIMONY").
+
+    RESPOSTA EM JSON:
+    - Uma entrada em "topics" por cada assunto tratado em pelo menos uma das fontes, pela ordem do auto.
+    - "kind": CONSISTENT (diz o mesmo), ADDITION (só no depoimento), OMISSION (só no auto, não repetido em julgamento) ou DIVERGENCE (as duas versões diferem).
+    - "inquiryCitations": passagens do auto (carimbo "Pág X"); "testimonyCitations": passagens do depoimento (carimbo MM:SS). Cada uma com o ID do segmento (ex.: F2-S14), o ficheiro e o excerto literal, palavra por palavra.
+    - "explanation": o que mudou, em concreto.
+    - "generalConclusion": apreciação global da coerência entre as duas versões.
+
+    ATRIBUIÇÃO: no depoimento, só contam as falas de ${person.name} (indicado no início da linha, **Nome:**); as perguntas de quem interroga não são declarações.
+  `;
+
+  const prompt = `EVIDÊNCIAS:\n${evidenceContext}`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        systemInstruction: systemInstruction,
+        temperature: 0.1,
+        responseMimeType: "application/json",
+        responseSchema: COMPARISON_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseStatementComparison(response.text || "", processedData, person, fileMetadata);
+
+  } catch (error: any) {
+    throw new Error(`Erro na comparação: ${error.message}`);
   }
 };
 
 /**
  * Chat Function
  */
-export const chatWithEvidence = async (
-  apiKey: string,
+const chatWithEvidence = async (
+  ai: GoogleGenAI,
+  model: string,
   processedData: ProcessedContent[],
   history: ChatMessage[],
   currentMessage: string,
   peopleMap: Record<string, string>,
-  fileMetadata: EvidenceFile[]
+  fileMetadata: EvidenceFile[],
+  retrieval: RetrievalSettings,
+  embed: EmbedFn
 ): Promise<string> => {
-   const ai = new GoogleGenAI({ apiKey: apiKey });
-   const model = "gemini-2.5-flash"; 
-
    try {
-    const formattedHistory = history.map(h => `${h.role === 'user' ? 'User' : 'AI'}: ${h.text}`).join('\n');
+    // Stored answers carry stable citation anchors, which mean nothing to the model
+    const formattedHistory = history.map(h => `${h.role === 'user' ? 'User' : 'AI'}: ${stripCitationAnchors(h.text)}`).join('\n');
     
-    const evidenceContext = processedData.map(t => {
-        const fileData = fileMetadata.find(f => f.id === t.fileId);
-        const category = fileData?.category || "OTHER";
-        return `
-        <document name="${t.fileName}" person="${peopleMap[t.fileId] || 'N/A'}" category="${category}">
-        ${t.fullText}
-        </document>
-    `;
-    }).join('\n\n');
+    // The previous question helps follow-ups like "e a segunda testemunha?"
+    const previousQuestion = [...history].reverse().find(h => h.role === 'user' && h.text !== currentMessage)?.text;
+    const queries = previousQuestion ? [currentMessage, previousQuestion] : [currentMessage];
+    const context = await retrieveContext(processedData, queries, retrieval, embed);
+    const evidenceContext = formatEvidenceContext(context, peopleMap, fileMetadata, 'document');
 
     const prompt = `
         BASE DE DADOS:
@@ -416,20 +560,23 @@ export const chatWithEvidence = async (
         ${currentMessage}
         
         INSTRUÇÕES DE CITAÇÃO (CRÍTICO):
+        Cada linha da base de dados começa com o ID do segmento (ex.: [F1-S3]) seguido do carimbo de tempo.
         Quando a resposta depender de um ficheiro de áudio, tens de usar uma referência clicável.
         Mesmo que identifiques o orador (ex: "Voz 1"), tens de incluir o botão de tempo a seguir.
+        Cada referência cita UM segmento e termina com o ID desse segmento, copiado da base de dados.
+        Quando reproduzires palavras das evidências, escreve-as entre aspas, tal como constam na transcrição, imediatamente antes da referência. As citações são verificadas contra a transcrição.
         
         FORMATO OBRIGATÓRIO DOS BOTÕES:
-        [NomeDoFicheiro.mp3 @ MM:SS]
+        [NomeDoFicheiro.mp3 @ MM:SS #ID]
         
         EXEMPLOS CORRETOS:
-        - "A Voz 1 afirmou que não estava lá [Depoimento.mp3 @ 01:23]."
-        - "O arguido negou tudo [Interrogatorio.wav @ 05:40]."
+        - "A Voz 1 afirmou que não estava lá [Depoimento.mp3 @ 01:23 #F1-S12]."
+        - "O arguido negou tudo [Interrogatorio.wav @ 05:40 #F2-S48]."
         
         INSTRUÇÕES GERAIS:
         1. Consulta TUDO antes de responder.
         2. Distingue entre depoimento (category="TESTIMONY") e autos (category="INQUIRY").
-        3. Se houver nomes como "Voz 1" ou "Voz 2", usa-os na resposta.
+        3. Cada fala é de quem está indicado no início da linha (**Nome:**), não necessariamente da pessoa associada ao ficheiro (person). Atribui cada afirmação a quem a proferiu; se houver nomes como "Voz 1" ou "Voz 2", usa-os na resposta.
         
         DETEÇÃO DE PESSOAS:
         [[DETECTED_PEOPLE: Nome | Ficheiro, ...]]
@@ -441,9 +588,27 @@ export const chatWithEvidence = async (
         config: { temperature: 0.2 }
     });
 
-    return cleanRepetitiveLoops(response.text || "Sem resposta.");
+    return anchorChatCitations(cleanRepetitiveLoops(response.text || "Sem resposta."), processedData);
    } catch (error: any) {
      console.error("Chat API Error:", error);
      throw error;
    }
-};
\ No newline at end of file
+};
+
+/**
+ * Google Gemini backend. Audio and documents go through the same multimodal prompt pipeline.
+ */
+export const createGeminiProvider = (apiKey: string, model: string = GEMINI_MODEL): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+  const embed: EmbedFn = (texts) => embedTexts(ai, texts);
+  return {
+    id: 'gemini',
+    transcribe: (evidenceFile, options) => processFile(ai, model, evidenceFile, options),
+    extract: (evidenceFile, options) => processFile(ai, model, evidenceFile, options),
+    analyze: (processedData, facts, peopleMap, fileMetadata, retrieval) => analyzeFactsFromEvidence(ai, model, processedData, facts, peopleMap, fileMetadata, retrieval, embed),
+    findContradictions: (processedData, topics, peopleMap, fileMetadata, retrieval) => findContradictionsInEvidence(ai, model, processedData, topics, peopleMap, fileMetadata, retrieval, embed),
+    compareStatements: (processedData, person, fileMetadata, retrieval) => compareStatementsInEvidence(ai, model, processedData, person, fileMetadata, retrieval, embed),
+    chat: (processedData, history, currentMessage, peopleMap, fileMetadata, retrieval) => chatWithEvidence(ai, model, processedData, history, currentMessage, peopleMap, fileMetadata, retrieval, embed),
+    embed
+  };
+};
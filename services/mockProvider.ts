@@ -0,0 +1,249 @@
+import { AIProvider, EvidenceFile, Fact, FactStatus, AnalysisReport, ChatMessage, ContradictionReport, Person, StatementComparisonReport, ProcessedContent, ProcessingOptions, RetrievalSettings, TranscriptSegment } from "../types";
+import { retrieveContext, segmentRef, RetrievedContext } from "../utils/retrieval";
+import { anchorChatCitations } from "../utils/citations";
+import { compareLocations } from "../utils/evidenceLocation";
+import { MOCK_AUDIO_TRANSCRIPT, MOCK_DOCUMENT_TRANSCRIPT, MOCK_IMAGE_TRANSCRIPT, MOCK_TRANSCRIPTS_BY_NAME } from "../fixtures/mockTranscripts";
+import { sanitizeTranscript, buildProcessedContent, parseStructuredAnalysis, parseContradictionAnalysis, parseStatementComparison, StructuredAnalysisResponse, StructuredContradictionResponse, StructuredComparisonResponse } from "./responseParser";
+
+// Offline, deterministic backend: canned transcripts from fixtures and word-overlap "reasoning".
+// Produces the same raw formats as the real provider so the parsing pipeline is exercised end to end.
+
+const STOPWORDS = new Set(["que", "com", "para", "por", "uma", "dos", "das", "nos", "nas", "num", "numa", "ele", "ela", "foi", "era", "the", "and"]);
+const NEGATIONS = ["nao", "nunca", "nenhum", "nenhuma", "nada"];
+const CONTRADICTION_MIN_OVERLAP = 0.5;  // Shared words, relative to the shorter statement
+const CONTRADICTION_MIN_WORDS = 3;      // Shorter answers ("sim", "não sei") say too little to compare
+const MAX_CONTRADICTIONS = 10;
+const COMPARISON_MATCH_OVERLAP = 0.3;   // Below this, an inquiry paragraph has no counterpart in the testimony
+
+const normalize = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const contentWords = (text: string): Set<string> => {
+    const words = normalize(text.replace(/\*\*.*?\*\*/g, ' ')).split(/[^a-z0-9]+/);
+    return new Set(words.filter(w => w.length >= 3 && !STOPWORDS.has(w)));
+};
+
+const fixtureFor = (evidenceFile: EvidenceFile): string => {
+    const baseName = normalize(evidenceFile.name.replace(/\.[^.]+$/, '')).replace(/[_-]+/g, ' ').trim();
+    if (MOCK_TRANSCRIPTS_BY_NAME[baseName]) return MOCK_TRANSCRIPTS_BY_NAME[baseName];
+    if (evidenceFile.type === 'AUDIO') return MOCK_AUDIO_TRANSCRIPT;
+    if (evidenceFile.type === 'IMAGE') return MOCK_IMAGE_TRANSCRIPT;
+    return MOCK_DOCUMENT_TRANSCRIPT;
+};
+
+const processFromFixture = async (evidenceFile: EvidenceFile, options: ProcessingOptions = {}): Promise<ProcessedContent> => {
+    if (evidenceFile.isVirtual || !evidenceFile.file) {
+        throw new Error("Este ficheiro é virtual e não pode ser processado.");
+    }
+    if (options.shouldAbort?.()) throw new Error("Processamento interrompido pelo utilizador.");
+
+    const rawText = fixtureFor(evidenceFile);
+    return buildProcessedContent(evidenceFile, sanitizeTranscript(rawText), rawText);
+};
+
+interface ScoredSegment {
+    source: ProcessedContent;
+    segment: TranscriptSegment;
+    segmentId: string;
+    score: number; // Fraction of the query words found in the segment
+}
+
+// Ranks only what retrieval selected, like a real model that only sees the budgeted context
+const rankSegments = (query: string, context: RetrievedContext): ScoredSegment[] => {
+    const queryWords = contentWords(query);
+    if (queryWords.size === 0) return [];
+
+    const scored: ScoredSegment[] = [];
+    context.files.forEach(({ fileIdx, source, segmentIdxs }) => {
+        segmentIdxs.forEach(segmentIdx => {
+            const segment = source.segments[segmentIdx];
+            const segmentWords = contentWords(segment.text);
+            let shared = 0;
+            queryWords.forEach(w => { if (segmentWords.has(w)) shared++; });
+            if (shared > 0) scored.push({ source, segment, segmentId: segmentRef(fileIdx, segmentIdx), score: shared / queryWords.size });
+        });
+    });
+    // Stable tie-break keeps results deterministic
+    return scored.sort((a, b) => b.score - a.score || a.source.fileName.localeCompare(b.source.fileName) || compareLocations(a.segment.location, b.segment.location));
+};
+
+const hasNegation = (text: string): boolean => {
+    const words = normalize(text).split(/[^a-z]+/);
+    return NEGATIONS.some(n => words.includes(n));
+};
+
+const analyzeOffline = async (
+    processedData: ProcessedContent[],
+    facts: Fact[],
+    _peopleMap: Record<string, string>,
+    fileMetadata: EvidenceFile[],
+    retrieval: RetrievalSettings
+): Promise<AnalysisReport> => {
+    if (!processedData.length || !facts.length) {
+        throw new Error("São necessários dados e factos.");
+    }
+
+    const context = await retrieveContext(processedData, facts.map(f => f.text), retrieval);
+    const answers = facts.map(fact => {
+        const matches = rankSegments(fact.text, context).filter(m => m.score >= 0.3).slice(0, 2);
+        const best = matches[0];
+
+        let status = FactStatus.NOT_MENTIONED;
+        if (best && best.score >= 0.5) status = hasNegation(best.segment.text) ? FactStatus.DENIED : FactStatus.CONFIRMED;
+        else if (best) status = FactStatus.INCONCLUSIVE;
+
+        const summary = best
+            ? `Correspondência de ${Math.round(best.score * 100)}% das palavras do facto em ${best.source.fileName}.`
+            : "Nenhuma passagem das evidências partilha palavras relevantes com este facto.";
+        const citations = matches.map(m => ({ segmentId: m.segmentId, fileName: m.source.fileName, timestamp: m.segment.timestamp, quote: m.segment.text }));
+
+        return { factId: fact.id, status, summary, citations };
+    });
+
+    const response: StructuredAnalysisResponse = {
+        facts: answers,
+        generalConclusion: "Análise gerada em modo offline (demonstração), por correspondência de palavras e sem IA."
+    };
+    return parseStructuredAnalysis(JSON.stringify(response), processedData, facts, fileMetadata);
+};
+
+// Two statements by different people sharing most of their words, only one of them negated
+const findContradictionsOffline = async (
+    processedData: ProcessedContent[],
+    topics: string[],
+    peopleMap: Record<string, string>,
+    fileMetadata: EvidenceFile[],
+    retrieval: RetrievalSettings
+): Promise<ContradictionReport> => {
+    if (!processedData.length) {
+        throw new Error("São necessários depoimentos processados.");
+    }
+
+    const context = await retrieveContext(processedData, topics, retrieval);
+    const statements = context.files.flatMap(({ fileIdx, source, segmentIdxs }) => segmentIdxs
+        .map(segmentIdx => ({ source, segment: source.segments[segmentIdx], segmentId: segmentRef(fileIdx, segmentIdx) }))
+        .filter(st => !st.segment.text.trim().endsWith('?'))  // Questions assert nothing
+        .map(st => ({ ...st, words: contentWords(st.segment.text), person: st.segment.speaker || peopleMap[st.source.fileId] || st.source.fileName }))
+        .filter(st => st.words.size >= CONTRADICTION_MIN_WORDS));
+
+    const pairs: { a: typeof statements[number]; b: typeof statements[number]; shared: string[]; overlap: number }[] = [];
+    statements.forEach((a, i) => statements.slice(i + 1).forEach(b => {
+        if (a.person === b.person && a.source.fileId === b.source.fileId) return;
+        if (hasNegation(a.segment.text) === hasNegation(b.segment.text)) return;
+        const shared = Array.from(a.words).filter(w => b.words.has(w));
+        const overlap = shared.length / Math.min(a.words.size, b.words.size);
+        if (overlap >= CONTRADICTION_MIN_OVERLAP) pairs.push({ a, b, shared, overlap });
+    }));
+    pairs.sort((x, y) => y.overlap - x.overlap);
+
+    const statementOf = (st: typeof statements[number]) => ({
+        person: st.person,
+        summary: hasNegation(st.segment.text) ? "Nega." : "Afirma.",
+        segmentId: st.segmentId,
+        fileName: st.source.fileName,
+        timestamp: st.segment.timestamp,
+        quote: st.segment.text
+    });
+    const response: StructuredContradictionResponse = {
+        contradictions: pairs.slice(0, MAX_CONTRADICTIONS).map(({ a, b, shared, overlap }) => ({
+            topic: shared.join(', '),
+            explanation: `${Math.round(overlap * 100)}% de palavras em comum e apenas uma das declarações tem uma negação.`,
+            statements: [statementOf(a), statementOf(b)]
+        })),
+        generalConclusion: "Contradições detetadas em modo offline (demonstração), por correspondência de palavras e sem IA."
+    };
+    return parseContradictionAnalysis(JSON.stringify(response), processedData, peopleMap, fileMetadata);
+};
+
+// Each inquiry paragraph is matched to the testimony answer sharing most of its words: a close
+// match is consistent (or divergent, when only one side is negated), no match is an omission, and
+// the witness's answers that match no paragraph are additions
+const compareStatementsOffline = async (
+    processedData: ProcessedContent[],
+    person: Person,
+    fileMetadata: EvidenceFile[],
+    retrieval: RetrievalSettings
+): Promise<StatementComparisonReport> => {
+    const categoryOf = (source: ProcessedContent) => fileMetadata.find(f => f.id === source.fileId)?.category;
+    const personName = normalize(person.name);
+    const inquiry = processedData.filter(pd => categoryOf(pd) === 'INQUIRY');
+    if (!inquiry.length || !processedData.some(pd => categoryOf(pd) === 'TESTIMONY')) {
+        throw new Error("São necessários um auto de inquirição e um depoimento processados da mesma pessoa.");
+    }
+
+    const context = await retrieveContext(processedData, inquiry.flatMap(pd => pd.segments.map(s => s.text)), retrieval);
+    const passages = context.files.flatMap(({ fileIdx, source, segmentIdxs }) => {
+        const inquiryFile = categoryOf(source) === 'INQUIRY';
+        // In a testimony, only the witness's own answers (every answer when no voice is linked to them)
+        const ownVoice = source.segments.some(s => s.speaker && normalize(s.speaker).startsWith(personName));
+        return segmentIdxs
+            .map(segmentIdx => ({ source, segment: source.segments[segmentIdx], segmentId: segmentRef(fileIdx, segmentIdx), inquiry: inquiryFile }))
+            .filter(p => p.inquiry || (!p.segment.text.trim().endsWith('?') && (!ownVoice || normalize(p.segment.speaker || '').startsWith(personName))))
+            .map(p => ({ ...p, words: contentWords(p.segment.text) }))
+            .filter(p => p.words.size >= CONTRADICTION_MIN_WORDS);
+    });
+    const answers = passages.filter(p => !p.inquiry);
+
+    const citationOf = (p: typeof passages[number]) => ({ segmentId: p.segmentId, fileName: p.source.fileName, timestamp: p.segment.timestamp, quote: p.segment.text });
+    const matched = new Set<string>();
+    const topics: StructuredComparisonResponse['topics'] = passages.filter(p => p.inquiry).map(paragraph => {
+        const best = answers
+            .map(answer => ({ answer, shared: Array.from(paragraph.words).filter(w => answer.words.has(w)) }))
+            .map(m => ({ ...m, overlap: m.shared.length / Math.min(paragraph.words.size, m.answer.words.size) }))
+            .sort((a, b) => b.overlap - a.overlap)[0];
+        if (!best || best.overlap < COMPARISON_MATCH_OVERLAP) {
+            return { topic: Array.from(paragraph.words).slice(0, 4).join(', '), kind: 'OMISSION', explanation: "Nenhuma resposta do depoimento partilha palavras suficientes com este parágrafo do auto.", inquiryCitations: [citationOf(paragraph)], testimonyCitations: [] };
+        }
+        matched.add(best.answer.segmentId);
+        const diverges = hasNegation(paragraph.segment.text) !== hasNegation(best.answer.segment.text);
+        return {
+            topic: best.shared.slice(0, 4).join(', '),
+            kind: diverges ? 'DIVERGENCE' : 'CONSISTENT',
+            explanation: `${Math.round(best.overlap * 100)}% de palavras em comum${diverges ? '; só uma das versões tem uma negação' : ''}.`,
+            inquiryCitations: [citationOf(paragraph)],
+            testimonyCitations: [citationOf(best.answer)]
+        };
+    });
+    answers.filter(a => !matched.has(a.segmentId)).forEach(answer => topics.push({
+        topic: Array.from(answer.words).slice(0, 4).join(', '),
+        kind: 'ADDITION',
+        explanation: "Resposta do depoimento sem parágrafo correspondente no auto.",
+        inquiryCitations: [],
+        testimonyCitations: [citationOf(answer)]
+    }));
+
+    const response: StructuredComparisonResponse = {
+        topics,
+        generalConclusion: "Comparação gerada em modo offline (demonstração), por correspondência de palavras e sem IA."
+    };
+    return parseStatementComparison(JSON.stringify(response), processedData, person, fileMetadata);
+};
+
+const chatOffline = async (
+    processedData: ProcessedContent[],
+    _history: ChatMessage[],
+    currentMessage: string,
+    _peopleMap: Record<string, string>,
+    _fileMetadata: EvidenceFile[],
+    retrieval: RetrievalSettings
+): Promise<string> => {
+    const context = await retrieveContext(processedData, [currentMessage], retrieval);
+    const matches = rankSegments(currentMessage, context).slice(0, 3);
+    const header = "**Modo offline (demonstração):** resposta gerada localmente por correspondência de palavras, sem IA.";
+
+    if (matches.length === 0) {
+        return `${header}\n\nNão encontrei passagens relacionadas com a pergunta nas evidências processadas.`;
+    }
+
+    const lines = matches.map(m => `- ${m.segment.speaker ? `**${m.segment.speaker}:** ` : ''}"${m.segment.text}" [${m.source.fileName} @ ${m.segment.timestamp} #${m.segmentId}]`);
+    return anchorChatCitations(`${header}\n\nPassagens mais relacionadas com a pergunta:\n${lines.join('\n')}`, processedData);
+};
+
+export const createMockProvider = (): AIProvider => ({
+    id: 'mock',
+    transcribe: processFromFixture,
+    extract: processFromFixture,
+    analyze: analyzeOffline,
+    findContradictions: findContradictionsOffline,
+    compareStatements: compareStatementsOffline,
+    chat: chatOffline
+});
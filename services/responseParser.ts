@@ -0,0 +1,540 @@
+import { EvidenceFile, EvidenceLocation, Fact, FactAnalysis, FactStatus, AnalysisReport, ProcessedContent, Citation, TranscriptSegment, Contradiction, ContradictionReport, ContradictionStatement, Person, StatementChangeKind, StatementComparisonReport, StatementComparisonTopic, ValidationIssue } from "../types";
+import { parseSegmentRef } from "../utils/retrieval";
+import { createSegmentId } from "../utils/citations";
+import { verifyCitation } from "../utils/citationVerification";
+import { audioTime, pageParagraph, paragraphIndex, wholeImage, parseLocationLabel, locationMatches } from "../utils/evidenceLocation";
+import { formatSegmentText, parseSpeakerLabel, transcriptFullText } from "../utils/speakers";
+
+// Provider-independent parsing of model output. Every provider returns the same raw formats
+// ("[MM:SS-MM:SS] **Voz 1:** ..." transcripts and JSON fact analysis) so they share one pipeline.
+
+/**
+ * Cleans repetitive word loops (Stuttering Hallucinations).
+ */
+export const cleanRepetitiveLoops = (text: string): string => {
+    if (!text) return "";
+    const loopRegex = /\b(\w+)(?:[\s,.]+\1\b){3,}/gi;
+    let cleaned = text.replace(loopRegex, '$1');
+    const phraseLoopRegex = /(.{5,50}?)(?:[\s,.]+\1){3,}/gi;
+    cleaned = cleaned.replace(phraseLoopRegex, '$1');
+    return cleaned;
+};
+
+/**
+ * Sanitizes the raw transcription text to remove AI hallucinations, loops, and time-travel artifacts.
+ */
+export const sanitizeTranscript = (rawText: string): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    
+    // STRICT FORMATTING: Ensure NEWLINE before every timestamp to force "one speech per line"
+    let formattedText = rawText
+        .replace(/([^\n])\s*(\[\d{1,2}:\d{2}(?::\d{2})?(?:\s*[-–]\s*\d{1,2}:\d{2}(?::\d{2})?)?\])/g, '$1\n$2')
+        .replace(/([^\n\-–])\s+(\d{1,2}:\d{2}:\d{2})/g, '$1\n$2')
+        .replace(/([^\n])\s*(\[P[áa]g)/g, '$1\n$2')
+        .replace(/(\n\s*){2,}/g, '\n'); 
+    
+    const lines = formattedText.split('\n');
+    
+    // Start time (optionally "-end"), or a page marker
+    const timestampRegex = /(?:^|[\s\*\-\.\(\[])(?:(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\s*[-–]\s*(?:(\d{1,2}):)?(\d{1,2}):(\d{2}))?|P[áa]g\.?\s*(\d+)|Page\s*(\d+))(?:\]|\)|:)?[\*\-\)]*\s+(.*)/i;
+    
+    let lastText = "";
+    const paragraphsPerPage = new Map<number, number>();
+
+    for (const line of lines) {
+        if (line.trim().length < 2) continue;
+
+        const match = line.match(timestampRegex);
+        if (match) {
+            // Time parts
+            const hours = match[1] ? parseInt(match[1]) : 0;
+            const minutes = match[2] ? parseInt(match[2]) : null;
+            const secondsPart = match[3] ? parseInt(match[3]) : null;
+            
+            const endSeconds = match[5] && match[6] ? (match[4] ? parseInt(match[4]) * 3600 : 0) + parseInt(match[5]) * 60 + parseInt(match[6]) : null;
+
+            // Page parts
+            const pageNum = match[7] || match[8] ? parseInt(match[7] || match[8]) : null;
+
+            let timeSeconds: number | null = null;
+            let displayTimestamp = "";
+
+            if (minutes !== null && secondsPart !== null) {
+                timeSeconds = (hours * 3600) + (minutes * 60) + secondsPart;
+                if (hours > 0) {
+                     displayTimestamp = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secondsPart.toString().padStart(2, '0')}`;
+                } else {
+                     displayTimestamp = `${minutes.toString().padStart(2, '0')}:${secondsPart.toString().padStart(2, '0')}`;
+                }
+            } else if (pageNum !== null) {
+                displayTimestamp = `Pág ${pageNum}`;
+            }
+
+            let text = match[9] ? match[9].trim() : "";
+
+            // Hallucination check
+            if (["subtitles by", "inaudível"].some(t => text.toLowerCase().includes(t))) continue;
+            
+            text = cleanRepetitiveLoops(text);
+
+            if (text === lastText) continue;
+
+            const { speaker, text: spoken } = parseSpeakerLabel(text);
+            if (spoken && spoken.length > 0) {
+                let location: EvidenceLocation;
+                if (timeSeconds !== null) {
+                    location = audioTime(timeSeconds, endSeconds !== null && endSeconds > timeSeconds ? endSeconds : undefined);
+                } else {
+                    // Paragraphs are numbered within their page
+                    const paragraph = (paragraphsPerPage.get(pageNum!) || 0) + 1;
+                    paragraphsPerPage.set(pageNum!, paragraph);
+                    location = pageParagraph(pageNum!, paragraph);
+                }
+                segments.push({
+                    id: createSegmentId(),
+                    timestamp: displayTimestamp,
+                    location,
+                    ...(speaker ? { speaker } : {}),
+                    text: spoken
+                });
+                lastText = text;
+            }
+
+        } else {
+            // Append text to previous segment if it looks like continuation
+            if (segments.length > 0 && line.trim().length > 0) {
+                let cleanLine = cleanRepetitiveLoops(line.trim());
+                if (!cleanLine.startsWith('[') && cleanLine.length > 1) {
+                    segments[segments.length - 1].text += " " + cleanLine;
+                }
+            }
+        }
+    }
+
+    return segments;
+};
+
+/**
+ * Builds the stored ProcessedContent from parsed segments. When nothing carried a timestamp,
+ * the raw text is split into paragraphs instead. Text read from an image is located on the
+ * image, whatever page markers the model used.
+ */
+export const buildProcessedContent = (evidenceFile: EvidenceFile, segments: TranscriptSegment[], rawText: string = ""): ProcessedContent => {
+    const result = evidenceFile.type === 'IMAGE' ? segments.map(s => ({ ...s, location: wholeImage() })) : [...segments];
+
+    // Fallback for non-timestamped docs
+    if (result.length === 0 && rawText.trim().length > 0) {
+        const paragraphs = rawText.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+        paragraphs.forEach((p, idx) => {
+            const isAudio = evidenceFile.type === 'AUDIO';
+            result.push({
+                id: createSegmentId(),
+                timestamp: isAudio ? "00:00" : evidenceFile.type === 'IMAGE' ? "Imagem" : `Parte ${idx + 1}`,
+                location: isAudio ? audioTime(0) : evidenceFile.type === 'IMAGE' ? wholeImage() : paragraphIndex(idx + 1),
+                text: p
+            });
+        });
+    }
+
+    return {
+      fileId: evidenceFile.id,
+      fileName: evidenceFile.name,
+      fullText: transcriptFullText(result),
+      segments: result,
+      processedAt: Date.now()
+    };
+};
+
+// Shape requested from the model for fact analysis (see the response schema in geminiService.ts)
+export interface StructuredAnalysisResponse {
+    facts: {
+        factId: string;
+        status: string;
+        summary: string;
+        citations: { segmentId?: string; fileName: string; timestamp: string; quote?: string }[];
+    }[];
+    generalConclusion: string;
+}
+
+// Shape requested from the model for inter-witness contradictions (see geminiService.ts)
+export interface StructuredContradictionResponse {
+    contradictions: {
+        topic: string;
+        explanation: string;
+        statements: { person?: string; summary: string; segmentId?: string; fileName: string; timestamp: string; quote?: string }[];
+    }[];
+    generalConclusion: string;
+}
+
+type AnswerCitation = { segmentId?: string; fileName: string; timestamp: string; quote?: string };
+
+// Shape requested from the model for inquiry vs. testimony comparison (see geminiService.ts)
+export interface StructuredComparisonResponse {
+    topics: {
+        topic: string;
+        kind: string;
+        explanation: string;
+        inquiryCitations: AnswerCitation[];
+        testimonyCitations: AnswerCitation[];
+    }[];
+    generalConclusion: string;
+}
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Models sometimes wrap JSON mode answers in a code fence
+const parseJsonAnswer = (raw: string): unknown => {
+    try {
+        return JSON.parse(raw.replace(/^```[a-z]*\n?/gm, '').replace(/^```/gm, '').trim());
+    } catch {
+        throw new Error("A resposta da análise não é JSON válido.");
+    }
+};
+
+/**
+ * Text of the transcript at a cited segment: the block itself for documents,
+ * a few lines of context for testimonies (each with who says it).
+ */
+const segmentContextText = (source: ProcessedContent, segmentIdx: number, isDocument: boolean): string => {
+    if (isDocument) return source.segments[segmentIdx].text;
+    const start = Math.max(0, segmentIdx - 1);
+    const end = Math.min(source.segments.length, segmentIdx + 6);
+    return source.segments.slice(start, end).map(formatSegmentText).join(" ");
+};
+
+/**
+ * Resolves one citation of a JSON answer against processedData: by segment ID when it is valid,
+ * otherwise by exact file name and position (a timestamp may list several). Problems are passed
+ * to `onIssue`; an unresolvable citation resolves to nothing.
+ */
+const resolveAnswerCitation = (
+    c: unknown,
+    processedData: ProcessedContent[],
+    fileMetadata: EvidenceFile[],
+    onIssue: (message: string) => void
+): Citation[] => {
+    if (!isObject(c) || typeof c.fileName !== 'string' || typeof c.timestamp !== 'string') {
+        onIssue("citação mal formada ignorada.");
+        return [];
+    }
+    const quote = typeof c.quote === 'string' && c.quote.trim() ? c.quote.trim() : undefined;
+
+    // Exact anchor: segment IDs of the prompt map back to processedData positions
+    const ref = typeof c.segmentId === 'string' ? parseSegmentRef(c.segmentId) : null;
+    const refSource = ref ? processedData[ref.fileIdx] : undefined;
+    const refSegment = ref && refSource ? refSource.segments[ref.segmentIdx] : undefined;
+    if (ref && refSource && refSegment) {
+        const isDocument = fileMetadata.find(f => f.id === refSource.fileId)?.category !== 'TESTIMONY';
+        return [{
+            fileId: refSource.fileId,
+            segmentId: refSegment.id,
+            fileName: refSource.fileName,
+            timestamp: refSegment.timestamp,
+            location: refSegment.location,
+            ...(refSegment.speaker ? { speaker: refSegment.speaker } : {}),
+            text: segmentContextText(refSource, ref.segmentIdx, isDocument),
+            quote
+        }];
+    }
+    if (typeof c.segmentId === 'string' && c.segmentId.trim()) {
+        onIssue(`segmento "${c.segmentId}" inexistente, citação localizada pelo nome do ficheiro.`);
+    }
+    // Without a valid segment ID only an exact file name and position are accepted
+    const fileNameRef = c.fileName.trim().toLowerCase();
+    const source = processedData.find(d => d.fileName.trim().toLowerCase() === fileNameRef);
+    if (!source) {
+        onIssue(`citação de ficheiro desconhecido "${c.fileName}" ignorada.`);
+        return [];
+    }
+
+    const citations: Citation[] = [];
+    const isDocument = fileMetadata.find(f => f.id === source.fileId)?.category !== 'TESTIMONY';
+    c.timestamp.split(',').map((t: string) => t.trim()).filter(Boolean).forEach((ts: string) => {
+        // A page label only matches pages and a time only matches times
+        const target = parseLocationLabel(ts);
+        const segmentIdx = target ? source.segments.findIndex(s => locationMatches(s.location, target)) : -1;
+        if (segmentIdx === -1) {
+            onIssue(`posição ${ts} não encontrada em ${source.fileName}, citação não verificada.`);
+            citations.push({
+                fileId: source.fileId,
+                fileName: source.fileName,
+                timestamp: ts,
+                location: target || source.segments[0]?.location || paragraphIndex(1),
+                text: quote || "Texto indisponível",
+                quote
+            });
+            return;
+        }
+        const segment = source.segments[segmentIdx];
+        citations.push({
+            fileId: source.fileId,
+            segmentId: segment.id,
+            fileName: source.fileName,
+            timestamp: segment.timestamp,
+            location: segment.location,
+            ...(segment.speaker ? { speaker: segment.speaker } : {}),
+            text: segmentContextText(source, segmentIdx, isDocument),
+            quote
+        });
+    });
+    return citations;
+};
+
+// Verification pass: the quoted words must really be at (or near) the cited position. Only the
+// problems are kept; badges verify again against the transcript as it is when shown
+const verifyAnswerCitations = (
+    citations: Citation[],
+    processedData: ProcessedContent[],
+    fileMetadata: EvidenceFile[],
+    onIssue: (message: string) => void
+): Citation[] => {
+    citations.forEach(c => {
+        const verification = verifyCitation(c, processedData, fileMetadata);
+        if (verification.status === 'NOT_FOUND') {
+            onIssue(`citação em ${c.fileName} @ ${c.timestamp} não encontrada na transcrição. ${verification.note || ''}`.trim());
+        }
+    });
+    return citations;
+};
+
+/**
+ * Validates a JSON analysis answer and maps it to an AnalysisReport.
+ *
+ * Nothing is dropped silently: invalid statuses fall back to Inconclusivo, unknown or duplicated
+ * entries and unresolvable citations are listed in validationIssues, and requested facts the
+ * answer did not cover are listed in missingFacts. Every citation is verified against the transcript.
+ * `processedData` must be what the model was given, so citations name the speakers it saw.
+ */
+export const parseStructuredAnalysis = (
+  raw: string,
+  processedData: ProcessedContent[],
+  facts: Fact[],
+  fileMetadata: EvidenceFile[]
+): AnalysisReport => {
+    const data = parseJsonAnswer(raw);
+    if (!isObject(data) || !Array.isArray(data.facts)) {
+        throw new Error("A resposta da análise não tem a lista de factos esperada.");
+    }
+
+    const validStatuses = Object.values(FactStatus) as string[];
+    const issues: ValidationIssue[] = [];
+    const results: FactAnalysis[] = [];
+
+    data.facts.forEach((entry: unknown, entryIdx: number) => {
+        if (!isObject(entry) || typeof entry.factId !== 'string') {
+            issues.push({ message: `Entrada ${entryIdx + 1} da resposta ignorada: sem identificador de facto.` });
+            return;
+        }
+        const fact = facts.find(f => f.id === entry.factId.trim());
+        if (!fact) {
+            issues.push({ message: `Entrada ${entryIdx + 1} ignorada: o facto "${entry.factId}" não foi pedido.` });
+            return;
+        }
+        // Fact issues are labelled when shown, by the fact's position in the report
+        const onIssue = (message: string) => issues.push({ factId: fact.id, message });
+        if (results.some(r => r.factId === fact.id)) {
+            onIssue("resposta duplicada ignorada.");
+            return;
+        }
+
+        let status = FactStatus.INCONCLUSIVE;
+        if (typeof entry.status === 'string' && validStatuses.includes(entry.status.trim())) {
+            status = entry.status.trim() as FactStatus;
+        } else {
+            onIssue(`estado "${String(entry.status)}" inválido, marcado como ${FactStatus.INCONCLUSIVE}.`);
+        }
+
+        let summary = "Sem resumo disponível.";
+        if (typeof entry.summary === 'string' && entry.summary.trim()) summary = entry.summary.trim();
+        else onIssue("resposta sem resumo.");
+
+        const citations = (Array.isArray(entry.citations) ? entry.citations : [])
+            .flatMap((c: unknown) => resolveAnswerCitation(c, processedData, fileMetadata, onIssue));
+        const verifiedCitations = verifyAnswerCitations(citations, processedData, fileMetadata, onIssue);
+
+        results.push({ factId: fact.id, factText: fact.text, status, summary, citations: verifiedCitations });
+    });
+
+    // Keep the order in which facts were requested
+    results.sort((a, b) => facts.findIndex(f => f.id === a.factId) - facts.findIndex(f => f.id === b.factId));
+
+    const missingFacts = facts
+        .filter(f => !results.some(r => r.factId === f.id))
+        .map(f => ({ factId: f.id, factText: f.text }));
+
+    let generalConclusion = "Análise concluída.";
+    if (typeof data.generalConclusion === 'string' && data.generalConclusion.trim()) generalConclusion = data.generalConclusion.trim();
+
+    return {
+      id: Date.now().toString(),
+      name: `Relatório #${Math.floor(Date.now() / 1000).toString().slice(-4)}`,
+      generatedAt: new Date().toISOString(),
+      generalConclusion,
+      results,
+      missingFacts,
+      validationIssues: issues
+    };
+};
+
+/**
+ * Validates a JSON contradiction answer and maps it to a ContradictionReport.
+ *
+ * A contradiction is only kept with exactly two statements that each resolve to a citation in
+ * different places; anything else is listed in validationIssues. A statement belongs to the speaker
+ * of the cited segment, or else to the person linked to its file.
+ */
+export const parseContradictionAnalysis = (
+  raw: string,
+  processedData: ProcessedContent[],
+  peopleMap: Record<string, string>,
+  fileMetadata: EvidenceFile[]
+): ContradictionReport => {
+    const data = parseJsonAnswer(raw);
+    if (!isObject(data) || !Array.isArray(data.contradictions)) {
+        throw new Error("A resposta da análise não tem a lista de contradições esperada.");
+    }
+
+    const issues: string[] = [];
+    const contradictions: Contradiction[] = [];
+
+    data.contradictions.forEach((entry: unknown, entryIdx: number) => {
+        const label = `Contradição ${entryIdx + 1}`;
+        const onIssue = (message: string) => issues.push(`${label}: ${message}`);
+        if (!isObject(entry) || !Array.isArray(entry.statements) || entry.statements.length !== 2) {
+            issues.push(`${label} ignorada: são precisas exatamente duas declarações.`);
+            return;
+        }
+
+        const statements: ContradictionStatement[] = [];
+        entry.statements.forEach((st: unknown) => {
+            const citation = resolveAnswerCitation(st, processedData, fileMetadata, onIssue)[0];
+            if (!citation || !isObject(st)) return;
+            const [verified] = verifyAnswerCitations([citation], processedData, fileMetadata, onIssue);
+            const modelPerson = typeof st.person === 'string' && st.person.trim() ? st.person.trim() : undefined;
+            statements.push({
+                personName: verified.speaker || peopleMap[verified.fileId] || modelPerson || "Desconhecido",
+                summary: typeof st.summary === 'string' && st.summary.trim() ? st.summary.trim() : (verified.quote || verified.text),
+                citation: verified
+            });
+        });
+        if (statements.length !== 2) {
+            issues.push(`${label} ignorada: uma das declarações não foi localizada nas evidências.`);
+            return;
+        }
+        const [first, second] = statements;
+        if (first.citation.fileId === second.citation.fileId && first.citation.segmentId && first.citation.segmentId === second.citation.segmentId) {
+            issues.push(`${label} ignorada: as duas declarações citam o mesmo segmento.`);
+            return;
+        }
+
+        let topic = "Tema não indicado";
+        if (typeof entry.topic === 'string' && entry.topic.trim()) topic = entry.topic.trim();
+        else issues.push(`${label}: resposta sem tema.`);
+
+        contradictions.push({
+            id: `${Date.now()}-${entryIdx}`,
+            topic,
+            explanation: typeof entry.explanation === 'string' ? entry.explanation.trim() : "",
+            statements: [first, second]
+        });
+    });
+
+    let generalConclusion = contradictions.length > 0 ? "Análise concluída." : "Não foram encontradas contradições entre os depoimentos.";
+    if (typeof data.generalConclusion === 'string' && data.generalConclusion.trim()) generalConclusion = data.generalConclusion.trim();
+
+    return {
+      id: Date.now().toString(),
+      name: `Contradições #${Math.floor(Date.now() / 1000).toString().slice(-4)}`,
+      generatedAt: new Date().toISOString(),
+      comparedFileIds: processedData.map(pd => pd.fileId),
+      contradictions,
+      generalConclusion,
+      validationIssues: issues
+    };
+};
+
+const STATEMENT_CHANGE_KINDS: StatementChangeKind[] = ['CONSISTENT', 'ADDITION', 'OMISSION', 'DIVERGENCE'];
+
+/**
+ * Validates a JSON comparison of a person's inquiry statement with their testimony.
+ *
+ * Citations are filed by the category of the file they resolve to, whichever list the model put
+ * them in. A topic whose kind does not match the sides it cites (an addition quoting the inquiry,
+ * a divergence missing one side) is kept, with a validation issue, for the user to review.
+ */
+export const parseStatementComparison = (
+  raw: string,
+  processedData: ProcessedContent[],
+  person: Person,
+  fileMetadata: EvidenceFile[]
+): StatementComparisonReport => {
+    const data = parseJsonAnswer(raw);
+    if (!isObject(data) || !Array.isArray(data.topics)) {
+        throw new Error("A resposta da análise não tem a lista de temas esperada.");
+    }
+
+    const issues: string[] = [];
+    const topics: StatementComparisonTopic[] = [];
+    const categoryOf = (fileId: string) => fileMetadata.find(f => f.id === fileId)?.category;
+
+    data.topics.forEach((entry: unknown, entryIdx: number) => {
+        const label = `Tema ${entryIdx + 1}`;
+        const onIssue = (message: string) => issues.push(`${label}: ${message}`);
+        if (!isObject(entry)) {
+            issues.push(`${label} ignorado: entrada mal formada.`);
+            return;
+        }
+
+        let kind: StatementChangeKind = 'DIVERGENCE';
+        if (typeof entry.kind === 'string' && STATEMENT_CHANGE_KINDS.includes(entry.kind.trim() as StatementChangeKind)) {
+            kind = entry.kind.trim() as StatementChangeKind;
+        } else {
+            issues.push(`${label}: tipo "${String(entry.kind)}" inválido, marcado como divergência.`);
+        }
+
+        const cited = [...(Array.isArray(entry.inquiryCitations) ? entry.inquiryCitations : []), ...(Array.isArray(entry.testimonyCitations) ? entry.testimonyCitations : [])]
+            .flatMap((c: unknown) => resolveAnswerCitation(c, processedData, fileMetadata, onIssue));
+        const verified = verifyAnswerCitations(cited, processedData, fileMetadata, onIssue);
+        const inquiryCitations = verified.filter(c => categoryOf(c.fileId) === 'INQUIRY');
+        const testimonyCitations = verified.filter(c => categoryOf(c.fileId) === 'TESTIMONY');
+        if (inquiryCitations.length + testimonyCitations.length === 0) {
+            issues.push(`${label} ignorado: nenhuma citação foi localizada.`);
+            return;
+        }
+
+        const needsInquiry = kind !== 'ADDITION';
+        const needsTestimony = kind !== 'OMISSION';
+        if (needsInquiry !== inquiryCitations.length > 0 || needsTestimony !== testimonyCitations.length > 0) {
+            issues.push(`${label}: as citações não correspondem ao tipo indicado (${kind}); confirme-o nas fontes.`);
+        }
+
+        let topic = "Tema não indicado";
+        if (typeof entry.topic === 'string' && entry.topic.trim()) topic = entry.topic.trim();
+        else issues.push(`${label}: resposta sem tema.`);
+
+        topics.push({
+            id: `${Date.now()}-${entryIdx}`,
+            topic,
+            kind,
+            explanation: typeof entry.explanation === 'string' ? entry.explanation.trim() : "",
+            inquiryCitations,
+            testimonyCitations
+        });
+    });
+
+    let generalConclusion = "Comparação concluída.";
+    if (typeof data.generalConclusion === 'string' && data.generalConclusion.trim()) generalConclusion = data.generalConclusion.trim();
+
+    return {
+      id: Date.now().toString(),
+      name: `${person.name} — Inquirição vs. Depoimento`,
+      generatedAt: new Date().toISOString(),
+      personId: person.id,
+      personName: person.name,
+      inquiryFileIds: processedData.filter(pd => categoryOf(pd.fileId) === 'INQUIRY').map(pd => pd.fileId),
+      testimonyFileIds: processedData.filter(pd => categoryOf(pd.fileId) === 'TESTIMONY').map(pd => pd.fileId),
+      topics,
+      generalConclusion,
+      validationIssues: issues
+    };
+};
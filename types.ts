@@ -17,6 +17,8 @@ export interface EvidenceFile {
   category: EvidenceCategory;
   personId?: string; // Link to a person
   size?: number;
+  sha256?: string;   // Content hash, used to rehydrate virtual files regardless of name/category
+  duration?: number; // Seconds (audio only)
   isVirtual?: boolean;
 }
 
@@ -32,12 +34,38 @@ export enum FactStatus {
   NOT_MENTIONED = 'Não Mencionado',
 }
 
+// Where a passage sits inside its evidence file
+export interface ImageRegion {
+  x: number;      // Fractions (0-1) of the image width/height
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type EvidenceLocation =
+  | { kind: 'AUDIO_TIME'; start: number; end?: number }   // Seconds from the start of the recording
+  | { kind: 'PAGE'; page: number; paragraph?: number }    // 1-based; paragraph absent when only the page is known
+  | { kind: 'IMAGE_REGION'; region?: ImageRegion }        // Whole image when no region is known
+  | { kind: 'PARAGRAPH'; index: number };                 // 1-based block of an unpaginated text
+
+export type CitationVerificationStatus = 'VERIFIED' | 'APPROXIMATE' | 'NOT_FOUND';
+
+// Result of checking a citation against the transcript (see utils/citationVerification.ts)
+export interface CitationVerification {
+  status: CitationVerificationStatus;
+  score: number; // Fraction (0-1) of the quoted words found in the transcript
+  note?: string; // Why it is not fully verified
+}
+
 export interface Citation {
   fileId: string;
+  segmentId?: string; // TranscriptSegment.id; absent when the cited passage could not be located
   fileName: string;
-  timestamp: string; // Format "MM:SS" for audio, or "Pág X" for PDF if applicable
-  seconds: number; // For seeking (0 for non-time-based docs)
-  text: string;
+  timestamp: string; // Label as cited: "MM:SS" for audio, "Pág X" for documents
+  location: EvidenceLocation;
+  speaker?: string;  // Who says the cited passage (person name when the label was mapped)
+  text: string;      // Transcript text at the cited passage
+  quote?: string;    // Words the model quoted, checked against `text`'s surroundings
 }
 
 export interface FactAnalysis {
@@ -48,12 +76,90 @@ export interface FactAnalysis {
   citations: Citation[];
 }
 
+// Problem found while validating an analysis answer, tied to a fact when it concerns one
+export interface ValidationIssue {
+  factId?: string;
+  message: string;
+}
+
 export interface AnalysisReport {
   id: string; 
   name: string;
   generatedAt: string;
   results: FactAnalysis[];
   generalConclusion: string;
+  missingFacts?: { factId: string; factText: string }[]; // Requested facts the analysis did not answer
+  validationIssues?: ValidationIssue[];                   // Problems found while validating the answer
+  revisions?: ReportRevision[];                           // Partial re-runs merged into this report, oldest first
+}
+
+// One side of a contradiction: what a witness states, and where
+export interface ContradictionStatement {
+  personName: string;  // Who makes the statement (speaker, or the person linked to the file)
+  summary: string;     // What this statement asserts about the topic
+  citation: Citation;
+}
+
+// Two statements about the same topic that cannot both be true
+export interface Contradiction {
+  id: string;
+  topic: string;
+  explanation: string; // Why the statements are incompatible
+  statements: [ContradictionStatement, ContradictionStatement];
+}
+
+// Inter-witness contradiction analysis, saved next to the fact reports
+export interface ContradictionReport {
+  id: string;
+  name: string;
+  generatedAt: string;
+  comparedFileIds: string[];  // Testimonies the analysis compared
+  contradictions: Contradiction[];
+  generalConclusion: string;
+  validationIssues?: string[];
+}
+
+// How the trial testimony relates to the prior inquiry statement on one topic
+export type StatementChangeKind = 'CONSISTENT' | 'ADDITION' | 'OMISSION' | 'DIVERGENCE';
+
+export interface StatementComparisonTopic {
+  id: string;
+  topic: string;
+  kind: StatementChangeKind;
+  explanation: string;
+  inquiryCitations: Citation[];    // Prior statement (pages); empty for additions
+  testimonyCitations: Citation[];  // Recorded testimony (timestamps); empty for omissions
+}
+
+// One person's prior inquiry statement set against their trial testimony
+export interface StatementComparisonReport {
+  id: string;
+  name: string;
+  generatedAt: string;
+  personId: string;
+  personName: string;
+  inquiryFileIds: string[];
+  testimonyFileIds: string[];
+  topics: StatementComparisonTopic[];
+  generalConclusion: string;
+  validationIssues?: string[];
+}
+
+export interface FactRevisionChange {
+  factId: string;
+  factText: string;           // Fact text sent in the re-run
+  previousFactText?: string;  // Absent when the fact had no result before
+  previousStatus?: FactStatus;
+  previousSummary?: string;
+  status?: FactStatus;        // Absent when the re-run did not answer the fact
+  summary?: string;
+}
+
+export interface ReportRevision {
+  id: string;
+  createdAt: string;
+  scope: 'FACT' | 'CHANGED'; // Single fact, or every fact changed since the last run
+  changes: FactRevisionChange[];
 }
 
 export interface ChatMessage {
@@ -63,24 +169,81 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+// One spoken word of a recording segment (absolute seconds)
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Segment as the transcription produced it, kept once a person corrects it
+export interface SegmentOriginal {
+  timestamp: string;
+  location: EvidenceLocation;
+  speaker?: string;
+  text: string;
+}
+
+export interface TranscriptSegment {
+  id: string;        // Stable across re-renders, edits and project reloads (citations point at it)
+  timestamp: string; // Label shown and sent to the model: "MM:SS", "Pág 1" or "Parte 1"
+  location: EvidenceLocation; // Recordings: start and end of the utterance
+  speaker?: string;  // Label as transcribed ("Voz 1", "Juiz"); mapped to a Person by the file's speaker table
+  text: string;      // What was said, without the speaker label
+  words?: WordTiming[]; // Recordings only: what was said (speaker label excluded), word by word
+  original?: SegmentOriginal; // Present only on corrected segments
+  aliasIds?: string[];  // IDs of segments merged into this one (their citations resolve here)
+}
+
+export type TranscriptCorrectionKind = 'TEXT' | 'SPEAKER' | 'TIME' | 'SPLIT' | 'MERGE' | 'RENAME_SPEAKER' | 'UNDO';
+
+// One human change to a transcript: the segments it replaced and the ones it produced
+export interface TranscriptCorrection {
+  id: string;
+  createdAt: string;
+  kind: TranscriptCorrectionKind;
+  description: string;
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+  undoes?: string; // UNDO entries: ID of the correction reverted
+}
+
 export interface ProcessedContent {
   fileId: string;
   fileName: string;
   fullText: string;
   // Segments are crucial for Audio Karaoke, but also useful for Page mapping in PDFs
-  segments: {
-    timestamp: string; // "MM:SS" or "Page 1"
-    seconds: number;   // Seconds for audio, Page Number for PDF (can use negative or specific logic)
-    text: string;
-  }[];
+  segments: TranscriptSegment[];
   processedAt: number;
+  corrections?: TranscriptCorrection[]; // Audit trail of human corrections, oldest first
+  speakers?: SpeakerEntry[]; // Speaker table; labels without an entry are matched to people by name
+  pageMethods?: PageExtraction[]; // PDFs: how the text of each page was obtained
+}
+
+// TEXT_LAYER: read locally from the PDF; AI_OCR: page without a text layer, read by the AI provider
+export type PageExtractionMethod = 'TEXT_LAYER' | 'AI_OCR';
+
+export interface PageExtraction {
+  page: number;
+  method: PageExtractionMethod;
+}
+
+// Who a speaker label of one file is; an entry without personId was unlinked by hand
+export interface SpeakerEntry {
+  label: string;
+  personId?: string;
 }
 
 export interface ProjectState {
+  caseId?: string; // Case/process number shown on exported documents
+  providerId: AIProviderId; // AI backend used by this project
+  retrieval: RetrievalSettings;
   people: Person[];
   facts: Fact[];
   processedData: ProcessedContent[]; 
   savedReports: AnalysisReport[]; // Lista de relatórios guardados
+  contradictionReports: ContradictionReport[];
+  statementComparisons: StatementComparisonReport[];
   chatHistory: ChatMessage[];
   lastModified: number;
 }
@@ -89,16 +252,114 @@ export interface ProjectState {
 
 export interface SerializedProject {
   type: 'project_v2';
+  schemaVersion: number; // See utils/schemaMigrations.ts (absent in files saved before versioning = 2)
+  caseId?: string;
+  providerId: AIProviderId;
+  retrieval: RetrievalSettings;
   people: Person[];
   facts: Fact[];
   savedReports: AnalysisReport[];
+  contradictionReports: ContradictionReport[];
+  statementComparisons: StatementComparisonReport[];
   chatHistory: ChatMessage[];
   createdAt: number;
 }
 
+export interface FileManifestEntry {
+  id: string;
+  name: string;
+  type: EvidenceType;
+  category: EvidenceCategory;
+  folder?: string;
+  personId?: string; // Person the file belongs to
+  sha256?: string;   // Absent in files saved before content hashing
+  size?: number;
+  duration?: number;
+}
+
 export interface SerializedDatabase {
   type: 'database_v2';
+  schemaVersion: number;
   processedData: ProcessedContent[];
-  fileManifest: { id: string; name: string; type: EvidenceType; category: EvidenceCategory; folder?: string }[];
+  fileManifest: FileManifestEntry[];
   exportedAt: number;
-}
\ No newline at end of file
+}
+export interface SchemaMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];   // Descriptions of the migrations that ran
+  dropped: string[];   // Paths of unknown/invalid fields that were removed
+  defaulted: string[]; // Paths of missing/invalid fields that were filled with defaults
+}
+
+// PERSISTENCE TYPES
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileCount: number;
+  factCount: number;
+  reportCount: number;
+}
+
+export interface StoredSession {
+  id: string;
+  schemaVersion?: number;
+  project: ProjectState;
+  files: (Omit<EvidenceFile, 'file'> & { hasBlob: boolean })[];
+}
+
+// CASE BUNDLE (.veritas zip) TYPES
+
+export interface CaseBundleEntry {
+  path: string;   // Path inside the zip
+  sha256: string;
+  size: number;
+}
+
+export interface CaseBundleManifest {
+  type: 'veritas_bundle_v1';
+  createdAt: number;
+  project: CaseBundleEntry;
+  database: CaseBundleEntry;
+  media: (CaseBundleEntry & { fileId: string; name: string; mimeType: string })[];
+}
+
+// AI PROVIDER TYPES
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface RetrievalSettings {
+  tokenBudget: number;    // Max estimated tokens of evidence sent per analysis or chat question
+  useEmbeddings: boolean; // Blend embedding similarity into the lexical ranking (providers that support it)
+}
+
+export interface ProcessingProgress {
+  completedChunks: number;
+  totalChunks: number;
+  retryingChunk?: number; // 1-based index of a chunk being retried
+}
+
+export interface ProcessingOptions {
+  onProgress?: (progress: ProcessingProgress) => void;
+  shouldAbort?: () => boolean;
+}
+
+/**
+ * Backend that turns evidence into text and reasons over it. Implementations live in services/
+ * and are created through createProvider (services/aiProvider.ts).
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  transcribe: (evidenceFile: EvidenceFile, options?: ProcessingOptions) => Promise<ProcessedContent>; // Audio
+  extract: (evidenceFile: EvidenceFile, options?: ProcessingOptions) => Promise<ProcessedContent>;    // PDF / images / text
+  analyze: (processedData: ProcessedContent[], facts: Fact[], peopleMap: Record<string, string>, fileMetadata: EvidenceFile[], retrieval: RetrievalSettings) => Promise<AnalysisReport>;
+  // Testimonies only; `topics` (the facts in dispute) steer retrieval when the testimonies do not fit the budget
+  findContradictions: (processedData: ProcessedContent[], topics: string[], peopleMap: Record<string, string>, fileMetadata: EvidenceFile[], retrieval: RetrievalSettings) => Promise<ContradictionReport>;
+  // Inquiry statements and testimonies of `person` only, as returned by getStatementSources
+  compareStatements: (processedData: ProcessedContent[], person: Person, fileMetadata: EvidenceFile[], retrieval: RetrievalSettings) => Promise<StatementComparisonReport>;
+  chat: (processedData: ProcessedContent[], history: ChatMessage[], currentMessage: string, peopleMap: Record<string, string>, fileMetadata: EvidenceFile[], retrieval: RetrievalSettings) => Promise<string>;
+  embed?: (texts: string[]) => Promise<number[][]>; // Optional, enables embedding-based retrieval
+}
@@ -0,0 +1,166 @@
+import { AnalysisReport, ChatMessage, EvidenceFile, EvidenceLocation, ProcessedContent } from "../types";
+import { decodeAudioToMono, encodeWav, sliceSamples } from "./audioUtils";
+import { CITATION_TAG_REGEX, parseCitationTag, resolveCitation, resolveCitationTag } from "./citations";
+import { formatLocation, getAudioEnd, getAudioStart } from "./evidenceLocation";
+
+// Cited excerpts of recordings as standalone WAV clips, so an export carries the seconds that
+// support a fact instead of the whole recording. Sources are decoded locally, one at a time.
+
+const CLIP_SAMPLE_RATE = 16000;          // Speech stays intelligible; a minute is ~2 MB
+const CLIP_PADDING_KEY = "veritas_clip_padding";
+export const DEFAULT_CLIP_PADDING_SECONDS = 2;
+const FALLBACK_CLIP_SECONDS = 15;        // Citations of segments without an end time
+const MAX_CONTEXT_IN_NAME = 40;
+
+export interface ClipRequest {
+    fileId: string;
+    location: EvidenceLocation;
+    context: string;  // Fact or message the excerpt supports
+    quote?: string;
+}
+
+export interface AudioClip {
+    name: string;
+    blob: Blob;
+    request: ClipRequest;
+    start: number;
+    end: number;
+}
+
+export interface ClipExtraction {
+    clips: AudioClip[];
+    skipped: { request: ClipRequest; reason: string }[];
+}
+
+export const getClipPadding = (): number => {
+    const stored = parseFloat(localStorage.getItem(CLIP_PADDING_KEY) || "");
+    return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_CLIP_PADDING_SECONDS;
+};
+
+export const setClipPadding = (seconds: number) => localStorage.setItem(CLIP_PADDING_KEY, String(Math.max(0, seconds)));
+
+/**
+ * Seconds to cut for a cited position: the cited segment plus `padding` on each side, inside the recording.
+ */
+export const getClipRange = (location: EvidenceLocation, padding: number, duration?: number): { start: number; end: number } | null => {
+    const start = getAudioStart(location);
+    if (start === null) return null;
+    const end = getAudioEnd(location) ?? start + FALLBACK_CLIP_SECONDS;
+    const limit = duration !== undefined && duration > start ? duration : Infinity;
+    return { start: Math.max(0, start - padding), end: Math.min(limit, end + padding) };
+};
+
+const slug = (text: string, maxLength: number): string => text
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+
+const timeForName = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    const mmss = `${m.toString().padStart(2, '0')}m${s.toString().padStart(2, '0')}s`;
+    return h > 0 ? `${h}h${mmss}` : mmss;
+};
+
+/**
+ * "Depoimento_01m23s-01m31s_O-arguido-estava-no-local.wav": source file, cited range and context.
+ */
+export const getClipFileName = (fileName: string, location: EvidenceLocation, context: string): string => {
+    const base = slug(fileName.replace(/\.[^.]+$/, ''), 60) || 'audio';
+    const start = getAudioStart(location) ?? 0;
+    const end = getAudioEnd(location);
+    const range = end !== null ? `${timeForName(start)}-${timeForName(end)}` : timeForName(start);
+    const about = slug(context, MAX_CONTEXT_IN_NAME);
+    return `${base}_${range}${about ? `_${about}` : ''}.wav`;
+};
+
+/**
+ * Clip requests for every recording cited in a report, one per citation, labelled with its fact.
+ */
+export const getReportClipRequests = (report: AnalysisReport, processedData: ProcessedContent[]): ClipRequest[] => {
+    const requests: ClipRequest[] = [];
+    report.results.forEach(result => result.citations.forEach(citation => {
+        const resolved = resolveCitation(citation, processedData);
+        const location = resolved ? resolved.segment.location : citation.location;
+        if (getAudioStart(location) === null) return;
+        requests.push({ fileId: citation.fileId, location, context: result.factText, quote: citation.quote || citation.text });
+    }));
+    return requests;
+};
+
+/**
+ * Clip requests for the recordings cited in chat answers, labelled with the question answered.
+ */
+export const getChatClipRequests = (messages: ChatMessage[], processedData: ProcessedContent[]): ClipRequest[] => {
+    const requests: ClipRequest[] = [];
+    messages.forEach((msg, idx) => {
+        if (msg.role !== 'model') return;
+        const question = [...messages.slice(0, idx)].reverse().find(m => m.role === 'user');
+        (msg.text.match(CITATION_TAG_REGEX) || []).forEach(raw => {
+            const tag = parseCitationTag(raw);
+            const resolved = tag ? resolveCitationTag(tag, processedData) : null;
+            if (!resolved || getAudioStart(resolved.segment.location) === null) return;
+            requests.push({ fileId: resolved.source.fileId, location: resolved.segment.location, context: question?.text || 'Chat', quote: resolved.segment.text });
+        });
+    });
+    return requests;
+};
+
+/**
+ * Cuts and encodes the requested clips. Each source is decoded once and released before the
+ * next; the same range cited twice for the same context becomes one clip.
+ */
+export const extractAudioClips = async (
+    requests: ClipRequest[],
+    files: EvidenceFile[],
+    padding: number = getClipPadding(),
+    onProgress?: (done: number, total: number) => void
+): Promise<ClipExtraction> => {
+    const result: ClipExtraction = { clips: [], skipped: [] };
+    const seen = new Set<string>();
+    const unique = requests.filter(r => {
+        const key = `${r.fileId}|${formatLocation(r.location)}|${r.context}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    const byFile = new Map<string, ClipRequest[]>();
+    unique.forEach(r => byFile.set(r.fileId, [...(byFile.get(r.fileId) || []), r]));
+
+    let done = 0;
+    const usedNames = new Set<string>();
+    for (const [fileId, fileRequests] of byFile) {
+        const file = files.find(f => f.id === fileId);
+        const skipAll = (reason: string) => fileRequests.forEach(request => result.skipped.push({ request, reason }));
+        if (!file || file.type !== 'AUDIO') {
+            skipAll("O ficheiro citado não é uma gravação.");
+        } else if (!file.file) {
+            skipAll(`O original de ${file.name} não está carregado.`);
+        } else {
+            try {
+                const audio = await decodeAudioToMono(file.file, CLIP_SAMPLE_RATE);
+                fileRequests.forEach(request => {
+                    const range = getClipRange(request.location, padding, audio.duration);
+                    if (!range || range.end <= range.start) {
+                        result.skipped.push({ request, reason: `${formatLocation(request.location)} está fora da gravação.` });
+                        return;
+                    }
+                    const baseName = getClipFileName(file.name, request.location, request.context);
+                    let name = baseName;
+                    for (let n = 2; usedNames.has(name); n++) name = baseName.replace(/\.wav$/, `_${n}.wav`);
+                    usedNames.add(name);
+                    const blob = encodeWav(sliceSamples(audio.samples, audio.sampleRate, range.start, range.end), audio.sampleRate);
+                    result.clips.push({ name, blob, request, ...range });
+                });
+            } catch (error: any) {
+                skipAll(`${file.name}: ${error.message}`);
+            }
+        }
+        done += fileRequests.length;
+        onProgress?.(done, unique.length);
+    }
+    return result;
+};
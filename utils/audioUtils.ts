@@ -0,0 +1,93 @@
+/**
+ * Reads the duration (seconds) of an audio/video file from its metadata.
+ * Resolves undefined when the browser cannot read it.
+ */
+export const getMediaDuration = (file: Blob, timeoutMs: number = 10000): Promise<number | undefined> => {
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(file);
+        const audio = document.createElement('audio');
+        let settled = false;
+
+        const done = (duration?: number) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            audio.removeAttribute('src');
+            URL.revokeObjectURL(url);
+            resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+        };
+
+        const timer = setTimeout(() => done(undefined), timeoutMs);
+        audio.preload = 'metadata';
+        audio.onloadedmetadata = () => done(audio.duration);
+        audio.onerror = () => done(undefined);
+        audio.src = url;
+    });
+};
+
+/**
+ * Decodes an audio file locally (Web Audio API) and mixes it down to mono at `sampleRate`.
+ * A low sample rate keeps multi-hour recordings within memory and request limits.
+ */
+export const decodeAudioToMono = async (file: Blob, sampleRate: number = 16000): Promise<{ samples: Float32Array; sampleRate: number; duration: number }> => {
+    const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextCtor({ sampleRate });
+    try {
+        const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+        const samples = new Float32Array(buffer.length);
+        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+            const data = buffer.getChannelData(ch);
+            for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+        }
+        return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+    } catch (err) {
+        throw new Error("Não foi possível descodificar o áudio neste browser.");
+    } finally {
+        ctx.close().catch(() => undefined);
+    }
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV Blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+    const bytesPerSample = 2;
+    const dataSize = samples.length * bytesPerSample;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, str: string) => {
+        for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);                           // PCM chunk size
+    view.setUint16(20, 1, true);                            // PCM format
+    view.setUint16(22, 1, true);                            // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * bytesPerSample, true);  // Byte rate
+    view.setUint16(32, bytesPerSample, true);               // Block align
+    view.setUint16(34, 16, true);                           // Bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    let offset = 44;
+    for (let i = 0; i < samples.length; i++, offset += 2) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Cuts [startSeconds, endSeconds) out of decoded samples.
+ */
+export const sliceSamples = (samples: Float32Array, sampleRate: number, startSeconds: number, endSeconds: number): Float32Array => {
+    const start = Math.max(0, Math.floor(startSeconds * sampleRate));
+    const end = Math.min(samples.length, Math.ceil(endSeconds * sampleRate));
+    return samples.subarray(start, Math.max(start, end));
+};
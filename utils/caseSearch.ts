@@ -0,0 +1,244 @@
+import { EvidenceCategory, EvidenceFile, Person, ProcessedContent, TranscriptSegment } from "../types";
+import { getAudioStart } from "./evidenceLocation";
+import { getSpeakerTable } from "./speakers";
+
+// Case-wide full-text search over every transcript and document segment. Queries accept words,
+// "exact phrases", a trailing * for word prefixes, AND/OR/NOT (or E/OU/NÃO, or -word) and
+// parentheses; matching ignores case and accents and works on whole words.
+
+const CONTEXT_SEGMENTS = 1;  // Neighbouring segments shown around each hit
+const MAX_HITS = 500;        // Beyond this the query is too broad to read anyway
+
+export type QueryNode =
+    | { kind: 'TERM'; words: string[]; prefix: boolean }  // One word, or a phrase of consecutive words
+    | { kind: 'AND' | 'OR'; children: QueryNode[] }
+    | { kind: 'NOT'; child: QueryNode };
+
+export interface SearchFilters {
+    personIds: string[];            // Empty: everyone
+    categories: EvidenceCategory[]; // Empty: every category
+    folders: string[];              // Empty: every folder; "" stands for files outside folders
+    fromSeconds?: number;           // Position inside recordings; a time range leaves documents out
+    toSeconds?: number;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { personIds: [], categories: [], folders: [] };
+
+export type TextRange = [number, number]; // Character offsets in the segment text, end exclusive
+
+export interface SearchHit {
+    fileId: string;
+    segmentIndex: number;
+    segment: TranscriptSegment;
+    ranges: TextRange[];           // Matched words, for highlighting
+    before: TranscriptSegment[];   // Context, oldest first
+    after: TranscriptSegment[];
+}
+
+export interface SearchResult {
+    hits: SearchHit[];
+    total: number;                 // Hits found, including those beyond the MAX_HITS shown
+    fileCount: number;
+}
+
+interface IndexedWord {
+    key: string;
+    start: number;
+    end: number;
+}
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+const normalizeWord = (word: string): string => word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const indexWords = (text: string): IndexedWord[] =>
+    Array.from(text.matchAll(WORD_REGEX), m => ({ key: normalizeWord(m[0]), start: m.index!, end: m.index! + m[0].length }));
+
+// --- Query parsing ---
+
+// A Map, so words like "constructor" are not taken for inherited object keys
+const OPERATORS = new Map<string, 'AND' | 'OR' | 'NOT'>([['AND', 'AND'], ['E', 'AND'], ['OR', 'OR'], ['OU', 'OR'], ['NOT', 'NOT'], ['NÃO', 'NOT'], ['NAO', 'NOT']]);
+
+type Token = { type: 'TERM'; text: string } | { type: 'AND' | 'OR' | 'NOT' | '(' | ')' };
+
+const tokenizeQuery = (query: string): Token[] => {
+    const tokens: Token[] = [];
+    for (const m of query.matchAll(/"([^"]*)"?|\(|\)|[^\s()"]+/g)) {
+        const raw = m[0];
+        if (raw.startsWith('"')) tokens.push({ type: 'TERM', text: m[1] });
+        else if (raw === '(' || raw === ')') tokens.push({ type: raw });
+        else if (OPERATORS.has(raw)) tokens.push({ type: OPERATORS.get(raw)! });  // Operators only in capitals: "e" and "ou" stay words
+        else if (raw.startsWith('-')) {
+            tokens.push({ type: 'NOT' });  // A lone "-" negates the phrase that follows it
+            if (raw.length > 1) tokens.push({ type: 'TERM', text: raw.slice(1) });
+        } else tokens.push({ type: 'TERM', text: raw });
+    }
+    return tokens;
+};
+
+const toTerm = (text: string): QueryNode | null => {
+    const words = Array.from(text.matchAll(WORD_REGEX), m => normalizeWord(m[0]));
+    return words.length > 0 ? { kind: 'TERM', words, prefix: text.trim().endsWith('*') } : null;
+};
+
+const hasPositiveTerm = (node: QueryNode): boolean => {
+    switch (node.kind) {
+        case 'TERM': return true;
+        case 'NOT': return false;
+        case 'AND': return node.children.some(hasPositiveTerm);
+        case 'OR': return node.children.every(hasPositiveTerm);
+    }
+};
+
+/**
+ * Parses a query; NOT binds tightest, then AND (also implied between terms), then OR.
+ * Throws with a message for the user when the query cannot be read or only excludes.
+ */
+export const parseSearchQuery = (query: string): QueryNode => {
+    const tokens = tokenizeQuery(query);
+    let pos = 0;
+
+    const parseOr = (): QueryNode => {
+        const children = [parseAnd()];
+        while (tokens[pos]?.type === 'OR') {
+            pos++;
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { kind: 'OR', children };
+    };
+
+    const parseAnd = (): QueryNode => {
+        const children = [parseUnary()];
+        while (pos < tokens.length && tokens[pos].type !== 'OR' && tokens[pos].type !== ')') {
+            if (tokens[pos].type === 'AND') pos++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { kind: 'AND', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+        const token = tokens[pos++];
+        if (!token) throw new Error("A pesquisa termina num operador sem termo.");
+        switch (token.type) {
+            case 'NOT': return { kind: 'NOT', child: parseUnary() };
+            case '(': {
+                const inner = parseOr();
+                if (tokens[pos]?.type !== ')') throw new Error("Falta fechar um parêntese.");
+                pos++;
+                return inner;
+            }
+            case 'TERM': {
+                const term = toTerm(token.text);
+                if (!term) throw new Error(`"${token.text}" não tem letras nem algarismos para pesquisar.`);
+                return term;
+            }
+            case ')': throw new Error("Parêntese fechado sem ter sido aberto.");
+            default: throw new Error("Falta um termo antes de um operador (E, OU).");
+        }
+    };
+
+    if (tokens.length === 0) throw new Error("Escreva o que pretende pesquisar.");
+    const root = parseOr();
+    if (pos < tokens.length) throw new Error("Parêntese fechado sem ter sido aberto.");
+    if (!hasPositiveTerm(root)) throw new Error("A pesquisa precisa de pelo menos um termo a encontrar, não só termos a excluir.");
+    return root;
+};
+
+// --- Matching ---
+
+const termRanges = (term: Extract<QueryNode, { kind: 'TERM' }>, words: IndexedWord[]): TextRange[] => {
+    const ranges: TextRange[] = [];
+    const last = term.words.length - 1;
+    for (let i = 0; i + last < words.length; i++) {
+        const matches = term.words.every((w, j) => j === last && term.prefix ? words[i + j].key.startsWith(w) : words[i + j].key === w);
+        if (matches) ranges.push([words[i].start, words[i + last].end]);
+    }
+    return ranges;
+};
+
+// Whether the words satisfy the query, and which of them to highlight
+const evaluate = (node: QueryNode, words: IndexedWord[]): TextRange[] | null => {
+    switch (node.kind) {
+        case 'TERM': {
+            const ranges = termRanges(node, words);
+            return ranges.length > 0 ? ranges : null;
+        }
+        case 'NOT': return evaluate(node.child, words) ? null : [];
+        case 'AND': {
+            const ranges: TextRange[] = [];
+            for (const child of node.children) {
+                const found = evaluate(child, words);
+                if (!found) return null;
+                ranges.push(...found);
+            }
+            return ranges;
+        }
+        case 'OR': {
+            const found = node.children.map(child => evaluate(child, words)).filter((r): r is TextRange[] => r !== null);
+            return found.length > 0 ? found.flat() : null;
+        }
+    }
+};
+
+// Sorted, overlapping ranges merged
+const mergeRanges = (ranges: TextRange[]): TextRange[] =>
+    [...ranges].sort((a, b) => a[0] - b[0]).reduce<TextRange[]>((merged, range) => {
+        const prev = merged[merged.length - 1];
+        if (prev && range[0] <= prev[1]) prev[1] = Math.max(prev[1], range[1]);
+        else merged.push([range[0], range[1]]);
+        return merged;
+    }, []);
+
+/**
+ * Runs a parsed query over every processed file that passes the filters. A segment belongs to a
+ * person when its speaker is linked to them or its file is; hits come in file and segment order.
+ */
+export const searchCase = (
+    query: QueryNode,
+    processedData: ProcessedContent[],
+    files: EvidenceFile[],
+    people: Person[],
+    filters: SearchFilters
+): SearchResult => {
+    const hits: SearchHit[] = [];
+    const matchedFiles = new Set<string>();
+    let total = 0;
+    const timeFiltered = filters.fromSeconds !== undefined || filters.toSeconds !== undefined;
+
+    processedData.forEach(content => {
+        const file = files.find(f => f.id === content.fileId);
+        if (!file) return;
+        if (filters.categories.length > 0 && !filters.categories.includes(file.category)) return;
+        if (filters.folders.length > 0 && !filters.folders.includes(file.folder || "")) return;
+        const speakerPeople = new Map(getSpeakerTable(content, people).map(e => [e.label, e.personId]));
+
+        content.segments.forEach((segment, segmentIndex) => {
+            if (filters.personIds.length > 0) {
+                const speakerPerson = segment.speaker ? speakerPeople.get(segment.speaker) : undefined;
+                const inFile = !!file.personId && filters.personIds.includes(file.personId);
+                if (!inFile && !(speakerPerson && filters.personIds.includes(speakerPerson))) return;
+            }
+            if (timeFiltered) {
+                const start = getAudioStart(segment.location);
+                if (start === null) return;
+                if (filters.fromSeconds !== undefined && start < filters.fromSeconds) return;
+                if (filters.toSeconds !== undefined && start > filters.toSeconds) return;
+            }
+            const ranges = evaluate(query, indexWords(segment.text));
+            if (!ranges) return;
+            total++;
+            matchedFiles.add(file.id);
+            if (hits.length >= MAX_HITS) return;
+            hits.push({
+                fileId: file.id,
+                segmentIndex,
+                segment,
+                ranges: mergeRanges(ranges),
+                before: content.segments.slice(Math.max(0, segmentIndex - CONTEXT_SEGMENTS), segmentIndex),
+                after: content.segments.slice(segmentIndex + 1, segmentIndex + 1 + CONTEXT_SEGMENTS)
+            });
+        });
+    });
+
+    return { hits, total, fileCount: matchedFiles.size };
+};
@@ -0,0 +1,141 @@
+import { Citation, CitationVerification, CitationVerificationStatus, EvidenceFile, EvidenceLocation, ProcessedContent } from "../types";
+import { CitationTag, resolveCitation, resolveCitationTag } from "./citations";
+import { formatLocation, getAudioStart } from "./evidenceLocation";
+
+// Checks that a cited position exists and that the quoted words are really said there:
+// VERIFIED when the cited segment (or the one after it) contains the quote, APPROXIMATE when
+// it is found nearby or there is no quote to compare, NOT_FOUND otherwise.
+
+const VERIFIED_COVERAGE = 0.8;
+const APPROXIMATE_COVERAGE = 0.5;
+const NEARBY_SECONDS = 30;   // Recordings: how far from the cited time a quote may be
+const NEARBY_SEGMENTS = 3;   // Documents: how many blocks around the cited one are searched
+const DURATION_TOLERANCE_SECONDS = 1;
+
+export const CITATION_VERIFICATION_LABELS: Record<CitationVerificationStatus, string> = {
+    VERIFIED: 'Verificada',
+    APPROXIMATE: 'Aproximada',
+    NOT_FOUND: 'Não encontrada',
+};
+
+const words = (text: string): string[] => text
+    .replace(/\*\*.*?\*\*/g, ' ') // Speaker labels are not part of what was said
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 2);
+
+// Fraction of the quote's words present in the text (order-insensitive, tolerant to punctuation and accents)
+const coverage = (quoteWords: string[], text: string): number => {
+    if (quoteWords.length === 0) return 0;
+    const available = new Set(words(text));
+    return quoteWords.filter(w => available.has(w)).length / quoteWords.length;
+};
+
+// Segments close enough to the cited position to hold a slightly misplaced quote
+const nearbySegmentIdxs = (source: ProcessedContent, anchorIdx: number): number[] => {
+    const anchorStart = getAudioStart(source.segments[anchorIdx].location);
+    return source.segments
+        .map((seg, idx) => ({ seg, idx }))
+        .filter(({ seg, idx }) => {
+            const start = getAudioStart(seg.location);
+            if (anchorStart !== null && start !== null) return Math.abs(start - anchorStart) <= NEARBY_SECONDS;
+            return Math.abs(idx - anchorIdx) <= NEARBY_SEGMENTS;
+        })
+        .map(({ idx }) => idx);
+};
+
+// Closest segment to a position that did not resolve exactly (same kind of location only)
+const nearestSegmentIdx = (source: ProcessedContent, location: EvidenceLocation): number => {
+    let best = -1;
+    let bestDistance = Infinity;
+    source.segments.forEach((seg, idx) => {
+        let distance = Infinity;
+        if (seg.location.kind === 'AUDIO_TIME' && location.kind === 'AUDIO_TIME') distance = Math.abs(seg.location.start - location.start);
+        if (seg.location.kind === 'PAGE' && location.kind === 'PAGE' && seg.location.page === location.page) distance = Math.abs((seg.location.paragraph || 1) - (location.paragraph || 1));
+        if (seg.location.kind === 'PARAGRAPH' && location.kind === 'PARAGRAPH') distance = Math.abs(seg.location.index - location.index);
+        if (distance < bestDistance) {
+            best = idx;
+            bestDistance = distance;
+        }
+    });
+    const isNear = location.kind === 'AUDIO_TIME' ? bestDistance <= NEARBY_SECONDS : bestDistance <= NEARBY_SEGMENTS;
+    return isNear ? best : -1;
+};
+
+const verifyAt = (
+    source: ProcessedContent,
+    anchorIdx: number,
+    exact: boolean,
+    quote: string | undefined,
+    location: EvidenceLocation,
+    duration: number | undefined
+): CitationVerification => {
+    const seconds = getAudioStart(location);
+    if (seconds !== null && duration !== undefined && seconds > duration + DURATION_TOLERANCE_SECONDS) {
+        return { status: 'NOT_FOUND', score: 0, note: `${formatLocation({ kind: 'AUDIO_TIME', start: seconds })} está para lá do fim da gravação (${formatLocation({ kind: 'AUDIO_TIME', start: duration })}).` };
+    }
+    if (anchorIdx === -1) {
+        return { status: 'NOT_FOUND', score: 0, note: `Não existe nenhum segmento em ${formatLocation(location)} na transcrição.` };
+    }
+
+    const quoteWords = quote ? words(quote) : [];
+    if (quoteWords.length === 0) {
+        return { status: 'APPROXIMATE', score: 0, note: exact ? "Posição confirmada, mas sem texto citado para comparar." : "Posição aproximada e sem texto citado para comparar." };
+    }
+
+    const cited = source.segments.slice(anchorIdx, anchorIdx + 2).map(s => s.text).join(' ');
+    const citedScore = coverage(quoteWords, cited);
+    if (exact && citedScore >= VERIFIED_COVERAGE) return { status: 'VERIFIED', score: citedScore };
+
+    let best = { score: citedScore, idx: anchorIdx };
+    nearbySegmentIdxs(source, anchorIdx).forEach(idx => {
+        const score = coverage(quoteWords, source.segments.slice(idx, idx + 2).map(s => s.text).join(' '));
+        if (score > best.score) best = { score, idx };
+    });
+
+    if (best.score >= APPROXIMATE_COVERAGE) {
+        const foundAt = source.segments[best.idx];
+        return {
+            status: 'APPROXIMATE',
+            score: best.score,
+            note: best.idx === anchorIdx
+                ? `Só ${Math.round(best.score * 100)}% das palavras citadas coincidem com a transcrição.`
+                : `Texto encontrado perto da posição citada, em ${formatLocation(foundAt.location)}.`
+        };
+    }
+    return { status: 'NOT_FOUND', score: best.score, note: "As palavras citadas não aparecem na transcrição perto desta posição." };
+};
+
+const durationOf = (fileId: string, files: EvidenceFile[]): number | undefined => files.find(f => f.id === fileId)?.duration;
+
+/**
+ * Verification of a report citation against the current transcript. Never stored: corrections,
+ * splits, merges and imported transcripts change what a citation points at.
+ */
+export const verifyCitation = (citation: Citation, processedData: ProcessedContent[], files: EvidenceFile[]): CitationVerification => {
+    const resolved = resolveCitation(citation, processedData);
+    if (resolved) {
+        return verifyAt(resolved.source, resolved.segmentIdx, true, citation.quote, resolved.segment.location, durationOf(citation.fileId, files));
+    }
+    const source = processedData.find(d => d.fileId === citation.fileId);
+    if (!source) return { status: 'NOT_FOUND', score: 0, note: "O ficheiro citado não tem transcrição." };
+    return verifyAt(source, nearestSegmentIdx(source, citation.location), false, citation.quote, citation.location, durationOf(citation.fileId, files));
+};
+
+/**
+ * Verification of an inline chat citation; `quote` is the quoted text written just before the tag.
+ */
+export const verifyCitationTag = (tag: CitationTag, quote: string | undefined, processedData: ProcessedContent[], files: EvidenceFile[]): CitationVerification => {
+    const resolved = resolveCitationTag(tag, processedData);
+    if (!resolved) return { status: 'NOT_FOUND', score: 0, note: "A citação não corresponde a nenhum segmento das evidências processadas." };
+    return verifyAt(resolved.source, resolved.segmentIdx, true, quote, resolved.segment.location, durationOf(resolved.source.fileId, files));
+};
+
+/**
+ * Quoted words ("...", “...” or «...») that end right before a citation tag, if any.
+ */
+export const quoteBeforeTag = (precedingText: string): string | undefined => {
+    const match = precedingText.match(/["“«]([^"“”«»]{3,})["”»]\s*[.,;:]?\s*$/);
+    return match ? match[1].trim() : undefined;
+};
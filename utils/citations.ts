@@ -0,0 +1,150 @@
+import { AnalysisReport, ChatMessage, Citation, EvidenceLocation, ProcessedContent, TranscriptSegment } from "../types";
+import { parseSegmentRef } from "./retrieval";
+import { getAudioStart } from "./evidenceLocation";
+
+// Citations point at a file ID plus a segment ID. Rendering and exports resolve them only
+// through those IDs (or an exact position for data saved before segments had IDs); anything
+// else is shown as unverified instead of being guessed from the file name.
+
+export const createSegmentId = (): string => `seg_${Math.random().toString(36).substr(2, 9)}`;
+
+export interface ResolvedCitation {
+    source: ProcessedContent;
+    segment: TranscriptSegment;
+    segmentIdx: number;
+}
+
+// "1:05" and "01:05" (or "Pág 02" and "Pág 2") name the same position
+const normalizePosition = (timestamp: string): string => timestamp.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\b0+(\d)/g, '$1');
+
+const resolveInSource = (source: ProcessedContent, segmentId?: string, timestamp?: string): ResolvedCitation | null => {
+    let segmentIdx = -1;
+    if (segmentId) {
+        // A segment merged into another during correction is answered for by the merged one
+        segmentIdx = source.segments.findIndex(s => s.id === segmentId || !!s.aliasIds?.includes(segmentId));
+    } else if (timestamp) {
+        // Legacy citations (no segment ID): only an exact position in the same file counts
+        const position = normalizePosition(timestamp);
+        segmentIdx = source.segments.findIndex(s => normalizePosition(s.timestamp) === position);
+    }
+    return segmentIdx === -1 ? null : { source, segment: source.segments[segmentIdx], segmentIdx };
+};
+
+/**
+ * Segment a report citation points at, or null when it cannot be verified.
+ */
+export const resolveCitation = (citation: Pick<Citation, 'fileId' | 'segmentId' | 'timestamp'>, processedData: ProcessedContent[]): ResolvedCitation | null => {
+    const source = processedData.find(d => d.fileId === citation.fileId);
+    return source ? resolveInSource(source, citation.segmentId, citation.timestamp) : null;
+};
+
+// --- INLINE CITATION TAGS (chat answers and report lines) ---
+// "[Nome.mp3 @ 01:23 #fileId/segmentId]" once anchored; models write "[Nome.mp3 @ 01:23 #F1-S3]".
+
+export interface CitationTag {
+    fileName: string;
+    timestamp: string;
+    fileId?: string;
+    segmentId?: string;
+    segmentRef?: string; // Positional prompt ID, before anchoring
+}
+
+export const CITATION_TAG_REGEX = /\[[^\[\]@]+?@[^\[\]]+?\]/g;
+
+export const parseCitationTag = (tag: string): CitationTag | null => {
+    const match = tag.trim().match(/^\[([^\[\]@]+?)\s*@\s*([^\[\]#]+?)\s*(?:#\s*([^\[\]\s]+)\s*)?\]$/);
+    if (!match) return null;
+    const parsed: CitationTag = { fileName: match[1].trim(), timestamp: match[2].trim() };
+    const anchor = match[3];
+    if (anchor && anchor.includes('/')) {
+        const [fileId, segmentId] = anchor.split('/');
+        parsed.fileId = fileId;
+        parsed.segmentId = segmentId;
+    } else if (anchor) {
+        parsed.segmentRef = anchor;
+    }
+    return parsed;
+};
+
+export const formatCitationTag = (tag: Pick<CitationTag, 'fileName' | 'timestamp' | 'fileId' | 'segmentId'>): string => {
+    const anchor = tag.fileId && tag.segmentId ? ` #${tag.fileId}/${tag.segmentId}` : '';
+    return `[${tag.fileName} @ ${tag.timestamp}${anchor}]`;
+};
+
+/**
+ * Segment an inline tag points at, or null when it cannot be verified. Tags without an anchor
+ * (chats saved before segment IDs) resolve only on an exact file name and timestamp.
+ */
+export const resolveCitationTag = (tag: CitationTag, processedData: ProcessedContent[]): ResolvedCitation | null => {
+    if (tag.fileId && tag.segmentId) {
+        return resolveCitation({ fileId: tag.fileId, segmentId: tag.segmentId, timestamp: tag.timestamp }, processedData);
+    }
+    const name = tag.fileName.toLowerCase();
+    const source = processedData.find(d => d.fileName.trim().toLowerCase() === name);
+    return source ? resolveInSource(source, undefined, tag.timestamp.split(',')[0]) : null;
+};
+
+/**
+ * Replaces the positional segment IDs a model used in its answer ("#F1-S3", only meaningful for
+ * the processedData it was given) with stable file/segment IDs. Unknown IDs are removed, leaving
+ * an unanchored tag that only resolves on an exact file name and timestamp.
+ */
+export const anchorChatCitations = (text: string, processedData: ProcessedContent[]): string => {
+    return text.replace(CITATION_TAG_REGEX, raw => {
+        const tag = parseCitationTag(raw);
+        if (!tag || !tag.segmentRef) return raw;
+        const ref = parseSegmentRef(tag.segmentRef);
+        const source = ref ? processedData[ref.fileIdx] : undefined;
+        const segment = ref && source ? source.segments[ref.segmentIdx] : undefined;
+        if (!source || !segment) return formatCitationTag(tag);
+        return formatCitationTag({ fileName: source.fileName, timestamp: segment.timestamp, fileId: source.fileId, segmentId: segment.id });
+    });
+};
+
+/**
+ * Plain "[Nome.mp3 @ 01:23]" tags, e.g. for chat history sent back to a model or exported text.
+ */
+export const stripCitationAnchors = (text: string): string => {
+    return text.replace(CITATION_TAG_REGEX, raw => {
+        const tag = parseCitationTag(raw);
+        return tag ? formatCitationTag({ fileName: tag.fileName, timestamp: tag.timestamp }) : raw;
+    });
+};
+
+// --- CITATION MARKERS (viewer timeline) ---
+
+export interface CitationMarker {
+    origin: 'REPORT' | 'CHAT';
+    location: EvidenceLocation; // Cited segment's position, or the recorded one when it no longer resolves
+    resolved: boolean;
+    label: string;              // Where the citation was made, e.g. report name and fact
+}
+
+/**
+ * Every citation of saved reports and chat answers that points at a recording, located in time.
+ * Citations that no longer resolve keep their recorded position and are flagged.
+ */
+export const getFileCitationMarkers = (
+    fileId: string,
+    reports: AnalysisReport[],
+    chatHistory: ChatMessage[],
+    processedData: ProcessedContent[]
+): CitationMarker[] => {
+    const markers: CitationMarker[] = [];
+    reports.forEach(report => report.results.forEach(result => result.citations.forEach(citation => {
+        if (citation.fileId !== fileId) return;
+        const resolved = resolveCitation(citation, processedData);
+        const location = resolved ? resolved.segment.location : citation.location;
+        if (getAudioStart(location) === null) return;
+        markers.push({ origin: 'REPORT', location, resolved: !!resolved, label: `${report.name} — ${result.factText}` });
+    })));
+    chatHistory.filter(msg => msg.role === 'model').forEach(msg => {
+        (msg.text.match(CITATION_TAG_REGEX) || []).forEach(raw => {
+            const tag = parseCitationTag(raw);
+            const resolved = tag ? resolveCitationTag(tag, processedData) : null;
+            if (!resolved || resolved.source.fileId !== fileId || getAudioStart(resolved.segment.location) === null) return;
+            markers.push({ origin: 'CHAT', location: resolved.segment.location, resolved: true, label: `Chat — ${new Date(msg.timestamp).toLocaleString('pt-PT')}` });
+        });
+    });
+    return markers;
+};
@@ -52,6 +52,7 @@ export const generateDocumentation = () => {
             <a href="#analysis">3.5 Relatórios Forenses</a>
             <a href="#chat">3.6 Assistente IA (Chatbot)</a>
             <a href="#viewer">3.7 Visualizador de Evidências</a>
+            <a href="#search">3.8 Pesquisa no Processo</a>
         </div>
         <a href="#technical">4. Documentação Técnica</a>
         <div style="padding-left: 20px;">
@@ -78,6 +79,8 @@ export const generateDocumentation = () => {
       <h3>2.2 A Segurança do Browser e a Persistência</h3>
       <p>Os navegadores web modernos não permitem que um site guarde o caminho dos ficheiros do computador do utilizador por razões de segurança. Isso criava um problema: ao guardar um projeto e voltar no dia seguinte, os áudios deixavam de tocar.</p>
       <p><strong>Solução (Ficheiros Virtuais):</strong> Criou-se o conceito de "Ficheiro Virtual". Quando um projeto é carregado, o sistema restaura toda a inteligência (transcrições, análises), mas marca o ficheiro como "Virtual". O utilizador é então convidado a arrastar novamente os ficheiros originais para "re-hidratar" a ligação, restaurando o áudio sem perder o trabalho feito.</p>
+      <p><strong>Solução (Gravação Automática):</strong> O projeto, as transcrições e os ficheiros originais são guardados automaticamente no armazenamento local do browser (IndexedDB). Ao reabrir a aplicação, a última sessão é restaurada sem ficheiros virtuais, e as sessões anteriores podem ser reabertas ou apagadas a partir do ecrã inicial.</p>
+      <p><strong>Solução (Caso Completo .veritas):</strong> Para partilhar um caso entre colegas, o botão <em>Caso &gt; Exportar</em> gera um único ficheiro <code>.veritas</code> (ZIP) com o projeto, a base de dados, os ficheiros originais e um manifesto com somas SHA-256. Ao abri-lo, todo o caso é restaurado num só passo.</p>
 
       <h3>2.3 Interface Visual: "A Barra de Áudio"</h3>
       <p>No chat, respostas com muitas citações tornavam-se ilegíveis. O utilizador queria ver claramente de que ficheiro vinha a informação e ter acesso rápido aos vários momentos em que o assunto foi falado.</p>
@@ -101,13 +104,17 @@ export const generateDocumentation = () => {
       </ul>
       <div class="image-placeholder">[IMAGEM: Grelha de Upload com as 3 categorias]</div>
       <p><strong>Funcionalidade Drag & Drop:</strong> Pode arrastar pastas inteiras do seu computador. A aplicação deteta a estrutura e organiza os ficheiros em "acordeões" (pastas expansíveis) para manter a interface limpa.</p>
+      <p><strong>Transcrições existentes:</strong> O botão <strong>"Texto"</strong> dos Depoimentos aceita texto colado ou um ficheiro de legendas ou transcrição (SRT, WebVTT, texto com tempos, JSON do Veritas ou do Whisper, exportações de Otter, Rev e semelhantes). Escolha "Associar a" uma gravação já carregada para usar uma transcrição oficial sem a reprocessar: fica sincronizada com o áudio e os interlocutores mantêm-se.</p>
 
       <h3 id="processing">3.3 Processamento com IA</h3>
       <p>Após carregar os ficheiros, clique no botão <strong>"Processar Tudo"</strong> ou nos botões individuais de "Play" em cada pasta. O sistema enviará os ficheiros para o Gemini para transcrição e extração de texto.</p>
+      <p>Gravações longas (mais de 15 minutos) são divididas localmente em partes de 5 minutos com 15 segundos de sobreposição. Cada parte é transcrita e repetida automaticamente em caso de falha; o cartão do ficheiro mostra o progresso ("parte X/Y"). No fim, as partes são unidas com os carimbos de tempo corrigidos e as frases repetidas na sobreposição são eliminadas. Se o processamento for interrompido, as partes já concluídas são reaproveitadas na tentativa seguinte.</p>
+      <p>Os PDFs são lidos primeiro no próprio browser: o texto das páginas criadas digitalmente sai tal como está no documento, página a página, sem gastar quota. Só as páginas digitalizadas (sem camada de texto) são enviadas à IA para OCR; o visualizador indica quais foram.</p>
       <div class="note">Nota: Se exceder a quota da Google, aparecerá um aviso amigável sugerindo uma pausa de 1 minuto.</div>
 
       <h3 id="people">3.4 Gestão de Pessoas</h3>
       <p>Pode adicionar pessoas manualmente ou usar a IA para as detetar. No Chat, quando pergunta "Quem participou?", a IA devolve uma lista e um botão <strong>"Adicionar à Lista"</strong> aparece. O sistema tenta associar automaticamente essas pessoas aos ficheiros de áudio correspondentes.</p>
+      <p>Em <strong>Interlocutores nas Gravações</strong>, cada voz identificada numa transcrição pode ser associada a uma pessoa (também no visualizador). Selecione vozes de gravações diferentes e use <strong>"Juntar selecionados"</strong> para indicar que são a mesma pessoa. Relatórios, chat e exportações atribuem as falas às pessoas associadas.</p>
 
       <h3 id="analysis">3.5 Relatórios Forenses</h3>
       <p>No separador <strong>RELATÓRIO</strong>, defina os "Factos a Provar" na aba de Dados e clique em "Gerar Relatório".</p>
@@ -118,23 +125,40 @@ export const generateDocumentation = () => {
         <li>Resumo contextual (para documentos).</li>
         <li>Citações literais (para áudios) com botões de "Play".</li>
       </ul>
-      <p>Pode editar o relatório, renomeá-lo e exportá-lo para Word.</p>
+      <p>Pode editar o relatório, renomeá-lo e exportá-lo para Word (<code>.docx</code>): o documento abre com um quadro resumo dos pareceres, numera os factos e indica a origem e a verificação de cada citação em nota de rodapé. Preencha o <strong>N.º do processo</strong> no cabeçalho da aplicação para que apareça no topo de todas as páginas.</p>
+      <p>O botão <strong>"Procurar Contradições entre Testemunhas"</strong> compara entre si os ficheiros da categoria Depoimentos (e as falas de pessoas diferentes dentro de cada um). Cada contradição indica o assunto, porque é que as declarações não podem ser ambas verdadeiras, e mostra as duas declarações lado a lado, cada uma com a pessoa que a fez e a citação verificada. Estes relatórios ficam guardados numa secção própria, <strong>Contradições</strong>, na lista de relatórios.</p>
+      <p>Para confrontar o que uma testemunha disse em inquérito com o que disse em julgamento, escolha a pessoa ao lado do botão <strong>"Auto vs. Depoimento"</strong>. Só aparecem pessoas com pelo menos um auto de inquirição (categoria Autos, associado à pessoa) e um depoimento (associado à pessoa, ou em que uma das vozes está associada a ela) já processados. O resultado alinha os temas das duas versões e assinala os <strong>acrescentos</strong> (só em julgamento), as <strong>omissões</strong> (só no auto) e as <strong>divergências</strong>, com a página do auto e o tempo da gravação lado a lado; os temas coincidentes ficam ocultos até marcar a opção correspondente. Use "Exportar Word" para obter o documento com o quadro resumo e as passagens citadas em nota de rodapé.</p>
 
       <h3 id="chat">3.6 Assistente IA (Chatbot)</h3>
       <p>Faça perguntas em linguagem natural (ex: "O arguido confessou?"). A resposta incluirá cartões de evidência.</p>
       <div class="image-placeholder">[IMAGEM: Resposta do Chat com Barra de Áudio e Botões]</div>
       <ul>
         <li>Clique nos botões de tempo para ouvir o áudio.</li>
-        <li>Clique no ícone de "Download" na mensagem para exportar essa conversa (incluindo os ficheiros originais num ZIP).</li>
+        <li>Clique no ícone de "Download" na mensagem para exportar essa conversa num ZIP. As gravações citadas são anexadas como excertos WAV de cada passagem citada (com a margem escolhida), e os documentos como ficheiros originais.</li>
+        <li>O ícone da tesoura junto a cada citação de gravação (no chat e nos relatórios) descarrega só esse excerto. No relatório, <strong>"Excertos Áudio"</strong> gera um ZIP com um excerto por citação e um índice com o facto que cada um suporta.</li>
       </ul>
 
       <h3 id="viewer">3.7 Visualizador de Evidências</h3>
       <p>Ao clicar num áudio, abre-se o Visualizador "Karaoke".</p>
       <div class="image-placeholder">[IMAGEM: Popup do Visualizador com Onda Sonora e Texto]</div>
       <ul>
-        <li><strong>Sincronização:</strong> O texto rola automaticamente conforme o áudio toca.</li>
+        <li><strong>Forma de Onda:</strong> A linha temporal mostra a forma de onda da gravação, com uma faixa colorida por interlocutor (os espaços sem cor são silêncios) e marcas para cada citação de relatórios (âmbar) e do chat (azul) que aponta para este ficheiro. Clique para saltar para esse momento; use a lupa para aproximar e a roda do rato para deslocar a vista.</li>
+        <li><strong>Reprodução:</strong> Escolha a velocidade (0,5× a 2×, mantendo o tom da voz), marque A e B para repetir um excerto em ciclo (ou repita o segmento em curso com <code>Alt+S</code>), e ao retomar depois de uma pausa o áudio recua automaticamente alguns segundos. Atalhos predefinidos: <code>Alt+K</code> reproduzir/pausar, <code>Alt+J</code>/<code>Alt+L</code> recuar/avançar 3s, <code>Alt+↓</code>/<code>Alt+↑</code> velocidade. Todos podem ser alterados no ícone do teclado e ficam guardados neste browser.</li>
+        <li><strong>Sincronização:</strong> O texto rola automaticamente conforme o áudio toca. A fala em curso é destacada palavra a palavra; nas pausas nada fica destacado. Clique numa palavra para ouvir a partir dela.</li>
         <li><strong>Pesquisa:</strong> Use a barra no topo para encontrar palavras. Use as setas para saltar entre resultados.</li>
+        <li><strong>Documento Original:</strong> Nos PDFs e imagens, o painel esquerdo mostra o próprio documento ao lado do texto extraído. Clique num segmento para ir à sua página, com a passagem destacada a amarelo; ao abrir uma citação "Pág X" de um relatório ou do chat, o visualizador abre nessa página com o trecho citado destacado. Em páginas digitalizadas (OCR) não há camada de texto onde procurar, pelo que só a página é mostrada. Use a lupa para ampliar.</li>
         <li><strong>Abrir Original:</strong> Clique no botão no canto superior direito para abrir o ficheiro original numa nova aba.</li>
+        <li><strong>Exportar Transcrição:</strong> Descarrega a transcrição como legendas SRT ou WebVTT (só gravações), texto com tempos ou JSON. As legendas e o texto indicam o nome da pessoa associada a cada interlocutor.</li>
+        <li><strong>Correções:</strong> Em "Editar", cada segmento pode ser corrigido (texto, interlocutor, tempo ou página), dividido na posição do cursor ou junto com o seguinte. "Desfazer" anula a última correção. Os segmentos corrigidos mostram o selo "Corrigido" com o texto original da IA, e o painel "Correções" lista todas as alterações.</li>
+      </ul>
+      <a href="#top" class="back-link">Voltar ao Topo</a>
+
+      <h3 id="search">3.8 Pesquisa no Processo</h3>
+      <p>O separador "Pesquisa" procura em todas as transcrições e documentos processados ao mesmo tempo. Maiúsculas e acentos são ignorados ("inquiricao" encontra "inquirição") e a pesquisa é por palavras inteiras.</p>
+      <ul>
+        <li><strong>Sintaxe:</strong> Palavras separadas por espaço têm de aparecer todas no mesmo segmento. Use aspas para uma frase exata (<code>"carro azul"</code>), <code>*</code> no fim para um prefixo (<code>testemunh*</code>), <code>OU</code>/<code>OR</code> para alternativas, <code>NÃO</code>/<code>NOT</code> ou <code>-palavra</code> para excluir e parênteses para agrupar. Os operadores só contam em maiúsculas, para que "e" e "ou" continuem a ser palavras.</li>
+        <li><strong>Filtros:</strong> Pessoa (os ficheiros associados à pessoa e as falas dos interlocutores ligados a ela noutros ficheiros), categoria, pasta e intervalo de tempo da gravação. Com um intervalo de tempo, os documentos ficam de fora.</li>
+        <li><strong>Resultados:</strong> Agrupados por ficheiro, com o segmento anterior e o seguinte como contexto e as palavras encontradas destacadas. "Ouvir" reproduz a gravação a partir do segmento; "Abrir" mostra o documento nessa página. São mostrados até 500 resultados.</li>
       </ul>
       <a href="#top" class="back-link">Voltar ao Topo</a>
 
@@ -147,7 +171,7 @@ export const generateDocumentation = () => {
         <li><span class="tech-tag">Linguagem</span> TypeScript (Tipagem estrita para robustez)</li>
         <li><span class="tech-tag">Estilos</span> Tailwind CSS (Design responsivo e Dark Mode)</li>
         <li><span class="tech-tag">AI SDK</span> @google/genai (Gemini 2.5 Flash)</li>
-        <li><span class="tech-tag">Utilitários</span> JSZip (Compressão), Lucide-React (Ícones)</li>
+        <li><span class="tech-tag">Utilitários</span> JSZip (Compressão), pdf.js (Leitura de PDFs), Lucide-React (Ícones)</li>
       </ul>
 
       <h3 id="file-structure">4.2 Estrutura de Ficheiros</h3>
@@ -157,26 +181,110 @@ export const generateDocumentation = () => {
   ├── index.tsx            # React Root render
   ├── types.ts             # Definições de Tipos (EvidenceFile, ProjectState)
   ├── App.tsx              # Lógica Principal, Router, Gestão de Estado
+  ├── fixtures/
+  │   └── mockTranscripts.ts # Transcrições de exemplo do modo offline
   ├── services/
-  │   └── geminiService.ts # Comunicação com API, Prompts, Sanitização Regex
+  │   ├── aiProvider.ts    # Escolha do fornecedor de IA por projeto
+  │   ├── geminiService.ts # Comunicação com API, Prompts
+  │   ├── mockProvider.ts  # Fornecedor offline determinístico
+  │   └── responseParser.ts # Sanitização Regex e leitura das respostas
   ├── components/
   │   ├── AudioPlayer.tsx  # (Deprecado/Integrado no EvidenceViewer)
-  │   └── EvidenceViewer.tsx # Modal de visualização, Karaoke, Pesquisa
+  │   ├── CaseSearch.tsx   # Pesquisa em todas as evidências, com filtros e contexto
+  │   ├── DocumentPreview.tsx # Páginas do PDF e imagens com a passagem destacada
+  │   ├── PlaybackControls.tsx # Velocidade, ciclo A-B, recuo automático e atalhos
+  │   ├── EvidenceViewer.tsx # Modal de visualização, Karaoke, Pesquisa
+  │   └── WaveformTimeline.tsx # Forma de onda com regiões de interlocutor e citações
   └── utils/
+      ├── retrieval.ts     # Índice BM25 e seleção de evidências por orçamento
+      ├── caseSearch.ts    # Consultas com frases e operadores sobre todos os segmentos
+      ├── citations.ts     # Resolução de citações por ID de segmento
+      ├── evidenceLocation.ts # Localização tipada (tempo, página, imagem, parágrafo)
+      ├── citationVerification.ts # Verificação das citações contra a transcrição
+      ├── wordTiming.ts    # Fim de cada fala e alinhamento local de palavras
+      ├── transcriptEditing.ts # Correções manuais das transcrições e histórico
+      ├── speakers.ts      # Interlocutores por segmento e ligação a pessoas
+      ├── statementComparison.ts # Autos e depoimentos de cada pessoa, para os comparar
+      ├── waveform.ts      # Picos da forma de onda, descodificados localmente e em cache
+      ├── playbackSettings.ts # Preferências de reprodução e mapa de atalhos
+      ├── audioClips.ts    # Excertos WAV das passagens citadas
+      ├── docxWriter.ts    # Escrita de documentos Word (.docx) nativos
+      ├── transcriptFormats.ts # Exportação e importação de SRT, WebVTT, TXT e JSON
+      ├── pdfDocument.ts   # PDFs com pdf.js: camada de texto, imagens de página e localização de passagens
       ├── exportService.ts # Geração de Word, ZIP, JSON
       └── documentationGenerator.ts # (Este ficheiro) Gerador de Manual
       </pre>
 
       <h3 id="core-algorithms">4.3 Algoritmos Principais</h3>
       
-      <h4>Sanitização de Transcrição (geminiService.ts)</h4>
-      <p>A função <code>sanitizeTranscript</code> é crítica. Ela recebe o texto bruto da IA e aplica Regex para garantir que cada carimbo de tempo <code>[MM:SS]</code> força uma quebra de linha <code>\n</code>. Isto é essencial para o componente de visualização saber qual linha destacar em cada segundo.</p>
+      <h4>Fornecedores de IA (aiProvider.ts)</h4>
+      <p>Transcrição, extração de texto, análise e chat passam pela interface <code>AIProvider</code>. Cada projeto guarda o seu fornecedor (<code>providerId</code>), escolhido no cabeçalho. O fornecedor <strong>Offline (Demonstração)</strong> não usa a internet: devolve as transcrições de <code>fixtures/mockTranscripts.ts</code> e analisa os factos por correspondência de palavras, no mesmo formato de resposta do Gemini, o que permite demonstrar a aplicação em ambientes sem rede e testar a leitura das respostas sem gastar quota.</p>
+
+      <h4>Análise Estruturada (responseParser.ts)</h4>
+      <p>A análise de factos é pedida em modo JSON com um esquema de resposta (<code>ANALYSIS_RESPONSE_SCHEMA</code>). A função <code>parseStructuredAnalysis</code> valida a resposta em tempo de execução: estados desconhecidos passam a "Inconclusivo/Contraditório", entradas duplicadas ou de factos não pedidos e citações de ficheiros inexistentes são registadas como avisos, e os factos que a resposta não cobriu ficam listados no relatório como "Factos sem resposta", em vez de desaparecerem.</p>
+
+      <h4>Seleção de Evidências (retrieval.ts)</h4>
+      <p>Em vez de enviar todas as transcrições, a análise e o chat usam um índice lexical local (BM25) sobre os segmentos. Para cada facto, ou para a pergunta do chat, são escolhidos os segmentos mais relevantes (com uma linha de contexto antes e depois) até ao orçamento de tokens definido no projeto; se o caso inteiro couber no orçamento, é enviado completo. Com o Gemini é possível combinar a pesquisa por palavras com embeddings. Cada linha enviada leva um ID de segmento (ex.: <code>[F2-S14]</code>), que a análise devolve nas citações para as localizar exatamente.</p>
+
+      <h4>Ancoragem de Citações (citations.ts)</h4>
+      <p>Cada segmento de transcrição tem um identificador estável (<code>id</code>) e cada citação guarda o <code>fileId</code> e o <code>segmentId</code> do segmento citado. No chat, o modelo escreve <code>[Ficheiro.mp3 @ 01:23 #F1-S3]</code> e a função <code>anchorChatCitations</code> troca o ID posicional pelos identificadores estáveis. O relatório, o chat e as exportações resolvem as citações apenas por estes identificadores; ficheiros com nomes parecidos (ex.: "Depoimento 1.mp3" e "Depoimento 10.mp3") já não se confundem. Uma citação que não corresponda a nenhum segmento aparece como "não verificada". Dados anteriores aos identificadores só são aceites com nome de ficheiro e posição exatos.</p>
+
+      <h4>Verificação de Citações (citationVerification.ts)</h4>
+      <p>Cada citação da análise traz o excerto literal que o modelo diz sustentar o facto, e cada citação do chat é verificada com o texto entre aspas que a precede. A verificação confirma que a posição existe na transcrição e dentro da duração da gravação, e que as palavras citadas aparecem no segmento citado (ou no seguinte). O resultado é mostrado num selo no relatório, no chat e na exportação Word: <strong>Verificada</strong> (pelo menos 80% das palavras no segmento citado), <strong>Aproximada</strong> (encontrada perto da posição, correspondência parcial ou sem texto para comparar) ou <strong>Não encontrada</strong>. As citações não encontradas ficam também listadas nos avisos do relatório. O selo não é guardado: é recalculado sobre a transcrição atual, pelo que uma correção, divisão ou junção de segmentos, ou uma transcrição importada, se reflete logo nos relatórios (migração v19).</p>
+
+      <h4>Localização nas Evidências (evidenceLocation.ts)</h4>
+      <p>Segmentos e citações guardam uma localização tipada (<code>EvidenceLocation</code>) em vez de um número de segundos que, nos PDFs, era na verdade o número da página: intervalo de tempo para gravações, página e parágrafo para documentos paginados, região para imagens e número de bloco para texto sem páginas. Só as localizações de tempo fazem avançar o leitor de áudio; nos documentos, o visualizador destaca o excerto citado. Ao procurar uma citação pela posição, uma página nunca corresponde a um tempo. Bases de dados antigas são convertidas pela migração v9 a partir do rótulo de cada segmento e do tipo do ficheiro.</p>
+
+      <h4>Tempos de Fala e de Palavra (wordTiming.ts)</h4>
+      <p>Cada fala de uma gravação tem início e fim (<code>[MM:SS-MM:SS]</code> na transcrição). Quando o modelo não indica o fim, este é estimado pelo ritmo de fala e nunca passa do início da fala seguinte, para que pausas longas não contem como fala. Depois da transcrição, um alinhamento local descodifica o áudio e reparte o tempo de cada fala pelas suas palavras, usando só os momentos com voz (energia do sinal). O visualizador destaca a fala ativa pelo seu intervalo (falas sobrepostas incluídas) e a palavra em curso; as citações e as exportações mostram o intervalo exato da fala citada. Bases de dados antigas recebem fins estimados pela migração v11.</p>
+
+      <h4>Correções de Transcrição (transcriptEditing.ts)</h4>
+      <p>As correções feitas no visualizador (texto, interlocutor, posição, divisão, junção e renomeação de interlocutores) nunca apagam o que a IA produziu: cada segmento corrigido guarda a versão original em <code>original</code>, e cada alteração fica registada em <code>corrections</code> com os segmentos antes e depois. Desfazer acrescenta uma entrada de anulação em vez de reescrever o histórico. Ao dividir, a primeira parte mantém o ID do segmento; ao juntar, o segmento resultante responde também pelas citações do segmento absorvido (<code>aliasIds</code>), para que nenhuma citação deixe de ser resolvida.</p>
+
+      <h4>Interlocutores (speakers.ts)</h4>
+      <p>Cada segmento guarda o interlocutor num campo próprio (<code>speaker</code>), separado do que foi dito. Cada transcrição tem uma tabela de interlocutores que liga os rótulos usados na transcrição ("Voz 1", "Juiz") às pessoas do caso; rótulos iguais ao nome de uma pessoa são ligados automaticamente. Antes da análise e do chat, as falas são atribuídas às pessoas ligadas (<code>attributeSpeakers</code>), pelo que o modelo vê quem disse cada coisa e não apenas a pessoa associada ao ficheiro. Juntar interlocutores de gravações diferentes liga-os todos à mesma pessoa (criada a partir do primeiro rótulo, se nenhum estiver ligado). Bases de dados antigas passam o rótulo "**Nome:**" do texto para o campo pela migração v13.</p>
+
+      <h4>Forma de Onda (waveform.ts)</h4>
+      <p>A linha temporal do visualizador descodifica o áudio localmente (Web Audio API, 8 kHz mono) e reduz-o a mínimos e máximos de 20 em 20 ms. Só estes picos ficam em memória, em cache por ficheiro (pelo hash SHA-256, quando existe), pelo que reabrir uma gravação não a volta a descodificar. As marcas de citação (<code>getFileCitationMarkers</code>) vêm dos relatórios guardados e das respostas do chat; citações que já não correspondem a nenhum segmento aparecem esbatidas na posição registada.</p>
+
+      <h4>Controlos de Reprodução (PlaybackControls.tsx, playbackSettings.ts)</h4>
+      <p>O visualizador e o leitor autónomo partilham o mesmo controlo (<code>usePlaybackControls</code>): velocidade com <code>preservesPitch</code>, ciclo A-B verificado a cada fotograma enquanto toca, recuo automático só quando se retoma no ponto onde se pausou (não depois de um salto) e atalhos de teclado ignorados enquanto se escreve num campo. As preferências pertencem a quem revê, não ao caso, e ficam no <code>localStorage</code>.</p>
+
+      <h4>Excertos Áudio (audioClips.ts)</h4>
+      <p>Em vez de anexar gravações inteiras, as exportações cortam cada passagem citada: a gravação é descodificada localmente (16 kHz mono), o intervalo do segmento citado é alargado pela margem configurada (predefinição 2s, guardada neste browser) e codificado em WAV. O nome do ficheiro indica a gravação, o intervalo e o facto ou pergunta que o excerto suporta (ex.: <code>Depoimento_01m23s-01m31s_O-arguido-estava-no-local.wav</code>). Cada gravação é descodificada uma só vez por exportação, e as citações que não puderam ser cortadas (original não carregado, posição fora da gravação) ficam listadas no <code>Indice.txt</code>.</p>
+
+      <h4>Documentos Word (docxWriter.ts)</h4>
+      <p>Relatórios e conversas são exportados em Office Open XML (<code>.docx</code>), montado com JSZip, em vez de HTML gravado como <code>.doc</code>. Os títulos usam os estilos de título do Word (e aparecem no painel de navegação), os factos são parágrafos numerados, o quadro resumo é uma tabela cuja linha de cabeçalho se repete em cada página, e a origem de cada citação (ficheiro, posição, interlocutor e resultado da verificação) vai para uma nota de rodapé. O cabeçalho de cada página leva o número do processo (<code>caseId</code>, guardado no projeto desde a migração v14) e o rodapé a numeração das páginas.</p>
+
+      <h4>Formatos de Transcrição (transcriptFormats.ts)</h4>
+      <p>Qualquer transcrição pode sair como SRT, WebVTT, texto com tempos (<code>[MM:SS-MM:SS] Nome: texto</code>) ou JSON no esquema <code>veritas-transcript</code> (versão 1): a lista de interlocutores com a pessoa associada e os segmentos com o ID, a localização tipada, o interlocutor, o texto e, nas gravações, os tempos de cada palavra. Na importação, o formato é deduzido da extensão ou do conteúdo, e os interlocutores são lidos das etiquetas de voz do WebVTT, dos prefixos "Nome:" e "[SPEAKER_00]", dos cabeçalhos de interlocutor do Otter e do Rev e do campo <code>speaker</code> do JSON do Whisper. Ao contrário das respostas da IA, uma transcrição importada não é filtrada (uma linha "inaudível" mantém-se). Associada a uma gravação, passa pelo mesmo alinhamento local de palavras que uma transcrição feita na aplicação; o JSON do Veritas mantém os IDs dos segmentos, pelo que as citações de uma transcrição reimportada continuam válidas.</p>
+
+      <h4>Extração Local de PDFs (pdfDocument.ts)</h4>
+      <p>Antes de chamar a IA, <code>processEvidenceFile</code> abre cada PDF com o pdf.js e lê a camada de texto de cada página: as linhas são agrupadas em parágrafos pelo espaçamento vertical e as palavras hifenizadas no fim da linha são reunidas, pelo que cada segmento fica com a página e o parágrafo exatos e o texto oficial não é parafraseado. Uma página com menos de 20 caracteres visíveis é considerada digitalizada: é desenhada como imagem (cerca de 144 dpi) e só essa página segue para o OCR do fornecedor. O campo <code>pageMethods</code> do conteúdo processado regista, por página, se o texto veio do PDF (<code>TEXT_LAYER</code>) ou da IA (<code>AI_OCR</code>); PDFs processados antes da migração v15 não o têm. Se o pdf.js não conseguir abrir o ficheiro (ex.: protegido por palavra-passe), o PDF inteiro segue para a IA como antes.</p>
+
+      <h4>Pré-visualização de Documentos (DocumentPreview.tsx)</h4>
+      <p>Cada página do PDF é primeiro um espaço vazio com as proporções da página; só é desenhada em <code>canvas</code> quando se aproxima do ecrã, e as que se afastam libertam o bitmap, para que autos com centenas de páginas não esgotem a memória. O destaque vem de <code>locatePdfPassage</code>: o texto do segmento e a camada de texto da página são reduzidos a letras e algarismos sem acentos (as quebras de linha e a hifenização diferem entre os dois), e cada troço da camada de texto abrangido pela passagem dá um retângulo em frações da página, o mesmo formato de <code>ImageRegion</code>. Passagens que continuam na página seguinte são encontradas pelo início. O foco segue o segmento selecionado ou, quando nenhum segmento corresponde, a página da citação.</p>
+
+      <h4>Pesquisa no Processo (caseSearch.ts)</h4>
+      <p>A consulta é lida por um analisador descendente recursivo em que <code>NÃO</code> tem a maior precedência, depois <code>E</code> (também implícito entre termos) e por fim <code>OU</code>; uma consulta só com exclusões é recusada, porque devolveria o processo inteiro. Cada termo é uma sequência de palavras normalizadas (NFD sem diacríticos, minúsculas), pelo que "pré-aviso" sem aspas já é procurado como frase. A avaliação devolve, além de sim/não, os intervalos de caracteres a destacar; os termos negados não destacam nada. Ao contrário da recuperação BM25 usada pelo chat, não há ordenação por relevância: todos os segmentos que satisfazem a consulta aparecem, pela ordem dos ficheiros e do texto.</p>
+
+      <h4>Contradições entre Testemunhas (responseParser.ts)</h4>
+      <p>A análise de factos avalia cada facto isoladamente, por isso duas testemunhas que se desmentem sobre um pormenor que não é facto a provar passam despercebidas. A análise de contradições recebe só os depoimentos, com as falas já atribuídas às pessoas, e usa os factos apenas para escolher os excertos quando o caso não cabe no orçamento. <code>parseContradictionAnalysis</code> só aceita contradições com exatamente duas declarações que se localizem em segmentos diferentes; cada declaração é atribuída ao interlocutor do segmento citado ou, na falta dele, à pessoa associada ao ficheiro, e não ao nome que o modelo indicou. O resultado é um <code>ContradictionReport</code>, guardado em <code>contradictionReports</code> (migração v16) ao lado dos relatórios de factos. No modo offline, são contradições os pares de falas de pessoas diferentes que partilham pelo menos metade das palavras e em que só uma tem negação.</p>
+
+      <h4>Auto de Inquirição vs. Depoimento (statementComparison.ts)</h4>
+      <p><code>getStatementSources</code> reúne os ficheiros de uma pessoa: os autos pela associação do ficheiro, os depoimentos também pelas vozes associadas a ela, porque uma sessão de julgamento raramente pertence a uma só testemunha. Os parágrafos do auto servem de consultas à seleção de evidências, pelo que de um depoimento longo só seguem as respostas relacionadas com o que a pessoa declarou antes. <code>parseStatementComparison</code> arruma cada citação pelo tipo do ficheiro onde foi localizada, e não pela lista em que o modelo a pôs; um tema cujo tipo não condiz com os lados citados (ex.: um acrescento que cita o auto) fica no relatório com um aviso, para ser confirmado nas fontes. Os relatórios ficam em <code>statementComparisons</code> (migração v17). No modo offline, cada parágrafo do auto é emparelhado com a resposta que mais palavras partilha: sem par é omissão, com par é coincidente ou, se só um lado tiver negação, divergência; as respostas que ficam por emparelhar são acrescentos.</p>
+
+      <h4>Reanálise Parcial (reportMerge.ts)</h4>
+      <p>Um relatório existente pode ser atualizado sem ser regenerado: o botão de cada facto reanalisa só esse facto, e "Reanalisar Alterados" envia apenas os factos novos ou cujo texto mudou desde a análise (<code>getChangedFacts</code>). A função <code>mergeFactReanalysis</code> substitui esses resultados no relatório, mantém o resultado anterior quando a reanálise não responde, troca os avisos de validação desses factos pelos da nova resposta (cada aviso guarda o facto a que se refere e o rótulo "Facto #N" é calculado pela ordem atual do relatório; migração v18), e acrescenta ao "Histórico de Reanálises" o estado anterior e o novo de cada facto.</p>
+
+      <h4>Sanitização de Transcrição (responseParser.ts)</h4>
+      <p>A função <code>sanitizeTranscript</code> é crítica. Ela recebe o texto bruto da IA e aplica Regex para garantir que cada carimbo de tempo <code>[MM:SS]</code> (ou intervalo <code>[MM:SS-MM:SS]</code>) força uma quebra de linha <code>\n</code>. Isto é essencial para o componente de visualização saber qual linha destacar em cada segundo.</p>
 
       <h4>Agrupamento de Citações (App.tsx)</h4>
       <p>A função <code>renderMessageContent</code> analisa a resposta do chat. Se detetar múltiplas linhas consecutivas referindo o mesmo ficheiro (ex: bullets <code>*</code> com carimbos), ela não as desenha separadamente. Em vez disso, agrupa-as num objeto e passa-as ao componente <code>CitationGroup</code>, que desenha a "Barra de Áudio".</p>
 
       <h4>Reidratação de Ficheiros (App.tsx)</h4>
-      <p>Ao carregar um JSON (<code>handleLoadProject</code>), os ficheiros vêm marcados como <code>isVirtual: true</code>. A função <code>addFiles</code> verifica se o nome do ficheiro novo corresponde a um virtual existente. Se sim, funde o objeto <code>File</code> real com os metadados existentes, restaurando a funcionalidade sem duplicar dados.</p>
+      <p>Ao carregar um JSON (<code>handleLoadProject</code>), os ficheiros vêm marcados como <code>isVirtual: true</code>. A função <code>addFiles</code> calcula o SHA-256 de cada ficheiro largado e compara-o com o manifesto (<code>planRehydration</code>). Se o conteúdo coincidir, funde o objeto <code>File</code> real com os metadados existentes, restaurando a funcionalidade sem duplicar dados. Ficheiros renomeados ou largados na categoria errada são propostos num diálogo de reconciliação, e um ficheiro com o mesmo nome mas conteúdo diferente do que foi transcrito gera um aviso.</p>
 
       <hr />
       <p style="text-align: center; font-size: 0.8em; color: #999;">Documentação gerada automaticamente pelo Veritas Audio Analyst V2.</p>
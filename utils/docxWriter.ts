@@ -0,0 +1,203 @@
+import JSZip from "jszip";
+
+// Minimal Office Open XML (.docx) writer: headings, paragraphs, numbered and bulleted lists,
+// tables, footnotes and a page header/footer. Only what the exports need, built with JSZip so
+// Word opens the result natively instead of converting HTML.
+
+export interface DocxRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    color?: string;     // Hex without "#", e.g. "166534"
+    footnote?: string;  // Footnote attached right after this run
+}
+
+export type DocxBlock =
+    | { type: 'heading'; level: 1 | 2 | 3; text: string }
+    | { type: 'paragraph'; runs: DocxRun[]; style?: 'Quote' | 'Subtle' }
+    | { type: 'numbered'; runs: DocxRun[] }  // One numbering sequence per document ("1.", "2.", ...)
+    | { type: 'bullet'; runs: DocxRun[] }
+    | { type: 'table'; header: string[]; rows: DocxRun[][][]; widths?: number[] }; // widths in % of the page
+
+export interface DocxDocument {
+    title: string;
+    header: string;     // Repeated at the top of every page (case identifier)
+    blocks: DocxBlock[];
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const NUMBERED_LIST_ID = 1;
+const BULLET_LIST_ID = 2;
+
+const escapeXml = (text: string): string => text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const textRun = (text: string, props: string = ''): string =>
+    `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const runProps = (run: DocxRun): string =>
+    `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}${run.color ? `<w:color w:val="${run.color}"/>` : ''}`;
+
+// Builds the body while collecting footnotes, which live in their own part
+class DocxBody {
+    footnotes: string[] = [];
+
+    runs(runs: DocxRun[]): string {
+        return runs.map(run => {
+            let xml = run.text ? textRun(run.text, runProps(run)) : '';
+            if (run.footnote) {
+                this.footnotes.push(run.footnote);
+                const id = this.footnotes.length; // 0 and -1 are the separators
+                xml += `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+            }
+            return xml;
+        }).join('');
+    }
+
+    paragraph(runs: DocxRun[], pPr: string = ''): string {
+        return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${this.runs(runs)}</w:p>`;
+    }
+
+    table(block: Extract<DocxBlock, { type: 'table' }>): string {
+        const widths = block.widths || block.header.map(() => Math.floor(100 / block.header.length));
+        const cell = (content: string, idx: number, shaded: boolean) =>
+            `<w:tc><w:tcPr><w:tcW w:w="${widths[idx] * 50}" w:type="pct"/>${shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="E2E8F0"/>' : ''}</w:tcPr>${content}</w:tc>`;
+        const headerRow = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${block.header.map((h, i) => cell(this.paragraph([{ text: h, bold: true }]), i, true)).join('')}</w:tr>`;
+        const rows = block.rows.map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((runs, i) => cell(this.paragraph(runs), i, false)).join('')}</w:tr>`).join('');
+        return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+            `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${Math.round(w * 90)}"/>`).join('')}</w:tblGrid>${headerRow}${rows}</w:tbl>` +
+            this.paragraph([]); // Word needs a paragraph between a table and what follows
+    }
+
+    block(block: DocxBlock): string {
+        switch (block.type) {
+            case 'heading': return this.paragraph([{ text: block.text }], `<w:pStyle w:val="Heading${block.level}"/>`);
+            case 'paragraph': return this.paragraph(block.runs, block.style ? `<w:pStyle w:val="${block.style}"/>` : '');
+            case 'numbered': return this.paragraph(block.runs, `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${NUMBERED_LIST_ID}"/></w:numPr>`);
+            case 'bullet': return this.paragraph(block.runs, `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_LIST_ID}"/></w:numPr>`);
+            case 'table': return this.table(block);
+        }
+    }
+}
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes" Target="footnotes.xml"/>
+<Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+<Relationship Id="rId6" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`;
+
+const SETTINGS = `${XML_HEADER}
+<w:settings ${W_NS}><w:defaultTabStop w:val="708"/><w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr></w:settings>`;
+
+const heading = (level: number, size: number, color: string) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${color}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `${XML_HEADER}
+<w:styles ${W_NS}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/><w:sz w:val="22"/><w:lang w:val="pt-PT"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="3B82F6"/></w:pBdr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="1E293B"/><w:sz w:val="40"/></w:rPr></w:style>
+${heading(1, 30, '1E293B')}
+${heading(2, 26, '334155')}
+${heading(3, 23, '475569')}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="CBD5E1"/></w:pBdr><w:ind w:left="567"/></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtle"><w:name w:val="Subtle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="64748B"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="2" w:color="CBD5E1"/></w:pBdr><w:jc w:val="right"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`).join('')}</w:tblBorders><w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const NUMBERING = `${XML_HEADER}
+<w:numbering ${W_NS}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr><w:rPr><w:b/></w:rPr></w:lvl></w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="${NUMBERED_LIST_ID}"><w:abstractNumId w:val="0"/></w:num>
+<w:num w:numId="${BULLET_LIST_ID}"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`;
+
+const footnotesXml = (footnotes: string[]): string => `${XML_HEADER}
+<w:footnotes ${W_NS}>
+<w:footnote w:type="separator" w:id="-1"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:separator/></w:r></w:p></w:footnote>
+<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>
+${footnotes.map((text, idx) => `<w:footnote w:id="${idx + 1}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr><w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>${textRun(` ${text}`)}</w:p></w:footnote>`).join('\n')}
+</w:footnotes>`;
+
+const headerXml = (text: string): string =>
+    `${XML_HEADER}\n<w:hdr ${W_NS}><w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr>${textRun(text)}</w:p></w:hdr>`;
+
+const field = (instruction: string): string =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+
+const FOOTER = `${XML_HEADER}
+<w:ftr ${W_NS}><w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr>${textRun('Página ')}${field('PAGE')}${textRun(' de ')}${field('NUMPAGES')}</w:p></w:ftr>`;
+
+const coreXml = (title: string): string => `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title><dc:creator>Veritas</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`;
+
+/**
+ * Packs a document as a .docx file (A4, 2.5 cm margins, header on every page, page numbers in the footer).
+ */
+export const buildDocx = async (doc: DocxDocument): Promise<Blob> => {
+    const body = new DocxBody();
+    const content = [
+        body.paragraph([{ text: doc.title }], '<w:pStyle w:val="Title"/>'),
+        ...doc.blocks.map(block => body.block(block))
+    ].join('');
+    const sectPr = '<w:sectPr><w:headerReference w:type="default" r:id="rId5"/><w:footerReference w:type="default" r:id="rId6"/>' +
+        '<w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1418" w:right="1418" w:bottom="1418" w:left="1418" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>';
+
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', CONTENT_TYPES);
+    zip.file('_rels/.rels', PACKAGE_RELS);
+    zip.file('docProps/core.xml', coreXml(doc.title));
+    zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS);
+    zip.file('word/document.xml', `${XML_HEADER}\n<w:document ${W_NS}><w:body>${content}${sectPr}</w:body></w:document>`);
+    zip.file('word/styles.xml', STYLES);
+    zip.file('word/settings.xml', SETTINGS);
+    zip.file('word/numbering.xml', NUMBERING);
+    zip.file('word/footnotes.xml', footnotesXml(body.footnotes));
+    zip.file('word/header1.xml', headerXml(doc.header));
+    zip.file('word/footer1.xml', FOOTER);
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
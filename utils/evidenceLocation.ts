@@ -0,0 +1,104 @@
+import { EvidenceLocation, EvidenceType } from "../types";
+import { formatTimestamp } from "./transcriptStitching";
+
+// Helpers for EvidenceLocation: a position is a time only for recordings, a page (and
+// paragraph) for paginated documents, a region for images and a block index for plain text.
+
+export const audioTime = (start: number, end?: number): EvidenceLocation =>
+    end === undefined ? { kind: 'AUDIO_TIME', start } : { kind: 'AUDIO_TIME', start, end };
+
+export const pageParagraph = (page: number, paragraph?: number): EvidenceLocation =>
+    paragraph === undefined ? { kind: 'PAGE', page } : { kind: 'PAGE', page, paragraph };
+
+export const paragraphIndex = (index: number): EvidenceLocation => ({ kind: 'PARAGRAPH', index });
+
+export const wholeImage = (): EvidenceLocation => ({ kind: 'IMAGE_REGION' });
+
+/**
+ * Playback position of a location, or null when it is not a point in a recording.
+ */
+export const getAudioStart = (location: EvidenceLocation): number | null => location.kind === 'AUDIO_TIME' ? location.start : null;
+
+/**
+ * End of a recording passage, or null when it is not a time or its end is unknown.
+ */
+export const getAudioEnd = (location: EvidenceLocation): number | null => location.kind === 'AUDIO_TIME' && location.end !== undefined ? location.end : null;
+
+/**
+ * Reader-facing label, e.g. "01:23", "01:23–01:31", "Pág 2, § 3", "Parte 4", "Imagem".
+ */
+export const formatLocation = (location: EvidenceLocation): string => {
+    switch (location.kind) {
+        case 'AUDIO_TIME': return location.end !== undefined ? `${formatTimestamp(location.start)}–${formatTimestamp(location.end)}` : formatTimestamp(location.start);
+        case 'PAGE': return location.paragraph !== undefined ? `Pág ${location.page}, § ${location.paragraph}` : `Pág ${location.page}`;
+        case 'PARAGRAPH': return `Parte ${location.index}`;
+        case 'IMAGE_REGION': return location.region ? 'Imagem (região)' : 'Imagem';
+    }
+};
+
+const TIME_LABEL = /^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})$/;
+
+const parseTimeLabel = (label: string): number | null => {
+    const time = label.trim().match(TIME_LABEL);
+    return time ? (time[1] ? parseInt(time[1]) * 3600 : 0) + parseInt(time[2]) * 60 + parseInt(time[3]) : null;
+};
+
+/**
+ * Reads a location back from a label a model (or an older file) used: "01:23", "1:02:03",
+ * "01:23–01:31", "Pág 2", "Page 2", "Pág 2, § 3", "Parte 4", "Imagem". Null when the label is not recognised.
+ */
+export const parseLocationLabel = (label: string): EvidenceLocation | null => {
+    const text = label.trim();
+    const [from, to, ...rest] = text.split(/\s*[-–]\s*/);
+    const start = rest.length === 0 ? parseTimeLabel(from) : null;
+    if (start !== null) {
+        const end = to !== undefined ? parseTimeLabel(to) : null;
+        if (to !== undefined && end === null) return null;
+        return audioTime(start, end !== null && end > start ? end : undefined);
+    }
+    const page = text.match(/^(?:P[áa]g(?:ina)?\.?|Page)\s*(\d+)(?:\s*,\s*§\s*(\d+))?$/i);
+    if (page) return pageParagraph(parseInt(page[1]), page[2] ? parseInt(page[2]) : undefined);
+    const part = text.match(/^(?:Parte|§)\s*(\d+)$/i);
+    if (part) return paragraphIndex(parseInt(part[1]));
+    if (/^imagem/i.test(text)) return wholeImage();
+    return null;
+};
+
+/**
+ * Whether a segment at `location` is what `target` points at. Kinds never match each other,
+ * so a page number is never taken for a time; a page without paragraph matches any of its paragraphs.
+ */
+export const locationMatches = (location: EvidenceLocation, target: EvidenceLocation): boolean => {
+    switch (target.kind) {
+        case 'AUDIO_TIME': return location.kind === 'AUDIO_TIME' && location.start === target.start;
+        case 'PAGE': return location.kind === 'PAGE' && location.page === target.page && (target.paragraph === undefined || location.paragraph === target.paragraph);
+        case 'PARAGRAPH': return location.kind === 'PARAGRAPH' && location.index === target.index;
+        case 'IMAGE_REGION': return location.kind === 'IMAGE_REGION';
+    }
+};
+
+// Single number that orders locations of the same kind
+const sortKey = (location: EvidenceLocation): number => {
+    switch (location.kind) {
+        case 'AUDIO_TIME': return location.start;
+        case 'PAGE': return location.page * 10000 + (location.paragraph || 0);
+        case 'PARAGRAPH': return location.index;
+        case 'IMAGE_REGION': return location.region ? location.region.y * 10000 + location.region.x : 0;
+    }
+};
+
+export const compareLocations = (a: EvidenceLocation, b: EvidenceLocation): number => {
+    if (a.kind !== b.kind) return a.kind.localeCompare(b.kind);
+    return sortKey(a) - sortKey(b);
+};
+
+/**
+ * Location of a segment stored before locations existed, from its label and the old `seconds`
+ * (time for recordings, page or block index otherwise).
+ */
+export const legacyLocation = (timestamp: string, seconds: number, fileType?: EvidenceType): EvidenceLocation => {
+    if (fileType === 'IMAGE') return wholeImage();
+    const parsed = parseLocationLabel(timestamp);
+    if (parsed) return parsed;
+    return fileType === 'AUDIO' || fileType === undefined ? audioTime(seconds) : paragraphIndex(seconds + 1);
+};
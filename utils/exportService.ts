@@ -1,77 +1,304 @@
 
-import { AnalysisReport, SerializedProject, SerializedDatabase, ProjectState, EvidenceFile, ChatMessage } from "../types";
+import { AnalysisReport, Citation, FactStatus, Person, StatementChangeKind, StatementComparisonReport, SerializedProject, SerializedDatabase, ProjectState, EvidenceFile, ChatMessage, ProcessedContent, CitationVerification, CaseBundleManifest, CaseBundleEntry, SchemaMigrationReport } from "../types";
 import JSZip from "jszip";
+import { computeSha256 } from "./fileHash";
+import { CURRENT_SCHEMA_VERSION, migrateProject, migrateDatabase } from "./schemaMigrations";
+import { formatLocation } from "./evidenceLocation";
+import { CITATION_TAG_REGEX, parseCitationTag, resolveCitation, resolveCitationTag } from "./citations";
+import { CITATION_VERIFICATION_LABELS, verifyCitation, quoteBeforeTag, verifyCitationTag } from "./citationVerification";
+import { buildDocx, DocxBlock, DocxRun } from "./docxWriter";
+import { formatTranscript, TRANSCRIPT_FORMATS, TranscriptFormat } from "./transcriptFormats";
+import { STATEMENT_CHANGE_LABELS } from "./statementComparison";
+import { formatValidationIssue } from "./reportMerge";
+import { ClipExtraction, ClipRequest, extractAudioClips, getChatClipRequests, getClipPadding, getReportClipRequests } from "./audioClips";
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const STATUS_COLORS: Record<FactStatus, string> = {
+    [FactStatus.CONFIRMED]: '166534',
+    [FactStatus.DENIED]: '991B1B',
+    [FactStatus.INCONCLUSIVE]: 'B45309',
+    [FactStatus.NOT_MENTIONED]: '64748B',
+};
+
+const STATEMENT_CHANGE_COLORS: Record<StatementChangeKind, string> = {
+    CONSISTENT: '166534',
+    ADDITION: '1D4ED8',
+    OMISSION: 'B45309',
+    DIVERGENCE: '991B1B',
+};
+
+// "Citação verificada.", "Citação aproximada – nota." ... as printed in footnotes
+const verificationText = (verification: CitationVerification): string => {
+    const text = `Citação ${CITATION_VERIFICATION_LABELS[verification.status].toLowerCase()}${verification.note ? ` – ${verification.note}` : ''}`;
+    return /[.!?]$/.test(text) ? text : `${text}.`;
+};
+
+// Text of the header repeated on every page of an exported document
+const documentHeader = (caseId: string | undefined, title: string): string =>
+    caseId ? `Processo n.º ${caseId} · ${title}` : title;
+
+// A cited passage as a quote, with its source and verification in a footnote
+const citationQuoteBlock = (c: Citation, processedData: ProcessedContent[], files: EvidenceFile[]): DocxBlock => {
+    const verification = verifyCitation(c, processedData, files);
+    const location = formatLocation(resolveCitation(c, processedData)?.segment.location || c.location);
+    const quoted = c.quote && c.quote !== c.text ? ` Texto citado pela análise: "${c.quote}".` : '';
+    return {
+        type: 'paragraph', style: 'Quote', runs: [{
+            text: `"${c.text}"${c.speaker ? ` — ${c.speaker}` : ''}`,
+            footnote: `${c.fileName} @ ${location}. ${verificationText(verification)}${quoted}`
+        }]
+    };
+};
 
 /**
- * Generates an HTML-based .doc file which Word can open perfectly.
+ * Runs of one line of a chat message: **bold** spans kept, each citation tag replaced by a
+ * footnote with its source and verification. `start` is the line's offset in `text`, so the
+ * quote before each tag is taken from the whole message.
  */
-export const exportToWord = (report: AnalysisReport, projectTitle: string = "Relatório de Análise") => {
-  const content = `
-    <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-    <head>
-      <meta charset="utf-8">
-      <title>${projectTitle}</title>
-      <style>
-        body { font-family: 'Calibri', 'Arial', sans-serif; line-height: 1.5; }
-        h1 { color: #1e293b; border-bottom: 2px solid #3b82f6; padding-bottom: 10px; }
-        h2 { color: #334155; margin-top: 20px; background-color: #f1f5f9; padding: 5px; }
-        h3 { color: #475569; font-size: 14pt; }
-        .status { font-weight: bold; }
-        .status-Confirmado { color: #166534; }
-        .status-Desmentido { color: #991b1b; }
-        .citation { font-style: italic; color: #555; border-left: 3px solid #cbd5e1; padding-left: 10px; margin: 5px 0; }
-        .timestamp { font-size: 0.9em; color: #64748b; font-weight: bold; }
-        .summary { margin-bottom: 15px; }
-      </style>
-    </head>
-    <body>
-      <h1>${projectTitle}</h1>
-      <p>Gerado em: ${new Date(report.generatedAt).toLocaleString('pt-PT')}</p>
-      
-      <h2>Conclusão Geral</h2>
-      <p>${report.generalConclusion}</p>
-
-      <hr />
-
-      ${report.results.map(r => `
-        <div class="fact-block">
-          <h3>Facto: ${r.factText}</h3>
-          <p class="status status-${r.status.replace(/\s/g, '')}">Parecer: ${r.status}</p>
-          <div class="summary">${r.summary}</div>
-          
-          ${r.citations.length > 0 ? '<h4>Citações Relevantes:</h4>' : ''}
-          ${r.citations.map(c => `
-            <div class="citation">
-              <span class="timestamp">[${c.fileName} @ ${c.timestamp}]</span>
-              "${c.text}"
-            </div>
-          `).join('')}
-        </div>
-      `).join('')}
-    </body>
-    </html>
-  `;
-
-  const blob = new Blob(['\ufeff', content], {
-    type: 'application/msword'
-  });
-
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${projectTitle.replace(/\s+/g, '_')}_Analise.doc`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+const chatLineRuns = (text: string, start: number, end: number, processedData: ProcessedContent[], files: EvidenceFile[]): DocxRun[] => {
+    const runs: DocxRun[] = [];
+    let partStart = start;
+    text.slice(start, end).split('**').forEach((part, idx) => {
+        const bold = idx % 2 === 1;
+        const regex = new RegExp(CITATION_TAG_REGEX.source, 'g');
+        let last = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(part))) {
+            const tag = parseCitationTag(match[0]);
+            if (!tag) continue;
+            const verification = verifyCitationTag(tag, quoteBeforeTag(text.slice(0, partStart + match.index)), processedData, files);
+            const resolved = resolveCitationTag(tag, processedData);
+            const source = resolved
+                ? `${resolved.source.fileName} @ ${formatLocation(resolved.segment.location)}${resolved.segment.speaker ? ` — ${resolved.segment.speaker}` : ''}`
+                : `${tag.fileName} @ ${tag.timestamp}`;
+            runs.push({ text: part.slice(last, match.index).trimEnd(), bold, footnote: `${source}. ${verificationText(verification)}` });
+            last = match.index + match[0].length;
+        }
+        if (last < part.length) runs.push({ text: part.slice(last), bold });
+        partStart += part.length + 2;
+    });
+    return runs;
+};
+
+// Blocks of a chat message: "- " lines become bullets, "#" lines headings, the rest paragraphs
+const chatMessageBlocks = (text: string, processedData: ProcessedContent[], files: EvidenceFile[]): DocxBlock[] => {
+    const blocks: DocxBlock[] = [];
+    let offset = 0;
+    text.split('\n').forEach(line => {
+        const lineStart = offset;
+        offset += line.length + 1;
+        const heading = line.match(/^\s*#{1,6}\s+/);
+        const bullet = line.match(/^\s*[-*•]\s+/);
+        const marker = heading || bullet;
+        const runs = chatLineRuns(text, lineStart + (marker ? marker[0].length : 0), lineStart + line.length, processedData, files);
+        if (!runs.some(r => r.text.trim() || r.footnote)) return;
+        if (heading) blocks.push({ type: 'heading', level: 3, text: runs.map(r => r.text).join('') });
+        else blocks.push({ type: bullet ? 'bullet' : 'paragraph', runs });
+    });
+    return blocks;
 };
 
 /**
- * Exports Chat History (Single or Full) to a ZIP containing a Word doc and referenced Attachments.
+ * Exports a report as a native Word document (.docx): summary table of statuses, one numbered
+ * paragraph per fact and each citation's source and verification as a footnote.
+ */
+export const exportToWord = async (report: AnalysisReport, processedData: ProcessedContent[], files: EvidenceFile[], projectTitle: string = "Relatório de Análise", caseId?: string) => {
+    const blocks: DocxBlock[] = [
+        {
+            type: 'paragraph', style: 'Subtle', runs: [
+                ...(caseId ? [{ text: `Processo n.º ${caseId} · ` }] : []),
+                { text: `Gerado em: ${new Date(report.generatedAt).toLocaleString('pt-PT')}` }
+            ]
+        },
+        { type: 'heading', level: 1, text: 'Quadro Resumo' },
+        {
+            type: 'table',
+            header: ['N.º', 'Facto', 'Parecer', 'Citações verificadas'],
+            widths: [7, 55, 20, 18],
+            rows: report.results.map((r, idx) => {
+                const verified = r.citations.filter(c => verifyCitation(c, processedData, files).status === 'VERIFIED').length;
+                return [
+                    [{ text: `${idx + 1}` }],
+                    [{ text: r.factText }],
+                    [{ text: r.status, bold: true, color: STATUS_COLORS[r.status] }],
+                    [{ text: `${verified} de ${r.citations.length}` }]
+                ];
+            })
+        },
+        { type: 'heading', level: 1, text: 'Conclusão Geral' },
+        { type: 'paragraph', runs: [{ text: report.generalConclusion }] },
+    ];
+
+    if (report.missingFacts && report.missingFacts.length > 0) {
+        blocks.push({ type: 'heading', level: 1, text: 'Factos sem Resposta na Análise' });
+        report.missingFacts.forEach(f => blocks.push({ type: 'bullet', runs: [{ text: f.factText }] }));
+    }
+    if (report.validationIssues && report.validationIssues.length > 0) {
+        blocks.push({ type: 'heading', level: 1, text: 'Avisos de Validação' });
+        report.validationIssues.forEach(issue => blocks.push({ type: 'bullet', runs: [{ text: formatValidationIssue(issue, report) }] }));
+    }
+
+    blocks.push({ type: 'heading', level: 1, text: 'Análise dos Factos' });
+    report.results.forEach(r => {
+        blocks.push({ type: 'numbered', runs: [{ text: r.factText, bold: true }] });
+        blocks.push({ type: 'paragraph', runs: [{ text: 'Parecer: ', bold: true }, { text: r.status, bold: true, color: STATUS_COLORS[r.status] }] });
+        blocks.push({ type: 'paragraph', runs: [{ text: r.summary }] });
+        r.citations.forEach(c => blocks.push(citationQuoteBlock(c, processedData, files)));
+    });
+
+    const blob = await buildDocx({ title: projectTitle, header: documentHeader(caseId, projectTitle), blocks });
+    downloadBlob(blob, `${projectTitle.replace(/\s+/g, '_')}_Analise.docx`);
+};
+
+/**
+ * Exports a comparison of an inquiry statement with a testimony: a summary table of the topics
+ * with the pages and times cited, then each topic with both versions quoted.
+ */
+export const exportStatementComparisonToWord = async (report: StatementComparisonReport, processedData: ProcessedContent[], files: EvidenceFile[], caseId?: string) => {
+    const fileNames = (ids: string[]) => ids.map(id => files.find(f => f.id === id)?.name || id).join(', ');
+    const positions = (citations: Citation[]) => citations.length > 0
+        ? citations.map(c => formatLocation(resolveCitation(c, processedData)?.segment.location || c.location)).join(', ')
+        : '—';
+
+    const blocks: DocxBlock[] = [
+        {
+            type: 'paragraph', style: 'Subtle', runs: [
+                ...(caseId ? [{ text: `Processo n.º ${caseId} · ` }] : []),
+                { text: `Gerado em: ${new Date(report.generatedAt).toLocaleString('pt-PT')}` }
+            ]
+        },
+        { type: 'paragraph', runs: [{ text: 'Pessoa: ', bold: true }, { text: report.personName }] },
+        { type: 'paragraph', runs: [{ text: 'Auto de inquirição: ', bold: true }, { text: fileNames(report.inquiryFileIds) }] },
+        { type: 'paragraph', runs: [{ text: 'Depoimento: ', bold: true }, { text: fileNames(report.testimonyFileIds) }] },
+        { type: 'heading', level: 1, text: 'Quadro Resumo' },
+        {
+            type: 'table',
+            header: ['N.º', 'Tema', 'Resultado', 'Auto', 'Depoimento'],
+            widths: [7, 41, 16, 18, 18],
+            rows: report.topics.map((t, idx) => [
+                [{ text: `${idx + 1}` }],
+                [{ text: t.topic }],
+                [{ text: STATEMENT_CHANGE_LABELS[t.kind], bold: true, color: STATEMENT_CHANGE_COLORS[t.kind] }],
+                [{ text: positions(t.inquiryCitations) }],
+                [{ text: positions(t.testimonyCitations) }]
+            ])
+        },
+        { type: 'heading', level: 1, text: 'Conclusão Geral' },
+        { type: 'paragraph', runs: [{ text: report.generalConclusion }] },
+    ];
+
+    if (report.validationIssues && report.validationIssues.length > 0) {
+        blocks.push({ type: 'heading', level: 1, text: 'Avisos de Validação' });
+        report.validationIssues.forEach(issue => blocks.push({ type: 'bullet', runs: [{ text: issue }] }));
+    }
+
+    blocks.push({ type: 'heading', level: 1, text: 'Comparação por Tema' });
+    report.topics.forEach(t => {
+        blocks.push({ type: 'numbered', runs: [{ text: t.topic, bold: true }] });
+        blocks.push({ type: 'paragraph', runs: [{ text: 'Resultado: ', bold: true }, { text: STATEMENT_CHANGE_LABELS[t.kind], bold: true, color: STATEMENT_CHANGE_COLORS[t.kind] }] });
+        if (t.explanation) blocks.push({ type: 'paragraph', runs: [{ text: t.explanation }] });
+        blocks.push({ type: 'heading', level: 3, text: 'Auto de inquirição' });
+        if (t.inquiryCitations.length === 0) blocks.push({ type: 'paragraph', style: 'Subtle', runs: [{ text: 'Não consta do auto.' }] });
+        t.inquiryCitations.forEach(c => blocks.push(citationQuoteBlock(c, processedData, files)));
+        blocks.push({ type: 'heading', level: 3, text: 'Depoimento' });
+        if (t.testimonyCitations.length === 0) blocks.push({ type: 'paragraph', style: 'Subtle', runs: [{ text: 'Não referido no depoimento.' }] });
+        t.testimonyCitations.forEach(c => blocks.push(citationQuoteBlock(c, processedData, files)));
+    });
+
+    const blob = await buildDocx({ title: report.name, header: documentHeader(caseId, report.name), blocks });
+    downloadBlob(blob, `${report.name.replace(/[\s\/\\:]+/g, '_')}.docx`);
+};
+
+// Plain-text list of the clips in a bundle: what each one supports and where it was cut
+const buildClipIndex = (extraction: ClipExtraction, files: EvidenceFile[], title: string, padding: number): string => {
+    const fileName = (request: ClipRequest) => files.find(f => f.id === request.fileId)?.name || request.fileId;
+    const lines = [
+        title,
+        `Gerado em ${new Date().toLocaleString('pt-PT')} · margem de ${padding}s antes e depois de cada excerto`,
+        ''
+    ];
+    extraction.clips.forEach(clip => {
+        lines.push(clip.name);
+        lines.push(`  Origem: ${fileName(clip.request)} @ ${formatLocation(clip.request.location)} (cortado de ${formatLocation({ kind: 'AUDIO_TIME', start: clip.start, end: clip.end })})`);
+        lines.push(`  Suporta: ${clip.request.context}`);
+        if (clip.request.quote) lines.push(`  Texto: "${clip.request.quote}"`);
+        lines.push('');
+    });
+    if (extraction.skipped.length > 0) {
+        lines.push('Excertos não exportados:');
+        extraction.skipped.forEach(({ request, reason }) => lines.push(`  - ${fileName(request)} @ ${formatLocation(request.location)}: ${reason}`));
+    }
+    return lines.join('\r\n');
+};
+
+/**
+ * Downloads a transcript as SRT, WebVTT, timestamped text or JSON, named after its evidence file.
+ */
+export const exportTranscript = (content: ProcessedContent, format: TranscriptFormat, people: Person[]) => {
+    const { extension, mimeType } = TRANSCRIPT_FORMATS.find(f => f.id === format)!;
+    const text = formatTranscript(content, format, people);
+    // Windows editors and subtitle players need the BOM to read accents; JSON parsers may reject it
+    const blob = new Blob(format === 'JSON' ? [text] : ['\ufeff', text], { type: `${mimeType};charset=utf-8` });
+    downloadBlob(blob, `${content.fileName.replace(/\.[^.]+$/, '')}.${extension}`);
+};
+
+/**
+ * Downloads one cited excerpt as a WAV clip.
+ */
+export const exportAudioClip = async (request: ClipRequest, files: EvidenceFile[], padding: number = getClipPadding()) => {
+    const extraction = await extractAudioClips([request], files, padding);
+    if (extraction.clips.length === 0) {
+        throw new Error(extraction.skipped[0]?.reason || "Não foi possível extrair o excerto.");
+    }
+    downloadBlob(extraction.clips[0].blob, extraction.clips[0].name);
+};
+
+/**
+ * Exports a ZIP with a clip for every recording citation of a report, plus an index.
+ */
+export const exportReportClipBundle = async (
+    report: AnalysisReport,
+    processedData: ProcessedContent[],
+    files: EvidenceFile[],
+    padding: number = getClipPadding(),
+    onProgress?: (done: number, total: number) => void
+): Promise<ClipExtraction> => {
+    const requests = getReportClipRequests(report, processedData);
+    if (requests.length === 0) throw new Error("Este relatório não cita nenhuma gravação.");
+    const extraction = await extractAudioClips(requests, files, padding, onProgress);
+    if (extraction.clips.length === 0) {
+        throw new Error(`Nenhum excerto pôde ser extraído: ${extraction.skipped[0]?.reason || ''}`);
+    }
+
+    const zip = new JSZip();
+    const folder = zip.folder("Excertos");
+    extraction.clips.forEach(clip => folder?.file(clip.name, clip.blob));
+    zip.file("Indice.txt", '\ufeff' + buildClipIndex(extraction, files, `Excertos áudio — ${report.name}`, padding));
+    downloadBlob(await zip.generateAsync({ type: "blob" }), `${report.name.replace(/\s+/g, '_')}_Excertos.zip`);
+    return extraction;
+};
+
+/**
+ * Exports Chat History (Single or Full) to a ZIP containing a Word document (.docx) and referenced Attachments.
+ * Recordings are attached as clips of the cited excerpts, not as whole files.
  */
 export const exportChatToZip = async (
     chatHistory: ChatMessage[], 
     evidenceFiles: EvidenceFile[],
-    specificMessageId?: string
+    processedData: ProcessedContent[],
+    specificMessageId?: string,
+    clipPadding: number = getClipPadding(),
+    caseId?: string
 ) => {
     const zip = new JSZip();
     
@@ -91,57 +318,37 @@ export const exportChatToZip = async (
         }
     }
 
-    // 2. Identify referenced files
+    // 2. Identify referenced files (only citations that resolve to a segment)
     const referencedFileIds = new Set<string>();
     messagesToExport.forEach(msg => {
-        // Regex to find [Filename @ Timestamp]
-        const matches = msg.text.match(/\[(.*?)\s*@/g);
-        if (matches) {
-            matches.forEach(m => {
-                const namePart = m.replace('[', '').replace('@', '').trim();
-                // Find file by fuzzy name match
-                const file = evidenceFiles.find(f => f.name.includes(namePart) || namePart.includes(f.name));
-                if (file) referencedFileIds.add(file.id);
-            });
-        }
+        (msg.text.match(CITATION_TAG_REGEX) || []).forEach(raw => {
+            const tag = parseCitationTag(raw);
+            const resolved = tag ? resolveCitationTag(tag, processedData) : null;
+            if (resolved) referencedFileIds.add(resolved.source.fileId);
+        });
     });
 
-    // 3. Generate Word Content (HTML)
-    const wordContent = `
-        <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-        <head>
-            <meta charset="utf-8">
-            <title>Exportação Chat Veritas</title>
-            <style>
-                body { font-family: 'Calibri', sans-serif; }
-                .message { margin-bottom: 20px; padding: 10px; border: 1px solid #ddd; }
-                .role-user { background-color: #e0f2fe; color: #000; }
-                .role-model { background-color: #f0fdf4; color: #000; }
-                .timestamp { font-size: 0.8em; color: #666; margin-bottom: 5px; }
-                .content { white-space: pre-wrap; }
-            </style>
-        </head>
-        <body>
-            <h1>Exportação de Conversa - Veritas AI</h1>
-            <p>Data: ${new Date().toLocaleString()}</p>
-            <hr/>
-            ${messagesToExport.map(msg => `
-                <div class="message role-${msg.role}">
-                    <div class="timestamp"><strong>${msg.role === 'user' ? 'UTILIZADOR' : 'ASSISTENTE'}</strong> - ${new Date(msg.timestamp).toLocaleString()}</div>
-                    <div class="content">${msg.text.replace(/\[\[DETECTED_PEOPLE:.*?\]\]/g, '')}</div>
-                </div>
-            `).join('')}
-        </body>
-        </html>
-    `;
-    
-    zip.file("Conversa.doc", '\ufeff' + wordContent);
+    // 3. Generate the Word document
+    const blocks: DocxBlock[] = [{ type: 'paragraph', style: 'Subtle', runs: [{ text: `Data: ${new Date().toLocaleString('pt-PT')}` }] }];
+    messagesToExport.forEach(msg => {
+        blocks.push({ type: 'heading', level: 2, text: `${msg.role === 'user' ? 'Utilizador' : 'Assistente'} — ${new Date(msg.timestamp).toLocaleString('pt-PT')}` });
+        blocks.push(...chatMessageBlocks(msg.text.replace(/\[\[DETECTED_PEOPLE:.*?\]\]/g, ''), processedData, evidenceFiles));
+    });
+    const title = "Exportação de Conversa - Veritas AI";
+    zip.file("Conversa.docx", await buildDocx({ title, header: documentHeader(caseId, title), blocks }));
 
-    // 4. Add Attachments
+    // 4. Add Attachments: clips of the cited excerpts for recordings, whole files for documents
     const attachmentsFolder = zip.folder("Anexos");
     if (attachmentsFolder) {
+        const clipRequests = getChatClipRequests(messagesToExport, processedData);
+        if (clipRequests.length > 0) {
+            const extraction = await extractAudioClips(clipRequests, evidenceFiles, clipPadding);
+            extraction.clips.forEach(clip => attachmentsFolder.file(`Excertos/${clip.name}`, clip.blob));
+            attachmentsFolder.file("Excertos/Indice.txt", '\ufeff' + buildClipIndex(extraction, evidenceFiles, "Excertos áudio citados na conversa", clipPadding));
+        }
         referencedFileIds.forEach(id => {
             const file = evidenceFiles.find(f => f.id === id);
+            if (file?.type === 'AUDIO' && !file.isVirtual) return; // Exported as clips above
             if (file && file.file) {
                 // If it's a real file, add it
                 attachmentsFolder.file(file.name, file.file);
@@ -154,83 +361,223 @@ export const exportChatToZip = async (
 
     // 5. Generate and Download
     const blob = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `Veritas_Export_${new Date().getTime()}.zip`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, `Veritas_Export_${new Date().getTime()}.zip`);
 };
 
-/**
- * Saves ONLY the Project data (Facts, Analysis, Chat).
- */
-export const saveProjectFile = (state: ProjectState) => {
-  const data: SerializedProject = {
+const buildSerializedProject = (state: ProjectState): SerializedProject => ({
     type: 'project_v2',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    caseId: state.caseId,
+    providerId: state.providerId,
+    retrieval: state.retrieval,
     people: state.people,
     facts: state.facts,
     savedReports: state.savedReports,
+    contradictionReports: state.contradictionReports,
+    statementComparisons: state.statementComparisons,
     chatHistory: state.chatHistory,
     createdAt: Date.now()
-  };
+});
+
+const buildSerializedDatabase = (state: ProjectState, files: EvidenceFile[]): SerializedDatabase => ({
+    type: 'database_v2',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    processedData: state.processedData,
+    fileManifest: files.map(f => ({ id: f.id, name: f.name, type: f.type, category: f.category, folder: f.folder, personId: f.personId, sha256: f.sha256, size: f.size, duration: f.duration })),
+    exportedAt: Date.now()
+});
+
+/**
+ * Saves ONLY the Project data (Facts, Analysis, Chat).
+ */
+export const saveProjectFile = (state: ProjectState) => {
+  const data = buildSerializedProject(state);
 
   const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `veritas_projeto_${new Date().toISOString().slice(0, 10)}.json`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadBlob(blob, `veritas_projeto_${new Date().toISOString().slice(0, 10)}.json`);
+};
+
+// Files added before content hashing existed have no sha256 yet: compute it for the manifest
+const withContentHashes = async (files: EvidenceFile[]): Promise<EvidenceFile[]> => {
+    return Promise.all(files.map(async f => (f.file && !f.sha256) ? { ...f, sha256: await computeSha256(f.file), size: f.file.size } : f));
 };
 
 /**
  * Saves ONLY the Database (Transcriptions/Processed Data).
  */
-export const saveDatabaseFile = (state: ProjectState, files: EvidenceFile[]) => {
-  const data: SerializedDatabase = {
-    type: 'database_v2',
-    processedData: state.processedData,
-    fileManifest: files.map(f => ({ id: f.id, name: f.name, type: f.type, category: f.category, folder: f.folder })),
-    exportedAt: Date.now()
-  };
+export const saveDatabaseFile = async (state: ProjectState, files: EvidenceFile[]) => {
+  const data = buildSerializedDatabase(state, await withContentHashes(files));
 
   const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `veritas_base_dados_${new Date().toISOString().slice(0, 10)}.json`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadBlob(blob, `veritas_base_dados_${new Date().toISOString().slice(0, 10)}.json`);
 };
 
 /**
- * Loads a Project or Database from a JSON file.
+ * Loads a Project or Database from a JSON file, upgrading older schema versions.
  */
 export const loadFromJSON = async (file: File): Promise<{ 
     type: 'project' | 'database' | 'unknown', 
-    data: any 
+    data: any,
+    report: SchemaMigrationReport | null
 }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (e) => {
+            let json: any;
             try {
-                const json = JSON.parse(e.target?.result as string);
-                if (json.type === 'project_v2') {
-                    resolve({ type: 'project', data: json as SerializedProject });
-                } else if (json.type === 'database_v2') {
-                    resolve({ type: 'database', data: json as SerializedDatabase });
+                json = JSON.parse(e.target?.result as string);
+            } catch (err) {
+                reject(new Error("Ficheiro inválido ou corrompido."));
+                return;
+            }
+            try {
+                if (json?.type === 'project_v2') {
+                    const { data, report } = migrateProject(json);
+                    resolve({ type: 'project', data, report });
+                } else if (json?.type === 'database_v2') {
+                    const { data, report } = migrateDatabase(json);
+                    resolve({ type: 'database', data, report });
                 } else {
-                    resolve({ type: 'unknown', data: null });
+                    resolve({ type: 'unknown', data: null, report: null });
                 }
             } catch (err) {
-                reject(new Error("Ficheiro inválido ou corrompido."));
+                reject(err);
             }
         };
         reader.onerror = () => reject(new Error("Erro ao ler ficheiro."));
         reader.readAsText(file);
     });
-};
\ No newline at end of file
+};
+
+const BUNDLE_PROJECT_PATH = 'project.json';
+const BUNDLE_DATABASE_PATH = 'database.json';
+const BUNDLE_MANIFEST_PATH = 'manifest.json';
+
+/**
+ * Saves the whole case (Project + Database + original media) as a single .veritas zip.
+ * The manifest records a SHA-256 checksum for every entry so corruption can be detected on import.
+ */
+export const saveCaseBundle = async (state: ProjectState, files: EvidenceFile[]) => {
+    const zip = new JSZip();
+
+    files = await withContentHashes(files);
+    const projectJson = JSON.stringify(buildSerializedProject(state), null, 2);
+    const databaseJson = JSON.stringify(buildSerializedDatabase(state, files), null, 2);
+    zip.file(BUNDLE_PROJECT_PATH, projectJson);
+    zip.file(BUNDLE_DATABASE_PATH, databaseJson);
+
+    const media: CaseBundleManifest['media'] = [];
+    for (const f of files) {
+        if (!f.file) continue; // Virtual files have no binary to carry
+        const path = `media/${f.id}/${f.name}`;
+        zip.file(path, f.file);
+        media.push({ path, fileId: f.id, name: f.name, mimeType: f.file.type, size: f.file.size, sha256: f.sha256 || await computeSha256(f.file) });
+    }
+
+    const manifest: CaseBundleManifest = {
+        type: 'veritas_bundle_v1',
+        createdAt: Date.now(),
+        project: { path: BUNDLE_PROJECT_PATH, size: new Blob([projectJson]).size, sha256: await computeSha256(projectJson) },
+        database: { path: BUNDLE_DATABASE_PATH, size: new Blob([databaseJson]).size, sha256: await computeSha256(databaseJson) },
+        media
+    };
+    zip.file(BUNDLE_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    const blob = await zip.generateAsync({ type: "blob" });
+    downloadBlob(blob, `veritas_caso_${new Date().toISOString().slice(0, 10)}.veritas`);
+};
+
+/**
+ * Opens a case bundle: a .veritas file, or a renamed zip ("PK") that holds the bundle manifest.
+ * Anything else gives null, so it can still be read as a JSON project or database.
+ */
+export const openCaseBundle = async (file: File): Promise<JSZip | null> => {
+    const hasBundleExtension = file.name.toLowerCase().endsWith('.veritas');
+    if (!hasBundleExtension) {
+        const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+        if (header[0] !== 0x50 || header[1] !== 0x4b) return null;
+    }
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (err) {
+        if (hasBundleExtension) throw new Error("Ficheiro de caso inválido ou corrompido.");
+        return null;
+    }
+    return hasBundleExtension || zip.file(BUNDLE_MANIFEST_PATH) ? zip : null;
+};
+
+/**
+ * Loads a bundle opened by `openCaseBundle`. A project or database that fails its checksum rejects
+ * the whole bundle; media whose checksum does not match is left out (the file stays virtual) and
+ * reported in `corruptedEntries`.
+ */
+export const loadCaseBundle = async (zip: JSZip): Promise<{
+    project: SerializedProject;
+    database: SerializedDatabase;
+    files: EvidenceFile[];
+    corruptedEntries: string[];
+    reports: SchemaMigrationReport[];
+}> => {
+    const readText = async (path: string): Promise<string> => {
+        const entry = zip.file(path);
+        if (!entry) throw new Error(`Ficheiro de caso incompleto: falta ${path}.`);
+        return entry.async('string');
+    };
+
+    const manifest = JSON.parse(await readText(BUNDLE_MANIFEST_PATH)) as CaseBundleManifest;
+    if (manifest.type !== 'veritas_bundle_v1') throw new Error("Formato de caso desconhecido.");
+
+    const corruptedEntries: string[] = [];
+    const readVerifiedJson = async (entry: CaseBundleEntry) => {
+        const text = await readText(entry.path);
+        if (await computeSha256(text) !== entry.sha256) {
+            throw new Error(`O ficheiro ${entry.path} dentro do caso falhou a verificação de integridade. O caso não foi carregado.`);
+        }
+        try {
+            return JSON.parse(text);
+        } catch (err) {
+            throw new Error(`O ficheiro ${entry.path} dentro do caso está corrompido.`);
+        }
+    };
+
+    const rawProject = await readVerifiedJson(manifest.project);
+    const rawDatabase = await readVerifiedJson(manifest.database);
+    if (rawProject?.type !== 'project_v2' || rawDatabase?.type !== 'database_v2') throw new Error("Conteúdo do caso inválido.");
+    const { data: project, report: projectReport } = migrateProject(rawProject);
+    const { data: database, report: databaseReport } = migrateDatabase(rawDatabase);
+
+    const mediaByFileId: Record<string, File> = {};
+    for (const m of manifest.media) {
+        const entry = zip.file(m.path);
+        if (!entry) {
+            corruptedEntries.push(m.path);
+            continue;
+        }
+        const blob = await entry.async('blob');
+        if (await computeSha256(blob) !== m.sha256) {
+            corruptedEntries.push(m.path);
+            continue;
+        }
+        mediaByFileId[m.fileId] = new File([blob], m.name, { type: m.mimeType });
+    }
+
+    const files: EvidenceFile[] = database.fileManifest.map(m => {
+        const media = mediaByFileId[m.id];
+        return {
+            id: m.id,
+            name: m.name,
+            type: m.type,
+            category: m.category,
+            folder: m.folder || "Importado",
+            personId: m.personId,
+            file: media || null,
+            isVirtual: !media,
+            size: media?.size ?? m.size,
+            sha256: m.sha256,
+            duration: m.duration
+        };
+    });
+
+    return { project, database, files, corruptedEntries, reports: [projectReport, databaseReport] };
+};
@@ -0,0 +1,15 @@
+/**
+ * Computes the SHA-256 digest of a Blob/File as a lowercase hex string.
+ */
+export const computeSha256 = async (data: Blob | ArrayBuffer | string): Promise<string> => {
+    let buffer: ArrayBuffer;
+    if (typeof data === 'string') {
+        buffer = new TextEncoder().encode(data).buffer as ArrayBuffer;
+    } else if (data instanceof Blob) {
+        buffer = await data.arrayBuffer();
+    } else {
+        buffer = data;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
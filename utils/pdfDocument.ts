@@ -0,0 +1,177 @@
+import { GlobalWorkerOptions, getDocument } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist";
+import { ImageRegion } from "../types";
+
+// Local PDF reading with pdf.js: the text layer of born-digital pages, page images for the
+// pages that have none (scans), which still need OCR, and on-screen rendering for the viewer.
+
+// Bundled with the app from the installed package: matches the library's version and works offline
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const MIN_TEXT_LAYER_CHARS = 20;   // Fewer visible characters means a scan (page numbers and stamps aside)
+const PARAGRAPH_GAP_RATIO = 1.5;   // Vertical gap, in line heights, that starts a new paragraph
+const OCR_RENDER_SCALE = 2;        // ~144 dpi: small print stays legible for OCR
+const PASSAGE_PREFIX_CHARS = 60;  // Passages that run onto the next page are found by their opening
+
+export interface PdfTextLine {
+    text: string;
+    y: number;       // Baseline, in PDF units from the bottom of the page
+    height: number;  // Font height
+}
+
+export interface PdfPageText {
+    page: number;          // 1-based
+    paragraphs: string[];
+    hasTextLayer: boolean;
+}
+
+export const loadPdfDocument = async (file: Blob): Promise<PDFDocumentProxy> => {
+    return getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+/**
+ * Groups the lines of a page into paragraphs: a blank line or a vertical gap clearly larger than
+ * the line spacing ends one. Words hyphenated across lines are joined back.
+ */
+export const linesToParagraphs = (lines: PdfTextLine[]): string[] => {
+    const paragraphs: string[] = [];
+    let current = "";
+    let previous: PdfTextLine | null = null;
+    const flush = () => {
+        if (current.trim()) paragraphs.push(current.replace(/\s+/g, ' ').trim());
+        current = "";
+    };
+    lines.forEach(line => {
+        const text = line.text.trim();
+        if (!text) {
+            flush();
+            previous = null;
+            return;
+        }
+        if (previous) {
+            const gap = Math.abs(previous.y - line.y);
+            const spacing = Math.max(previous.height, line.height, 1);
+            if (gap > spacing * PARAGRAPH_GAP_RATIO) flush();
+        }
+        current = /\p{L}-$/u.test(current) ? `${current.slice(0, -1)}${text}` : `${current} ${text}`;
+        previous = line;
+    });
+    flush();
+    return paragraphs;
+};
+
+/**
+ * Text layer of every page, in reading order as stored in the PDF.
+ */
+export const extractPdfTextLayer = async (doc: PDFDocumentProxy): Promise<PdfPageText[]> => {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const lines: PdfTextLine[] = [];
+        let line: PdfTextLine | null = null;
+        content.items.forEach(item => {
+            if (!('str' in item)) return; // Marked-content boundaries
+            const y = item.transform[5];
+            const height = item.height || Math.abs(item.transform[3]) || 0;
+            // A jump in baseline without an end-of-line flag still starts a new line
+            if (line && Math.abs(line.y - y) > Math.max(line.height, height, 1) / 2) {
+                lines.push(line);
+                line = null;
+            }
+            line = line ? { ...line, text: line.text + item.str, height: Math.max(line.height, height) } : { text: item.str, y, height };
+            if (item.hasEOL) {
+                lines.push(line);
+                line = null;
+            }
+        });
+        if (line) lines.push(line);
+        page.cleanup();
+
+        const visibleChars = lines.reduce((sum, l) => sum + l.text.replace(/\s/g, '').length, 0);
+        pages.push({ page: pageNumber, paragraphs: linesToParagraphs(lines), hasTextLayer: visibleChars >= MIN_TEXT_LAYER_CHARS });
+    }
+    return pages;
+};
+
+/**
+ * Draws a page onto a canvas, resized to the page at `scale`. The task can be cancelled when
+ * the canvas leaves the screen before the page is drawn.
+ */
+export const drawPdfPage = (page: PDFPageProxy, canvas: HTMLCanvasElement, scale: number): RenderTask => {
+    const viewport = page.getViewport({ scale });
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    return page.render({ canvas, viewport });
+};
+
+/**
+ * Renders one page as a JPEG, for OCR of pages without a text layer.
+ */
+export const renderPdfPageImage = async (doc: PDFDocumentProxy, pageNumber: number, scale: number = OCR_RENDER_SCALE): Promise<Blob> => {
+    const page = await doc.getPage(pageNumber);
+    const canvas = document.createElement('canvas');
+    try {
+        await drawPdfPage(page, canvas, scale).promise;
+        return await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error(`Não foi possível gerar a imagem da página ${pageNumber}.`)),
+            'image/jpeg',
+            0.9
+        ));
+    } finally {
+        page.cleanup();
+        canvas.width = canvas.height = 0; // Releases the bitmap before the next page
+    }
+};
+
+// Letters and digits only, without accents: line breaks, hyphenation and spacing differ between
+// the text layer and the extracted paragraphs
+const matchKey = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Where a passage sits on a page, as one rectangle per text-layer run it covers (fractions of the
+ * page, top-left origin). Empty when the page has no text layer or the passage is not on it.
+ */
+export const locatePdfPassage = async (doc: PDFDocumentProxy, pageNumber: number, passage: string): Promise<ImageRegion[]> => {
+    const target = matchKey(passage);
+    if (!target) return [];
+    const page = await doc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    page.cleanup();
+
+    // Page key, with the run each of its characters came from
+    let pageKey = "";
+    const owners: number[] = [];
+    content.items.forEach((item, idx) => {
+        if (!('str' in item)) return;
+        const key = matchKey(item.str);
+        pageKey += key;
+        for (let i = 0; i < key.length; i++) owners.push(idx);
+    });
+
+    let start = pageKey.indexOf(target);
+    let length = target.length;
+    if (start === -1 && target.length > PASSAGE_PREFIX_CHARS) {
+        start = pageKey.indexOf(target.slice(0, PASSAGE_PREFIX_CHARS));
+        length = Math.min(target.length, pageKey.length - start);
+    }
+    if (start === -1) return [];
+
+    const covered = new Set(owners.slice(start, start + length));
+    return Array.from(covered).flatMap(idx => {
+        const item = content.items[idx];
+        if (!('str' in item)) return [];
+        const [x, y] = [item.transform[4], item.transform[5]];
+        const height = item.height || Math.abs(item.transform[3]);
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + item.width, y + height]);
+        return [{
+            x: Math.min(x1, x2) / viewport.width,
+            y: Math.min(y1, y2) / viewport.height,
+            width: Math.abs(x2 - x1) / viewport.width,
+            height: Math.abs(y2 - y1) / viewport.height
+        }];
+    });
+};
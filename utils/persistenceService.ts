@@ -0,0 +1,173 @@
+import { EvidenceFile, ProjectState, SessionSummary, StoredSession } from "../types";
+import { CURRENT_SCHEMA_VERSION, migrateStoredSession } from "./schemaMigrations";
+
+const DB_NAME = 'veritas_db';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';       // SessionSummary, cheap to list
+const SESSION_DATA_STORE = 'sessionData'; // StoredSession (project + file metadata)
+const BLOBS_STORE = 'blobs';             // Original File blobs, keyed by [sessionId, fileId]
+const LAST_SESSION_KEY = 'veritas_last_session';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Transação cancelada."));
+    });
+};
+
+// All blob keys of a session: arrays sort after strings, so [id, []] is an upper bound for [id, fileId]
+const sessionBlobRange = (sessionId: string) => IDBKeyRange.bound([sessionId], [sessionId, []]);
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(SESSION_DATA_STORE)) db.createObjectStore(SESSION_DATA_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE);
+            };
+            request.onsuccess = () => {
+                // Ask the browser not to evict our data under storage pressure (best effort)
+                navigator.storage?.persist?.().catch(() => undefined);
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(new Error("Não foi possível abrir o armazenamento local do browser."));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const createSessionId = (): string => `session_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (sessionId: string) => localStorage.setItem(LAST_SESSION_KEY, sessionId);
+
+/**
+ * True when there is nothing worth persisting (avoids cluttering the session list with empty sessions).
+ */
+export const isSessionEmpty = (project: ProjectState, files: EvidenceFile[]): boolean => {
+    return files.length === 0 && project.people.length === 0 && project.facts.length === 0 &&
+        project.processedData.length === 0 && project.savedReports.length === 0 && project.contradictionReports.length === 0 &&
+        project.statementComparisons.length === 0 && project.chatHistory.length === 0;
+};
+
+/**
+ * Autosaves the project, file metadata and original File blobs of a session.
+ * Blobs are only written once per file and removed when the file leaves the session.
+ */
+export const saveSession = async (sessionId: string, project: ProjectState, files: EvidenceFile[]): Promise<SessionSummary> => {
+    const db = await openDatabase();
+
+    // 1. Read current state (separate transaction: no awaits inside the write transaction)
+    const readTx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readonly');
+    const [existing, storedKeys] = await Promise.all([
+        requestToPromise(readTx.objectStore(SESSIONS_STORE).get(sessionId)) as Promise<SessionSummary | undefined>,
+        requestToPromise(readTx.objectStore(BLOBS_STORE).getAllKeys(sessionBlobRange(sessionId)))
+    ]);
+    const storedFileIds = new Set(storedKeys.map(k => (k as string[])[1]));
+
+    const now = Date.now();
+    const createdAt = existing?.createdAt || now;
+    const summary: SessionSummary = {
+        id: sessionId,
+        name: existing?.name || `Sessão de ${new Date(createdAt).toLocaleString('pt-PT')}`,
+        createdAt,
+        updatedAt: now,
+        fileCount: files.length,
+        factCount: project.facts.length,
+        reportCount: project.savedReports.length + project.contradictionReports.length + project.statementComparisons.length
+    };
+
+    const data: StoredSession = {
+        id: sessionId,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        project: { ...project, lastModified: now },
+        files: files.map(({ file, ...meta }) => ({ ...meta, hasBlob: !!file }))
+    };
+
+    // 2. Write
+    const tx = db.transaction([SESSIONS_STORE, SESSION_DATA_STORE, BLOBS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(summary);
+    tx.objectStore(SESSION_DATA_STORE).put(data);
+
+    const blobs = tx.objectStore(BLOBS_STORE);
+    const currentIds = new Set<string>();
+    files.forEach(f => {
+        if (!f.file) return;
+        currentIds.add(f.id);
+        if (!storedFileIds.has(f.id)) blobs.put(f.file, [sessionId, f.id]);
+    });
+    storedFileIds.forEach(id => {
+        if (!currentIds.has(id)) blobs.delete([sessionId, id]);
+    });
+
+    await transactionDone(tx);
+    setLastSessionId(sessionId);
+    return summary;
+};
+
+/**
+ * Restores a session with its original files re-attached (no virtual files for stored blobs).
+ */
+export const loadSession = async (sessionId: string): Promise<{ project: ProjectState; files: EvidenceFile[] } | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSION_DATA_STORE, BLOBS_STORE], 'readonly');
+    const blobStore = tx.objectStore(BLOBS_STORE);
+    const [stored, keys, blobs] = await Promise.all([
+        requestToPromise(tx.objectStore(SESSION_DATA_STORE).get(sessionId)) as Promise<StoredSession | undefined>,
+        requestToPromise(blobStore.getAllKeys(sessionBlobRange(sessionId))),
+        requestToPromise(blobStore.getAll(sessionBlobRange(sessionId)))
+    ]);
+
+    if (!stored) return null;
+    const data = migrateStoredSession(stored);
+
+    const blobsByFileId: Record<string, Blob> = {};
+    keys.forEach((k, i) => { blobsByFileId[(k as string[])[1]] = blobs[i]; });
+
+    const files: EvidenceFile[] = data.files.map(({ hasBlob, ...meta }) => {
+        const blob = blobsByFileId[meta.id];
+        if (!blob) return { ...meta, file: null };
+        const file = blob instanceof File ? blob : new File([blob], meta.name, { type: blob.type });
+        return { ...meta, file, isVirtual: false, size: file.size };
+    });
+
+    setLastSessionId(sessionId);
+    return { project: data.project, files };
+};
+
+/**
+ * Lists stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await requestToPromise(tx.objectStore(SESSIONS_STORE).getAll()) as SessionSummary[];
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SESSION_DATA_STORE, BLOBS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    tx.objectStore(SESSION_DATA_STORE).delete(sessionId);
+    tx.objectStore(BLOBS_STORE).delete(sessionBlobRange(sessionId));
+    await transactionDone(tx);
+    if (getLastSessionId() === sessionId) localStorage.removeItem(LAST_SESSION_KEY);
+};
@@ -0,0 +1,134 @@
+// Playback preferences for reviewing recordings (speed, auto-rewind, keyboard shortcuts). They
+// belong to the reviewer, not to a case, so they are kept in this browser rather than in projects.
+
+const PLAYBACK_SETTINGS_KEY = "veritas_playback_settings";
+
+export const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+export const AUTO_REWIND_OPTIONS = [0, 1, 2, 3, 5];
+
+export type PlaybackAction =
+    | 'PLAY_PAUSE'
+    | 'BACK'
+    | 'FORWARD'
+    | 'SLOWER'
+    | 'FASTER'
+    | 'MARK_A'
+    | 'MARK_B'
+    | 'MARK_SEGMENT'
+    | 'TOGGLE_LOOP'
+    | 'CLEAR_LOOP';
+
+export const PLAYBACK_ACTION_LABELS: Record<PlaybackAction, string> = {
+    PLAY_PAUSE: 'Reproduzir / pausar',
+    BACK: 'Recuar',
+    FORWARD: 'Avançar',
+    SLOWER: 'Mais lento',
+    FASTER: 'Mais rápido',
+    MARK_A: 'Marcar início do ciclo (A)',
+    MARK_B: 'Marcar fim do ciclo (B)',
+    MARK_SEGMENT: 'Repetir o segmento atual',
+    TOGGLE_LOOP: 'Ligar / desligar ciclo',
+    CLEAR_LOOP: 'Limpar ciclo',
+};
+
+export interface PlaybackSettings {
+    rate: number;
+    preservePitch: boolean;     // Keeps voices natural when slowed down or sped up
+    autoRewindSeconds: number;  // Rewound on every resume after a pause; 0 disables
+    skipSeconds: number;        // Step of the back/forward shortcuts
+    shortcuts: Record<PlaybackAction, string>; // Key combination, e.g. "Alt+K"
+}
+
+// Alt + letter never types into the page and works with J/K/L muscle memory from video players
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+    rate: 1,
+    preservePitch: true,
+    autoRewindSeconds: 2,
+    skipSeconds: 3,
+    shortcuts: {
+        PLAY_PAUSE: 'Alt+K',
+        BACK: 'Alt+J',
+        FORWARD: 'Alt+L',
+        SLOWER: 'Alt+ArrowDown',
+        FASTER: 'Alt+ArrowUp',
+        MARK_A: 'Alt+A',
+        MARK_B: 'Alt+B',
+        MARK_SEGMENT: 'Alt+S',
+        TOGGLE_LOOP: 'Alt+O',
+        CLEAR_LOOP: 'Alt+X',
+    },
+};
+
+/**
+ * Stored preferences, completed with the defaults for anything missing or invalid.
+ */
+export const getPlaybackSettings = (): PlaybackSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PLAYBACK_SETTINGS_KEY) || "{}");
+        const defaults = DEFAULT_PLAYBACK_SETTINGS;
+        const shortcuts = { ...defaults.shortcuts };
+        (Object.keys(shortcuts) as PlaybackAction[]).forEach(action => {
+            if (typeof stored.shortcuts?.[action] === 'string') shortcuts[action] = stored.shortcuts[action];
+        });
+        return {
+            rate: PLAYBACK_RATES.includes(stored.rate) ? stored.rate : defaults.rate,
+            preservePitch: typeof stored.preservePitch === 'boolean' ? stored.preservePitch : defaults.preservePitch,
+            autoRewindSeconds: AUTO_REWIND_OPTIONS.includes(stored.autoRewindSeconds) ? stored.autoRewindSeconds : defaults.autoRewindSeconds,
+            skipSeconds: typeof stored.skipSeconds === 'number' && stored.skipSeconds > 0 ? stored.skipSeconds : defaults.skipSeconds,
+            shortcuts
+        };
+    } catch {
+        return DEFAULT_PLAYBACK_SETTINGS;
+    }
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings) => localStorage.setItem(PLAYBACK_SETTINGS_KEY, JSON.stringify(settings));
+
+// Physical key for letters and digits, so Alt combinations work on every layout (Alt+K types "˚" on macOS)
+const keyName = (e: KeyboardEvent): string => {
+    if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3);
+    if (/^Digit\d$/.test(e.code)) return e.code.slice(5);
+    if (e.key === ' ') return 'Space';
+    return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+/**
+ * Key combination of a key press as stored in the shortcut map ("Ctrl+Shift+K"), or null for a
+ * lone modifier key.
+ */
+export const formatKeyCombo = (e: KeyboardEvent): string | null => {
+    if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return null;
+    const parts: string[] = [];
+    if (e.ctrlKey) parts.push('Ctrl');
+    if (e.metaKey) parts.push('Meta');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    parts.push(keyName(e));
+    return parts.join('+');
+};
+
+export const findShortcutAction = (settings: PlaybackSettings, combo: string): PlaybackAction | undefined =>
+    (Object.keys(settings.shortcuts) as PlaybackAction[]).find(action => settings.shortcuts[action] === combo);
+
+/**
+ * Next slower (-1) or faster (+1) speed.
+ */
+export const stepPlaybackRate = (rate: number, direction: 1 | -1): number => {
+    const idx = PLAYBACK_RATES.findIndex(r => r >= rate);
+    const current = idx === -1 ? PLAYBACK_RATES.length - 1 : idx;
+    return PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, current + direction))];
+};
+
+export interface LoopRegion {
+    start: number;
+    end?: number; // Absent while only A is marked
+}
+
+/**
+ * Where playback resumes after a pause: a few seconds back, so the reviewer hears the context
+ * again, but never before the start of an active loop.
+ */
+export const resumeTime = (time: number, autoRewindSeconds: number, loop?: LoopRegion | null): number => {
+    const floor = loop && loop.end !== undefined && time >= loop.start && time <= loop.end ? loop.start : 0;
+    return Math.max(floor, time - autoRewindSeconds);
+};
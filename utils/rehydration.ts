@@ -0,0 +1,104 @@
+import { EvidenceCategory, EvidenceFile } from "../types";
+
+export interface IncomingFile {
+    file: File;
+    folder: string;
+    category: EvidenceCategory; // Upload area the file was dropped into
+    sha256: string;
+    duration?: number;
+}
+
+export type ReconciliationReason = 'RENAMED' | 'MOVED' | 'RENAMED_MOVED' | 'CONTENT_MISMATCH';
+
+export interface ReconciliationItem {
+    id: string;
+    incoming: IncomingFile;
+    candidate: EvidenceFile; // Virtual file the incoming file may belong to
+    reason: ReconciliationReason;
+    accept: boolean;         // User decision (pre-filled with the suggested answer)
+}
+
+export interface RehydrationPlan {
+    rehydrate: { fileId: string; incoming: IncomingFile }[]; // Unambiguous matches
+    review: ReconciliationItem[];                          // Needs the reconciliation dialog
+    create: IncomingFile[];                                // Genuinely new files
+}
+
+/**
+ * Decides how dropped files relate to the virtual files of a restored database.
+ *
+ * - Same content, name and category: rehydrated silently.
+ * - Same content, different name and/or category: proposed as renamed/moved (accepted by default).
+ * - Same name and category but different bytes: flagged as a content mismatch (rejected by default),
+ *   since the transcript belongs to the file that was actually processed.
+ * - Virtual files from databases saved before hashing (no sha256) keep the old name + category rule.
+ */
+export const planRehydration = (incoming: IncomingFile[], existing: EvidenceFile[]): RehydrationPlan => {
+    const plan: RehydrationPlan = { rehydrate: [], review: [], create: [] };
+    const claimed = new Set<string>();
+    const available = () => existing.filter(ev => ev.isVirtual && !claimed.has(ev.id));
+
+    incoming.forEach(inc => {
+        const candidates = available();
+
+        // 1. Content match (hash is authoritative)
+        const byHash = candidates.filter(ev => ev.sha256 && ev.sha256 === inc.sha256);
+        const exact = byHash.find(ev => ev.name === inc.file.name && ev.category === inc.category);
+        if (exact) {
+            claimed.add(exact.id);
+            plan.rehydrate.push({ fileId: exact.id, incoming: inc });
+            return;
+        }
+        if (byHash.length > 0) {
+            // Prefer same name (moved) over same category (renamed)
+            const candidate = byHash.find(ev => ev.name === inc.file.name) || byHash.find(ev => ev.category === inc.category) || byHash[0];
+            const renamed = candidate.name !== inc.file.name;
+            const moved = candidate.category !== inc.category;
+            claimed.add(candidate.id);
+            plan.review.push({
+                id: Math.random().toString(36).substr(2, 9),
+                incoming: inc,
+                candidate,
+                reason: renamed && moved ? 'RENAMED_MOVED' : renamed ? 'RENAMED' : 'MOVED',
+                accept: true
+            });
+            return;
+        }
+
+        // 2. Same name + category
+        const byName = candidates.find(ev => ev.name === inc.file.name && ev.category === inc.category);
+        if (byName) {
+            claimed.add(byName.id);
+            if (!byName.sha256) {
+                // Legacy manifest: nothing to verify against
+                plan.rehydrate.push({ fileId: byName.id, incoming: inc });
+            } else {
+                plan.review.push({
+                    id: Math.random().toString(36).substr(2, 9),
+                    incoming: inc,
+                    candidate: byName,
+                    reason: 'CONTENT_MISMATCH',
+                    accept: false
+                });
+            }
+            return;
+        }
+
+        plan.create.push(inc);
+    });
+
+    return plan;
+};
+
+/**
+ * Links a physical file to the metadata of a virtual file (keeps id, name and category so
+ * transcripts, citations and reports stay attached).
+ */
+export const rehydrateFile = (target: EvidenceFile, inc: IncomingFile): EvidenceFile => ({
+    ...target,
+    file: inc.file,
+    isVirtual: false,
+    size: inc.file.size,
+    sha256: target.sha256 || inc.sha256, // Keep the hash of the bytes that were actually transcribed
+    duration: inc.duration ?? target.duration
+});
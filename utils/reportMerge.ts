@@ -0,0 +1,92 @@
+import { AnalysisReport, Fact, FactAnalysis, FactRevisionChange, ReportRevision, ValidationIssue } from "../types";
+
+/**
+ * Facts whose current text differs from the one analysed in the report, plus facts the report
+ * has no result for (added later or left unanswered).
+ */
+export const getChangedFacts = (report: AnalysisReport, facts: Fact[]): Fact[] => {
+    return facts.filter(f => {
+        const result = report.results.find(r => r.factId === f.id);
+        return !result || result.factText !== f.text;
+    });
+};
+
+/**
+ * Merges the results of a partial re-run into an existing report and records what changed.
+ *
+ * A fact the re-run did not answer keeps its previous result (with a validation note) so
+ * reviewed work is never lost; results follow the current order of the project facts.
+ * Earlier validation issues about the re-run facts are replaced by the new ones.
+ */
+export const mergeFactReanalysis = (
+    report: AnalysisReport,
+    partial: AnalysisReport,
+    requestedFacts: Fact[],
+    allFacts: Fact[],
+    scope: ReportRevision['scope']
+): AnalysisReport => {
+    const requestedIds = new Set(requestedFacts.map(f => f.id));
+    const issues: ValidationIssue[] = [
+        ...(report.validationIssues || []).filter(issue => !issue.factId || !requestedIds.has(issue.factId)),
+        ...(partial.validationIssues || [])
+    ];
+
+    const changes: FactRevisionChange[] = requestedFacts.map(fact => {
+        const previous = report.results.find(r => r.factId === fact.id);
+        const next = partial.results.find(r => r.factId === fact.id);
+        if (!next && previous) {
+            issues.push({ factId: fact.id, message: "reanálise sem resposta, mantido o resultado anterior." });
+        }
+        return {
+            factId: fact.id,
+            factText: fact.text,
+            previousFactText: previous?.factText,
+            previousStatus: previous?.status,
+            previousSummary: previous?.summary,
+            status: next?.status,
+            summary: next?.summary
+        };
+    });
+
+    const resultsById = new Map<string, FactAnalysis>(report.results.map(r => [r.factId, r]));
+    partial.results.forEach(r => resultsById.set(r.factId, r));
+
+    const order = (factId: string) => {
+        const idx = allFacts.findIndex(f => f.id === factId);
+        // Facts removed from the project since the report was generated go last, in their old order
+        return idx !== -1 ? idx : allFacts.length + report.results.findIndex(r => r.factId === factId);
+    };
+    const results = Array.from(resultsById.values()).sort((a, b) => order(a.factId) - order(b.factId));
+
+    const missingFacts = [
+        ...(report.missingFacts || []).filter(m => !requestedIds.has(m.factId)),
+        ...requestedFacts.filter(f => !resultsById.has(f.id)).map(f => ({ factId: f.id, factText: f.text }))
+    ];
+
+    const revision: ReportRevision = {
+        id: Date.now().toString(),
+        createdAt: new Date().toISOString(),
+        scope,
+        changes
+    };
+
+    return {
+        ...report,
+        results,
+        missingFacts,
+        validationIssues: issues,
+        revisions: [...(report.revisions || []), revision]
+    };
+};
+
+/**
+ * Display text of a validation issue: fact issues are labelled "Facto #N" by the fact's current
+ * position in the report, so the labels stay right after partial re-runs.
+ */
+export const formatValidationIssue = (issue: ValidationIssue, report: AnalysisReport): string => {
+    if (!issue.factId) return issue.message;
+    const idx = report.results.findIndex(r => r.factId === issue.factId);
+    if (idx !== -1) return `Facto #${idx + 1}: ${issue.message}`;
+    const missing = report.missingFacts?.find(m => m.factId === issue.factId);
+    return `Facto "${missing?.factText ?? issue.factId}": ${issue.message}`;
+};
@@ -0,0 +1,258 @@
+import { ProcessedContent, RetrievalSettings } from "../types";
+import { formatSegmentText } from "./speakers";
+
+// Local retrieval over transcript segments: BM25 lexical ranking, optionally blended with
+// embedding similarity, selecting what fits in a token budget instead of sending the whole case.
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = { tokenBudget: 32000, useEmbeddings: false };
+
+export type EmbedFn = (texts: string[]) => Promise<number[][]>;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const FILE_HEADER_TOKENS = 30;  // <file name=... person=... category=...> wrapper
+const NEIGHBOR_WINDOW = 1;      // Segments kept around each hit so answers have context
+
+const STOPWORDS = new Set([
+    "a", "o", "as", "os", "um", "uma", "uns", "umas", "de", "do", "da", "dos", "das", "em", "no", "na", "nos", "nas",
+    "e", "ou", "que", "se", "por", "para", "com", "sem", "ao", "aos", "à", "às", "é", "foi", "era", "ser", "estar",
+    "eu", "ele", "ela", "eles", "elas", "me", "lhe", "isso", "isto", "aquilo", "não", "sim", "mais", "muito", "já"
+].map(w => w.normalize('NFD').replace(/[\u0300-\u036f]/g, '')));
+
+export const tokenize = (text: string): string[] => {
+    return text
+        .replace(/\*\*.*?\*\*/g, ' ') // Speaker labels are not content
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(w => w.length >= 2 && !STOPWORDS.has(w));
+};
+
+// Rough heuristic (~4 characters per token) – good enough to stay under a budget
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Short ID of a segment inside a prompt ("F2-S14" = 14th segment of the 2nd file),
+ * derived from the order of processedData so it can be resolved back exactly.
+ */
+export const segmentRef = (fileIdx: number, segmentIdx: number): string => `F${fileIdx + 1}-S${segmentIdx + 1}`;
+
+export const parseSegmentRef = (ref: string): { fileIdx: number; segmentIdx: number } | null => {
+    const match = ref.trim().match(/^\[?F(\d+)-S(\d+)\]?$/i);
+    return match ? { fileIdx: parseInt(match[1]) - 1, segmentIdx: parseInt(match[2]) - 1 } : null;
+};
+
+export const formatSegmentLine = (fileIdx: number, segmentIdx: number, source: ProcessedContent): string => {
+    const seg = source.segments[segmentIdx];
+    return `[${segmentRef(fileIdx, segmentIdx)}] [${seg.timestamp}] ${formatSegmentText(seg)}`;
+};
+
+interface IndexedSegment {
+    fileIdx: number;
+    segmentIdx: number;
+    terms: Map<string, number>;
+    length: number;
+    tokens: number; // Prompt cost of the formatted line
+}
+
+export interface SegmentIndex {
+    processedData: ProcessedContent[];
+    segments: IndexedSegment[];
+    docFreq: Map<string, number>;
+    avgLength: number;
+}
+
+export const buildSegmentIndex = (processedData: ProcessedContent[]): SegmentIndex => {
+    const segments: IndexedSegment[] = [];
+    const docFreq = new Map<string, number>();
+    let totalLength = 0;
+
+    processedData.forEach((source, fileIdx) => {
+        source.segments.forEach((seg, segmentIdx) => {
+            const words = tokenize(formatSegmentText(seg)); // Speaker names are searchable too
+            const terms = new Map<string, number>();
+            words.forEach(w => terms.set(w, (terms.get(w) || 0) + 1));
+            terms.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1));
+            totalLength += words.length;
+            segments.push({ fileIdx, segmentIdx, terms, length: words.length, tokens: estimateTokens(formatSegmentLine(fileIdx, segmentIdx, source)) });
+        });
+    });
+
+    return { processedData, segments, docFreq, avgLength: segments.length ? totalLength / segments.length : 0 };
+};
+
+/**
+ * BM25 score of every indexed segment for a query (same order as index.segments).
+ */
+export const scoreSegments = (index: SegmentIndex, query: string): number[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const n = index.segments.length;
+    return index.segments.map(seg => {
+        let score = 0;
+        queryTerms.forEach(term => {
+            const tf = seg.terms.get(term);
+            if (!tf) return;
+            const df = index.docFreq.get(term) || 0;
+            const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * seg.length / (index.avgLength || 1)));
+        });
+        return score;
+    });
+};
+
+const cosine = (a: number[], b: number[]): number => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+export interface RetrievedFile {
+    fileIdx: number;
+    source: ProcessedContent;
+    segmentIdxs: number[]; // Sorted, in transcript order
+}
+
+export interface RetrievedContext {
+    files: RetrievedFile[];
+    selectedSegments: number;
+    totalSegments: number;
+    estimatedTokens: number;
+    truncated: boolean; // True when part of the case was left out
+}
+
+/**
+ * Selects the segments most relevant to the queries (one per fact, or the chat question)
+ * within the token budget. Queries take turns so every fact gets its share of the budget;
+ * when the whole case fits, everything is sent.
+ */
+export const retrieveContext = async (
+    processedData: ProcessedContent[],
+    queries: string[],
+    settings: RetrievalSettings,
+    embed?: EmbedFn
+): Promise<RetrievedContext> => {
+    const index = buildSegmentIndex(processedData);
+    const selected = new Set<number>();
+    const filesUsed = new Set<number>();
+    let used = 0;
+
+    const fullCost = index.segments.reduce((sum, s) => sum + s.tokens, 0) + processedData.length * FILE_HEADER_TOKENS;
+    if (fullCost <= settings.tokenBudget) {
+        index.segments.forEach((_, i) => selected.add(i));
+        processedData.forEach((_, i) => filesUsed.add(i));
+        used = fullCost;
+    } else {
+        const ranked = await rankForQueries(index, queries, settings.useEmbeddings ? embed : undefined);
+
+        const positionOf = new Map<string, number>();
+        index.segments.forEach((s, i) => positionOf.set(`${s.fileIdx}:${s.segmentIdx}`, i));
+
+        // Adds a hit plus its neighbours, all or nothing
+        const trySelect = (i: number): boolean => {
+            const hit = index.segments[i];
+            const group: number[] = [];
+            for (let d = -NEIGHBOR_WINDOW; d <= NEIGHBOR_WINDOW; d++) {
+                const pos = positionOf.get(`${hit.fileIdx}:${hit.segmentIdx + d}`);
+                if (pos !== undefined && !selected.has(pos)) group.push(pos);
+            }
+            const cost = group.reduce((sum, pos) => sum + index.segments[pos].tokens, 0) + (filesUsed.has(hit.fileIdx) ? 0 : FILE_HEADER_TOKENS);
+            if (used + cost > settings.tokenBudget) return false;
+            group.forEach(pos => selected.add(pos));
+            filesUsed.add(hit.fileIdx);
+            used += cost;
+            return true;
+        };
+
+        const cursors = ranked.map(() => 0);
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            ranked.forEach((list, q) => {
+                while (cursors[q] < list.length) {
+                    const candidate = list[cursors[q]++];
+                    if (selected.has(candidate)) continue;
+                    if (trySelect(candidate)) { progressed = true; break; }
+                }
+            });
+        }
+
+        // Nothing matched (e.g. "resume o caso"): give a spread of the case instead of an empty context
+        if (selected.size === 0) {
+            const fileCursor = processedData.map(() => 0);
+            let added = true;
+            while (added) {
+                added = false;
+                processedData.forEach((source, fileIdx) => {
+                    if (fileCursor[fileIdx] >= source.segments.length) return;
+                    const pos = positionOf.get(`${fileIdx}:${fileCursor[fileIdx]++}`);
+                    if (pos !== undefined && trySelect(pos)) added = true;
+                });
+            }
+        }
+    }
+
+    const files: RetrievedFile[] = [];
+    Array.from(filesUsed).sort((a, b) => a - b).forEach(fileIdx => {
+        const segmentIdxs = index.segments
+            .map((s, i) => ({ s, i }))
+            .filter(({ s, i }) => s.fileIdx === fileIdx && selected.has(i))
+            .map(({ s }) => s.segmentIdx);
+        if (segmentIdxs.length > 0) files.push({ fileIdx, source: processedData[fileIdx], segmentIdxs });
+    });
+
+    return {
+        files,
+        selectedSegments: selected.size,
+        totalSegments: index.segments.length,
+        estimatedTokens: used,
+        truncated: selected.size < index.segments.length
+    };
+};
+
+/**
+ * Candidate segment positions per query, best first. With embeddings the BM25 score
+ * (normalised per query) is blended 50/50 with cosine similarity.
+ */
+const rankForQueries = async (index: SegmentIndex, queries: string[], embed?: EmbedFn): Promise<number[][]> => {
+    let segmentVectors: number[][] | null = null;
+    let queryVectors: number[][] | null = null;
+    if (embed) {
+        try {
+            const texts = index.segments.map(s => formatSegmentText(index.processedData[s.fileIdx].segments[s.segmentIdx]));
+            [segmentVectors, queryVectors] = await Promise.all([embed(texts), embed(queries)]);
+        } catch (error) {
+            console.warn("Embedding retrieval unavailable, using lexical ranking only:", error);
+        }
+    }
+
+    return queries.map((query, q) => {
+        const lexical = scoreSegments(index, query);
+        const maxLexical = Math.max(0, ...lexical);
+        const scores = lexical.map((score, i) => {
+            const normalized = maxLexical > 0 ? score / maxLexical : 0;
+            if (!segmentVectors || !queryVectors) return normalized;
+            return 0.5 * normalized + 0.5 * Math.max(0, cosine(queryVectors[q], segmentVectors[i]));
+        });
+        return scores
+            .map((score, i) => ({ score, i }))
+            .filter(x => x.score > 0)
+            .sort((a, b) => b.score - a.score || a.i - b.i)
+            .map(x => x.i);
+    });
+};
+
+/**
+ * Prompt lines of a retrieved file, with "[...]" marking omitted stretches.
+ */
+export const formatRetrievedFile = (file: RetrievedFile): string => {
+    const lines: string[] = [];
+    file.segmentIdxs.forEach((segmentIdx, i) => {
+        if (i > 0 && segmentIdx !== file.segmentIdxs[i - 1] + 1) lines.push("[...]");
+        lines.push(formatSegmentLine(file.fileIdx, segmentIdx, file.source));
+    });
+    return lines.join('\n');
+};
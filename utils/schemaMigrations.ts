@@ -0,0 +1,635 @@
+import { EvidenceType, FactStatus, SchemaMigrationReport, SerializedDatabase, SerializedProject, StoredSession } from "../types";
+import { DEFAULT_RETRIEVAL_SETTINGS } from "./retrieval";
+import { createSegmentId } from "./citations";
+import { legacyLocation } from "./evidenceLocation";
+import { fillSegmentEnds } from "./wordTiming";
+import { parseSpeakerLabel } from "./speakers";
+
+/**
+ * Current schema version of SerializedProject / SerializedDatabase / StoredSession.
+ *
+ * When a type in types.ts changes shape:
+ *  1. bump this constant,
+ *  2. add a migration to MIGRATIONS that upgrades data from the previous version,
+ *  3. update the field specs below so validation knows the new shape.
+ */
+export const CURRENT_SCHEMA_VERSION = 19;
+
+// Files saved before explicit versioning existed (type 'project_v2' / 'database_v2' only)
+const LEGACY_SCHEMA_VERSION = 2;
+
+type MigrationKind = 'project' | 'database';
+
+interface SchemaMigration {
+    version: number; // Version produced by this migration (upgrades from version - 1)
+    description: string;
+    project?: (data: any, report: SchemaMigrationReport) => any;
+    database?: (data: any, report: SchemaMigrationReport) => any;
+}
+
+// Segment or citation with `seconds` → with `location`
+const withLegacyLocation = (item: any, fileType?: EvidenceType): any => {
+    if (!item || typeof item !== 'object' || item.location) return item;
+    const { seconds, ...rest } = item;
+    const numeric = typeof seconds === 'number' ? seconds : Number(seconds) || 0;
+    return { ...rest, location: legacyLocation(String(item.timestamp ?? ''), numeric, fileType) };
+};
+
+const MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 3,
+        description: "v2 → v3: versão de esquema explícita",
+        // No structural change: files only gain the schemaVersion field
+    },
+    {
+        version: 4,
+        description: "v3 → v4: fornecedor de IA por projeto",
+        // Projects created before providers were selectable always used Gemini
+        project: (data) => ({ ...data, providerId: data.providerId ?? 'gemini' }),
+    },
+    {
+        version: 5,
+        description: "v4 → v5: factos sem resposta e avisos de validação nos relatórios",
+        // Optional fields only: older reports simply have none
+    },
+    {
+        version: 6,
+        description: "v5 → v6: histórico de reanálises nos relatórios",
+        // Optional field only
+    },
+    {
+        version: 7,
+        description: "v6 → v7: orçamento de contexto da pesquisa de evidências",
+        project: (data) => ({ ...data, retrieval: data.retrieval ?? { ...DEFAULT_RETRIEVAL_SETTINGS } }),
+    },
+    {
+        version: 8,
+        description: "v7 → v8: identificadores estáveis de segmentos para as citações",
+        // Older citations have no segment ID; they are resolved by exact position when shown
+        database: (data) => ({
+            ...data,
+            processedData: Array.isArray(data.processedData)
+                ? data.processedData.map((pd: any) => ({
+                    ...pd,
+                    segments: Array.isArray(pd?.segments) ? pd.segments.map((seg: any) => seg && typeof seg === 'object' ? { ...seg, id: seg.id ?? createSegmentId() } : seg) : pd?.segments
+                }))
+                : data.processedData
+        }),
+    },
+    {
+        version: 9,
+        description: "v8 → v9: localização tipada (tempo, página, imagem, parágrafo) em vez de segundos",
+        // `seconds` meant time for recordings and page number for documents; the label and the
+        // file type (from the manifest, when present) tell which one it was
+        database: (data) => {
+            const typeOf = (fileId: string) => Array.isArray(data.fileManifest) ? data.fileManifest.find((f: any) => f?.id === fileId)?.type : undefined;
+            return {
+                ...data,
+                processedData: Array.isArray(data.processedData)
+                    ? data.processedData.map((pd: any) => {
+                        if (!Array.isArray(pd?.segments)) return pd;
+                        // Paragraphs are numbered within their page, as new transcripts are
+                        const paragraphsPerPage = new Map<number, number>();
+                        const segments = pd.segments.map((seg: any) => {
+                            const migrated = withLegacyLocation(seg, typeOf(pd.fileId));
+                            const location = migrated?.location;
+                            if (location?.kind !== 'PAGE' || location.paragraph !== undefined) return migrated;
+                            const paragraph = (paragraphsPerPage.get(location.page) || 0) + 1;
+                            paragraphsPerPage.set(location.page, paragraph);
+                            return { ...migrated, location: { ...location, paragraph } };
+                        });
+                        return { ...pd, segments };
+                    })
+                    : data.processedData
+            };
+        },
+        project: (data) => ({
+            ...data,
+            savedReports: Array.isArray(data.savedReports)
+                ? data.savedReports.map((report: any) => ({
+                    ...report,
+                    results: Array.isArray(report?.results)
+                        ? report.results.map((r: any) => ({
+                            ...r,
+                            citations: Array.isArray(r?.citations) ? r.citations.map((c: any) => withLegacyLocation(c)) : r?.citations
+                        }))
+                        : report?.results
+                }))
+                : data.savedReports
+        }),
+    },
+    {
+        version: 10,
+        description: "v9 → v10: verificação das citações contra a transcrição",
+        // Optional fields only: older citations are verified when shown
+    },
+    {
+        version: 11,
+        description: "v10 → v11: fim de cada fala e tempos por palavra nas gravações",
+        // Ends are estimated from speech rate (no audio here); word timings are only produced by
+        // a new transcription, the viewer spreads the words of older segments evenly
+        database: (data) => {
+            const durationOf = (fileId: string) => Array.isArray(data.fileManifest) ? data.fileManifest.find((f: any) => f?.id === fileId)?.duration : undefined;
+            return {
+                ...data,
+                processedData: Array.isArray(data.processedData)
+                    ? data.processedData.map((pd: any) => {
+                        if (!Array.isArray(pd?.segments) || !pd.segments.every((seg: any) => seg?.location?.kind && typeof seg.text === 'string')) return pd;
+                        const duration = durationOf(pd.fileId);
+                        return { ...pd, segments: fillSegmentEnds(pd.segments, typeof duration === 'number' ? duration : undefined) };
+                    })
+                    : data.processedData
+            };
+        },
+    },
+    {
+        version: 12,
+        description: "v11 → v12: correções manuais das transcrições com histórico",
+        // Optional fields only: older transcripts have no corrections
+    },
+    {
+        version: 13,
+        description: "v12 → v13: interlocutor estruturado por segmento e tabela de interlocutores",
+        // The "**Voz 1:**" label leaves the text for the speaker field, in the corrections' copies too
+        database: (data) => {
+            const withSpeaker = (seg: any) => {
+                if (!seg || typeof seg.text !== 'string' || seg.speaker) return seg;
+                const { speaker, text } = parseSpeakerLabel(seg.text);
+                return speaker ? { ...seg, speaker, text } : seg;
+            };
+            const migrateSegment = (seg: any) => {
+                const migrated = withSpeaker(seg);
+                return migrated?.original ? { ...migrated, original: withSpeaker(migrated.original) } : migrated;
+            };
+            const migrateSegments = (segs: any) => Array.isArray(segs) ? segs.map(migrateSegment) : segs;
+            return {
+                ...data,
+                processedData: Array.isArray(data.processedData)
+                    ? data.processedData.map((pd: any) => pd ? {
+                        ...pd,
+                        segments: migrateSegments(pd.segments),
+                        corrections: Array.isArray(pd.corrections)
+                            ? pd.corrections.map((c: any) => c ? { ...c, before: migrateSegments(c.before), after: migrateSegments(c.after) } : c)
+                            : pd.corrections
+                    } : pd)
+                    : data.processedData
+            };
+        },
+    },
+    {
+        version: 14,
+        description: "v13 → v14: número do processo no projeto",
+        // Optional field only: older projects have no case number
+    },
+    {
+        version: 15,
+        description: "v14 → v15: método de extração de cada página dos PDFs",
+        // Optional field only: PDFs processed before were read entirely by the AI
+    },
+    {
+        version: 16,
+        description: "v15 → v16: relatórios de contradições entre testemunhas",
+        project: (data) => ({ ...data, contradictionReports: data.contradictionReports ?? [] }),
+    },
+    {
+        version: 17,
+        description: "v16 → v17: comparação entre auto de inquirição e depoimento",
+        project: (data) => ({ ...data, statementComparisons: data.statementComparisons ?? [] }),
+    },
+    {
+        version: 18,
+        description: "v17 → v18: avisos de validação ligados ao facto a que se referem",
+        // Older warnings are plain text with the fact number already in it: they stay unlinked
+        project: (data) => ({
+            ...data,
+            savedReports: Array.isArray(data.savedReports)
+                ? data.savedReports.map((report: any) => Array.isArray(report?.validationIssues)
+                    ? { ...report, validationIssues: report.validationIssues.map((issue: any) => typeof issue === 'string' ? { message: issue } : issue) }
+                    : report)
+                : data.savedReports
+        }),
+    },
+    {
+        version: 19,
+        description: "v18 → v19: verificação das citações sempre feita contra a transcrição atual",
+        // The verification saved at analysis time went stale after transcript corrections
+        project: (data) => {
+            const withoutVerification = (c: any) => {
+                if (!c || typeof c !== 'object') return c;
+                const { verification, ...rest } = c;
+                return rest;
+            };
+            const mapCitations = (list: any) => Array.isArray(list) ? list.map(withoutVerification) : list;
+            const mapReports = (reports: any, map: (report: any) => any) => Array.isArray(reports) ? reports.map(r => r && typeof r === 'object' ? map(r) : r) : reports;
+            return {
+                ...data,
+                savedReports: mapReports(data.savedReports, report => ({
+                    ...report,
+                    results: Array.isArray(report.results) ? report.results.map((r: any) => r ? { ...r, citations: mapCitations(r.citations) } : r) : report.results
+                })),
+                contradictionReports: mapReports(data.contradictionReports, report => ({
+                    ...report,
+                    contradictions: Array.isArray(report.contradictions)
+                        ? report.contradictions.map((ct: any) => ct && Array.isArray(ct.statements)
+                            ? { ...ct, statements: ct.statements.map((st: any) => st ? { ...st, citation: withoutVerification(st.citation) } : st) }
+                            : ct)
+                        : report.contradictions
+                })),
+                statementComparisons: mapReports(data.statementComparisons, report => ({
+                    ...report,
+                    topics: Array.isArray(report.topics)
+                        ? report.topics.map((t: any) => t ? { ...t, inquiryCitations: mapCitations(t.inquiryCitations), testimonyCitations: mapCitations(t.testimonyCitations) } : t)
+                        : report.topics
+                })),
+            };
+        },
+    },
+];
+
+
+// --- FIELD SPECS (Validation) ---
+
+type FieldSpec =
+    | { kind: 'string'; optional?: boolean; default?: () => string }
+    | { kind: 'number'; optional?: boolean; default?: () => number }
+    | { kind: 'boolean'; optional?: boolean; default?: () => boolean }
+    | { kind: 'enum'; values: string[]; optional?: boolean; default: () => string }
+    | { kind: 'array'; item: ObjectSpec | FieldSpec; optional?: boolean }
+    | { kind: 'object'; spec: ObjectSpec; optional?: boolean }
+    | { kind: 'variant'; tag: string; variants: Record<string, ObjectSpec>; optional?: boolean; default: () => any };
+
+type ObjectSpec = Record<string, FieldSpec>;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+const isFieldSpec = (s: ObjectSpec | FieldSpec): s is FieldSpec => typeof (s as FieldSpec).kind === 'string';
+
+const variantTag = (value: string): FieldSpec => ({ kind: 'enum', values: [value], default: () => value });
+
+const LOCATION_SPEC: FieldSpec = {
+    kind: 'variant',
+    tag: 'kind',
+    default: () => ({ kind: 'PARAGRAPH', index: 1 }),
+    variants: {
+        AUDIO_TIME: { kind: variantTag('AUDIO_TIME'), start: { kind: 'number' }, end: { kind: 'number', optional: true } },
+        PAGE: { kind: variantTag('PAGE'), page: { kind: 'number', default: () => 1 }, paragraph: { kind: 'number', optional: true } },
+        IMAGE_REGION: {
+            kind: variantTag('IMAGE_REGION'),
+            region: { kind: 'object', optional: true, spec: { x: { kind: 'number' }, y: { kind: 'number' }, width: { kind: 'number' }, height: { kind: 'number' } } },
+        },
+        PARAGRAPH: { kind: variantTag('PARAGRAPH'), index: { kind: 'number', default: () => 1 } },
+    },
+};
+
+const CITATION_SPEC: ObjectSpec = {
+    fileId: { kind: 'string' },
+    segmentId: { kind: 'string', optional: true },
+    fileName: { kind: 'string' },
+    timestamp: { kind: 'string' },
+    location: LOCATION_SPEC,
+    text: { kind: 'string' },
+    quote: { kind: 'string', optional: true },
+    speaker: { kind: 'string', optional: true },
+};
+
+const FACT_ANALYSIS_SPEC: ObjectSpec = {
+    factId: { kind: 'string' },
+    factText: { kind: 'string' },
+    status: { kind: 'enum', values: Object.values(FactStatus), default: () => FactStatus.INCONCLUSIVE },
+    summary: { kind: 'string' },
+    citations: { kind: 'array', item: CITATION_SPEC },
+};
+
+const REPORT_SPEC: ObjectSpec = {
+    id: { kind: 'string', default: generateId },
+    name: { kind: 'string', default: () => 'Relatório' },
+    generatedAt: { kind: 'string', default: () => new Date().toISOString() },
+    results: { kind: 'array', item: FACT_ANALYSIS_SPEC },
+    generalConclusion: { kind: 'string' },
+    missingFacts: { kind: 'array', optional: true, item: { factId: { kind: 'string' }, factText: { kind: 'string' } } },
+    validationIssues: { kind: 'array', optional: true, item: { factId: { kind: 'string', optional: true }, message: { kind: 'string' } } },
+    revisions: {
+        kind: 'array',
+        optional: true,
+        item: {
+            id: { kind: 'string', default: generateId },
+            createdAt: { kind: 'string', default: () => new Date().toISOString() },
+            scope: { kind: 'enum', values: ['FACT', 'CHANGED'], default: () => 'CHANGED' },
+            changes: {
+                kind: 'array',
+                item: {
+                    factId: { kind: 'string' },
+                    factText: { kind: 'string' },
+                    previousFactText: { kind: 'string', optional: true },
+                    previousStatus: { kind: 'enum', values: Object.values(FactStatus), optional: true, default: () => FactStatus.INCONCLUSIVE },
+                    previousSummary: { kind: 'string', optional: true },
+                    status: { kind: 'enum', values: Object.values(FactStatus), optional: true, default: () => FactStatus.INCONCLUSIVE },
+                    summary: { kind: 'string', optional: true },
+                }
+            },
+        }
+    },
+};
+
+const CONTRADICTION_STATEMENT_SPEC: ObjectSpec = {
+    personName: { kind: 'string' },
+    summary: { kind: 'string' },
+    citation: { kind: 'object', spec: CITATION_SPEC },
+};
+
+const CONTRADICTION_REPORT_SPEC: ObjectSpec = {
+    id: { kind: 'string', default: generateId },
+    name: { kind: 'string', default: () => 'Contradições' },
+    generatedAt: { kind: 'string', default: () => new Date().toISOString() },
+    comparedFileIds: { kind: 'array', item: { kind: 'string' } },
+    contradictions: {
+        kind: 'array',
+        item: {
+            id: { kind: 'string', default: generateId },
+            topic: { kind: 'string' },
+            explanation: { kind: 'string' },
+            statements: { kind: 'array', item: CONTRADICTION_STATEMENT_SPEC },
+        }
+    },
+    generalConclusion: { kind: 'string' },
+    validationIssues: { kind: 'array', optional: true, item: { kind: 'string' } },
+};
+
+const STATEMENT_COMPARISON_SPEC: ObjectSpec = {
+    id: { kind: 'string', default: generateId },
+    name: { kind: 'string', default: () => 'Comparação' },
+    generatedAt: { kind: 'string', default: () => new Date().toISOString() },
+    personId: { kind: 'string' },
+    personName: { kind: 'string' },
+    inquiryFileIds: { kind: 'array', item: { kind: 'string' } },
+    testimonyFileIds: { kind: 'array', item: { kind: 'string' } },
+    topics: {
+        kind: 'array',
+        item: {
+            id: { kind: 'string', default: generateId },
+            topic: { kind: 'string' },
+            kind: { kind: 'enum', values: ['CONSISTENT', 'ADDITION', 'OMISSION', 'DIVERGENCE'], default: () => 'DIVERGENCE' },
+            explanation: { kind: 'string' },
+            inquiryCitations: { kind: 'array', item: CITATION_SPEC },
+            testimonyCitations: { kind: 'array', item: CITATION_SPEC },
+        }
+    },
+    generalConclusion: { kind: 'string' },
+    validationIssues: { kind: 'array', optional: true, item: { kind: 'string' } },
+};
+
+const PROJECT_SPEC: ObjectSpec = {
+    type: { kind: 'enum', values: ['project_v2'], default: () => 'project_v2' },
+    schemaVersion: { kind: 'number', default: () => CURRENT_SCHEMA_VERSION },
+    caseId: { kind: 'string', optional: true },
+    providerId: { kind: 'enum', values: ['gemini', 'mock'], default: () => 'gemini' },
+    retrieval: {
+        kind: 'object',
+        spec: {
+            tokenBudget: { kind: 'number', default: () => DEFAULT_RETRIEVAL_SETTINGS.tokenBudget },
+            useEmbeddings: { kind: 'boolean', default: () => DEFAULT_RETRIEVAL_SETTINGS.useEmbeddings },
+        }
+    },
+    people: { kind: 'array', item: { id: { kind: 'string', default: generateId }, name: { kind: 'string' }, role: { kind: 'string', optional: true } } },
+    facts: { kind: 'array', item: { id: { kind: 'string', default: generateId }, text: { kind: 'string' } } },
+    savedReports: { kind: 'array', item: REPORT_SPEC },
+    contradictionReports: { kind: 'array', item: CONTRADICTION_REPORT_SPEC },
+    statementComparisons: { kind: 'array', item: STATEMENT_COMPARISON_SPEC },
+    chatHistory: {
+        kind: 'array',
+        item: {
+            id: { kind: 'string', default: generateId },
+            role: { kind: 'enum', values: ['user', 'model'], default: () => 'model' },
+            text: { kind: 'string' },
+            timestamp: { kind: 'number', default: () => Date.now() },
+        }
+    },
+    createdAt: { kind: 'number', default: () => Date.now() },
+};
+
+const SEGMENT_SPEC: ObjectSpec = {
+    id: { kind: 'string', default: createSegmentId },
+    timestamp: { kind: 'string' },
+    location: LOCATION_SPEC,
+    speaker: { kind: 'string', optional: true },
+    text: { kind: 'string' },
+    words: { kind: 'array', optional: true, item: { text: { kind: 'string' }, start: { kind: 'number' }, end: { kind: 'number' } } },
+    original: { kind: 'object', optional: true, spec: { timestamp: { kind: 'string' }, location: LOCATION_SPEC, speaker: { kind: 'string', optional: true }, text: { kind: 'string' } } },
+    aliasIds: { kind: 'array', optional: true, item: { kind: 'string' } },
+};
+
+const PROCESSED_CONTENT_SPEC: ObjectSpec = {
+    fileId: { kind: 'string' },
+    fileName: { kind: 'string' },
+    fullText: { kind: 'string' },
+    segments: { kind: 'array', item: SEGMENT_SPEC },
+    processedAt: { kind: 'number', default: () => Date.now() },
+    speakers: { kind: 'array', optional: true, item: { label: { kind: 'string' }, personId: { kind: 'string', optional: true } } },
+    pageMethods: { kind: 'array', optional: true, item: { page: { kind: 'number' }, method: { kind: 'enum', values: ['TEXT_LAYER', 'AI_OCR'], default: () => 'AI_OCR' } } },
+    corrections: {
+        kind: 'array',
+        optional: true,
+        item: {
+            id: { kind: 'string', default: generateId },
+            createdAt: { kind: 'string', default: () => new Date().toISOString() },
+            kind: { kind: 'enum', values: ['TEXT', 'SPEAKER', 'TIME', 'SPLIT', 'MERGE', 'RENAME_SPEAKER', 'UNDO'], default: () => 'TEXT' },
+            description: { kind: 'string' },
+            before: { kind: 'array', item: SEGMENT_SPEC },
+            after: { kind: 'array', item: SEGMENT_SPEC },
+            undoes: { kind: 'string', optional: true },
+        }
+    },
+};
+
+const DATABASE_SPEC: ObjectSpec = {
+    type: { kind: 'enum', values: ['database_v2'], default: () => 'database_v2' },
+    schemaVersion: { kind: 'number', default: () => CURRENT_SCHEMA_VERSION },
+    processedData: { kind: 'array', item: PROCESSED_CONTENT_SPEC },
+    fileManifest: {
+        kind: 'array',
+        item: {
+            id: { kind: 'string', default: generateId },
+            name: { kind: 'string' },
+            type: { kind: 'enum', values: ['AUDIO', 'PDF', 'IMAGE', 'TEXT', 'OTHER'], default: () => 'OTHER' },
+            category: { kind: 'enum', values: ['TESTIMONY', 'INQUIRY', 'OTHER'], default: () => 'OTHER' },
+            folder: { kind: 'string', optional: true },
+            personId: { kind: 'string', optional: true },
+            sha256: { kind: 'string', optional: true },
+            size: { kind: 'number', optional: true },
+            duration: { kind: 'number', optional: true },
+        }
+    },
+    exportedAt: { kind: 'number', default: () => Date.now() },
+};
+
+const defaultFor = (spec: FieldSpec): any => {
+    switch (spec.kind) {
+        case 'string': return spec.default ? spec.default() : '';
+        case 'number': return spec.default ? spec.default() : 0;
+        case 'boolean': return spec.default ? spec.default() : false;
+        case 'enum': return spec.default();
+        case 'variant': return spec.default();
+        case 'array': return [];
+        case 'object': {
+            const result: any = {};
+            Object.entries(spec.spec).forEach(([key, fieldSpec]) => {
+                if (!fieldSpec.optional) result[key] = defaultFor(fieldSpec);
+            });
+            return result;
+        }
+    }
+};
+
+const normalizeField = (value: any, spec: FieldSpec, path: string, report: SchemaMigrationReport): { keep: boolean; value?: any } => {
+    if (value === undefined || value === null) {
+        if (spec.optional) return { keep: false };
+        report.defaulted.push(path);
+        return { keep: true, value: defaultFor(spec) };
+    }
+
+    const invalid = () => {
+        if (spec.optional) {
+            report.dropped.push(path);
+            return { keep: false };
+        }
+        report.defaulted.push(path);
+        return { keep: true, value: defaultFor(spec) };
+    };
+
+    switch (spec.kind) {
+        case 'string':
+            if (typeof value === 'number') return { keep: true, value: String(value) };
+            return typeof value === 'string' ? { keep: true, value } : invalid();
+        case 'number': {
+            const num = typeof value === 'string' ? Number(value) : value;
+            return typeof num === 'number' && Number.isFinite(num) ? { keep: true, value: num } : invalid();
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? { keep: true, value } : invalid();
+        case 'enum':
+            return spec.values.includes(value) ? { keep: true, value } : invalid();
+        case 'object':
+            return typeof value === 'object' && !Array.isArray(value) ? { keep: true, value: normalizeObject(value, spec.spec, path, report) } : invalid();
+        case 'variant': {
+            // The tag field picks which object spec applies
+            const variant = typeof value === 'object' && !Array.isArray(value) ? spec.variants[value[spec.tag]] : undefined;
+            return variant ? { keep: true, value: normalizeObject(value, variant, path, report) } : invalid();
+        }
+        case 'array': {
+            if (!Array.isArray(value)) return invalid();
+            const items: any[] = [];
+            value.forEach((item, i) => {
+                const itemPath = `${path}[${i}]`;
+                if (isFieldSpec(spec.item)) {
+                    const res = normalizeField(item, spec.item, itemPath, report);
+                    if (res.keep) items.push(res.value);
+                } else if (item && typeof item === 'object' && !Array.isArray(item)) {
+                    items.push(normalizeObject(item, spec.item, itemPath, report));
+                } else {
+                    report.dropped.push(itemPath);
+                }
+            });
+            return { keep: true, value: items };
+        }
+    }
+};
+
+const normalizeObject = (value: any, spec: ObjectSpec, path: string, report: SchemaMigrationReport): any => {
+    const result: any = {};
+    Object.entries(spec).forEach(([key, fieldSpec]) => {
+        const res = normalizeField(value[key], fieldSpec, path ? `${path}.${key}` : key, report);
+        if (res.keep) result[key] = res.value;
+    });
+    Object.keys(value).forEach(key => {
+        if (!(key in spec)) report.dropped.push(path ? `${path}.${key}` : key);
+    });
+    return result;
+};
+
+// --- MIGRATION RUNNER ---
+
+const runMigrations = (raw: any, kind: MigrationKind): { data: any; report: SchemaMigrationReport } => {
+    const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : LEGACY_SCHEMA_VERSION;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Este ficheiro foi criado por uma versão mais recente do Veritas (esquema v${fromVersion}). Atualize a aplicação.`);
+    }
+
+    const report: SchemaMigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied: [], dropped: [], defaulted: [] };
+
+    let data = { ...raw };
+    MIGRATIONS
+        .filter(m => m.version > fromVersion)
+        .sort((a, b) => a.version - b.version)
+        .forEach(m => {
+            const step = m[kind];
+            if (step) data = step(data, report);
+            data.schemaVersion = m.version;
+            report.applied.push(m.description);
+        });
+
+    data = normalizeObject(data, kind === 'project' ? PROJECT_SPEC : DATABASE_SPEC, '', report);
+    data.schemaVersion = CURRENT_SCHEMA_VERSION;
+    return { data, report };
+};
+
+/**
+ * Upgrades a serialized project of any known version to the current schema and validates it.
+ */
+export const migrateProject = (raw: any): { data: SerializedProject; report: SchemaMigrationReport } => {
+    return runMigrations(raw, 'project');
+};
+
+/**
+ * Upgrades a serialized database of any known version to the current schema and validates it.
+ */
+export const migrateDatabase = (raw: any): { data: SerializedDatabase; report: SchemaMigrationReport } => {
+    return runMigrations(raw, 'database');
+};
+
+/**
+ * Upgrades a session stored in IndexedDB. Only the project and processed data go through migrations;
+ * session file records are EvidenceFile metadata, which has no serialized counterpart to migrate.
+ */
+export const migrateStoredSession = (session: StoredSession): StoredSession => {
+    const version = session.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+    if (version === CURRENT_SCHEMA_VERSION) return session;
+
+    const { processedData, lastModified, ...projectFields } = session.project;
+    const project = migrateProject({ ...projectFields, type: 'project_v2', schemaVersion: version }).data;
+    // The manifest only tells migrations each file's type and duration
+    const fileManifest = session.files.map(f => ({ id: f.id, name: f.name, type: f.type, category: f.category, duration: f.duration }));
+    const database = migrateDatabase({ type: 'database_v2', schemaVersion: version, processedData, fileManifest }).data;
+
+    return {
+        ...session,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        project: {
+            ...session.project,
+            caseId: project.caseId,
+            providerId: project.providerId,
+            retrieval: project.retrieval,
+            people: project.people,
+            facts: project.facts,
+            savedReports: project.savedReports,
+            contradictionReports: project.contradictionReports,
+            statementComparisons: project.statementComparisons,
+            chatHistory: project.chatHistory,
+            processedData: database.processedData
+        }
+    };
+};
+
+/**
+ * Human-readable summary of a migration report (empty when nothing noteworthy happened).
+ */
+export const describeMigrationReport = (report: SchemaMigrationReport, maxItems: number = 8): string => {
+    const lines: string[] = [];
+    const list = (items: string[]) => {
+        const shown = items.slice(0, maxItems).join(', ');
+        return items.length > maxItems ? `${shown} (+${items.length - maxItems})` : shown;
+    };
+
+    if (report.applied.length > 0) lines.push(`Ficheiro atualizado do esquema v${report.fromVersion} para v${report.toVersion}.`);
+    if (report.dropped.length > 0) lines.push(`Campos descartados: ${list(report.dropped)}`);
+    if (report.defaulted.length > 0) lines.push(`Campos preenchidos com valores por defeito: ${list(report.defaulted)}`);
+    return lines.join('\n');
+};
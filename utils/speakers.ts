@@ -0,0 +1,122 @@
+import { Person, ProcessedContent, SpeakerEntry, TranscriptSegment } from "../types";
+
+// Speakers of a transcript. Each segment names its speaker by the label the transcription used
+// ("Voz 1", "Juiz"); the file's speaker table maps those labels to people of the case, so the
+// same person can be recognised across recordings whatever label each one used.
+
+export interface SpeakerRef {
+    fileId: string;
+    label: string;
+}
+
+/**
+ * Reads a leading "**Voz 1:**" label off a transcript line.
+ */
+export const parseSpeakerLabel = (text: string): { speaker?: string; text: string } => {
+    const match = text.match(/^\s*\*\*(.*?)\*\*\s*/);
+    if (!match) return { text };
+    const speaker = match[1].replace(/:\s*$/, '').trim();
+    return speaker ? { speaker, text: text.slice(match[0].length).trim() } : { text };
+};
+
+/**
+ * Line as readers and models see it: "**Voz 1:** Texto", or the text alone when nobody is named.
+ */
+export const formatSegmentText = (segment: Pick<TranscriptSegment, 'speaker' | 'text'>): string =>
+    segment.speaker ? `**${segment.speaker}:** ${segment.text}` : segment.text;
+
+export const transcriptFullText = (segments: TranscriptSegment[]): string =>
+    segments.map(s => `[${s.timestamp}] ${formatSegmentText(s)}`).join('\n');
+
+/**
+ * Speaker labels used in a transcript, in order of first appearance.
+ */
+export const getSpeakerLabels = (content: ProcessedContent): string[] =>
+    Array.from(new Set(content.segments.map(s => s.speaker).filter((s): s is string => !!s)));
+
+/**
+ * Speaker table of a file: the stored mapping for every label in use. Labels never mapped by hand
+ * are linked to the person with the same name, if there is one.
+ */
+export const getSpeakerTable = (content: ProcessedContent, people: Person[]): SpeakerEntry[] => {
+    return getSpeakerLabels(content).map(label => {
+        const stored = content.speakers?.find(e => e.label === label);
+        if (stored) return stored.personId && people.some(p => p.id === stored.personId) ? stored : { label };
+        const sameName = people.find(p => p.name.trim().toLowerCase() === label.toLowerCase());
+        return sameName ? { label, personId: sameName.id } : { label };
+    });
+};
+
+export const getSpeakerPerson = (content: ProcessedContent, label: string, people: Person[]): Person | undefined => {
+    const personId = getSpeakerTable(content, people).find(e => e.label === label)?.personId;
+    return personId ? people.find(p => p.id === personId) : undefined;
+};
+
+/**
+ * Links a label of one file to a person (or to nobody, which also stops automatic linking by name).
+ */
+export const setSpeakerPerson = (content: ProcessedContent, label: string, personId: string | undefined): ProcessedContent => {
+    const entry: SpeakerEntry = personId ? { label, personId } : { label };
+    return { ...content, speakers: [...(content.speakers || []).filter(e => e.label !== label), entry] };
+};
+
+const personLabel = (person: Person): string => person.role ? `${person.name} (${person.role})` : person.name;
+
+/**
+ * Name to show for a label: the linked person, or the label itself.
+ */
+export const getSpeakerDisplayName = (content: ProcessedContent, label: string, people: Person[]): string => {
+    const person = getSpeakerPerson(content, label, people);
+    return person ? personLabel(person) : label;
+};
+
+/**
+ * Copy of the processed data where every segment names the person who speaks instead of the
+ * transcription label, so analysis, chat and exports attribute statements to people.
+ */
+export const attributeSpeakers = (processedData: ProcessedContent[], people: Person[]): ProcessedContent[] => {
+    return processedData.map(content => {
+        const names = new Map(getSpeakerTable(content, people)
+            .filter(e => e.personId)
+            .map(e => [e.label, getSpeakerDisplayName(content, e.label, people)]));
+        if (names.size === 0) return content;
+        const segments = content.segments.map(s => s.speaker && names.has(s.speaker) ? { ...s, speaker: names.get(s.speaker) } : s);
+        return { ...content, segments, fullText: transcriptFullText(segments) };
+    });
+};
+
+/**
+ * Treats several labels (usually from different recordings) as the same person: they are all
+ * linked to the first person already linked to one of them, or to a new person named after the
+ * first label.
+ */
+export const mergeSpeakers = (
+    processedData: ProcessedContent[],
+    people: Person[],
+    refs: SpeakerRef[]
+): { processedData: ProcessedContent[]; people: Person[]; personId: string } => {
+    if (refs.length === 0) throw new Error("Selecione pelo menos um interlocutor.");
+    const contentOf = (ref: SpeakerRef) => processedData.find(pd => pd.fileId === ref.fileId);
+    const linked = refs
+        .map(ref => { const content = contentOf(ref); return content ? getSpeakerPerson(content, ref.label, people) : undefined; })
+        .find((p): p is Person => !!p);
+
+    const person: Person = linked || { id: Math.random().toString(36).substr(2, 9), name: refs[0].label };
+    return {
+        people: linked ? people : [...people, person],
+        personId: person.id,
+        processedData: processedData.map(content => {
+            const labels = refs.filter(r => r.fileId === content.fileId).map(r => r.label);
+            return labels.reduce((acc, label) => setSpeakerPerson(acc, label, person.id), content);
+        })
+    };
+};
+
+/**
+ * Removes every link to a person that no longer exists.
+ */
+export const unlinkPerson = (processedData: ProcessedContent[], personId: string): ProcessedContent[] => {
+    return processedData.map(content => content.speakers?.some(e => e.personId === personId)
+        ? { ...content, speakers: content.speakers.map(e => e.personId === personId ? { label: e.label } : e) }
+        : content);
+};
@@ -0,0 +1,40 @@
+import { EvidenceFile, Person, ProcessedContent, StatementChangeKind } from "../types";
+import { getSpeakerTable } from "./speakers";
+
+// Comparison of a person's prior written statement (auto de inquirição, INQUIRY category) with
+// their recorded trial testimony (TESTIMONY category).
+
+export const STATEMENT_CHANGE_LABELS: Record<StatementChangeKind, string> = {
+    CONSISTENT: 'Coincidente',
+    ADDITION: 'Acrescento',
+    OMISSION: 'Omissão',
+    DIVERGENCE: 'Divergência',
+};
+
+export interface StatementSources {
+    inquiry: ProcessedContent[];
+    testimony: ProcessedContent[];
+}
+
+/**
+ * Processed files that hold a person's statements: inquiry files linked to them, and testimonies
+ * linked to them or in which one of the voices is linked to them.
+ */
+export const getStatementSources = (person: Person, files: EvidenceFile[], processedData: ProcessedContent[], people: Person[]): StatementSources => {
+    const categoryOf = (content: ProcessedContent) => files.find(f => f.id === content.fileId)?.category;
+    const isLinked = (content: ProcessedContent) => files.find(f => f.id === content.fileId)?.personId === person.id;
+    return {
+        inquiry: processedData.filter(pd => categoryOf(pd) === 'INQUIRY' && isLinked(pd)),
+        testimony: processedData.filter(pd => categoryOf(pd) === 'TESTIMONY' &&
+            (isLinked(pd) || getSpeakerTable(pd, people).some(e => e.personId === person.id)))
+    };
+};
+
+/**
+ * People with at least one processed inquiry statement and one processed testimony.
+ */
+export const getComparablePeople = (people: Person[], files: EvidenceFile[], processedData: ProcessedContent[]): Person[] =>
+    people.filter(person => {
+        const sources = getStatementSources(person, files, processedData, people);
+        return sources.inquiry.length > 0 && sources.testimony.length > 0;
+    });
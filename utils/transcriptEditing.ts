@@ -0,0 +1,251 @@
+import { EvidenceLocation, ProcessedContent, SegmentOriginal, TranscriptCorrection, TranscriptCorrectionKind, TranscriptSegment } from "../types";
+import { createSegmentId } from "./citations";
+import { audioTime, formatLocation, parseLocationLabel } from "./evidenceLocation";
+import { formatTimestamp } from "./transcriptStitching";
+import { transcriptFullText } from "./speakers";
+
+// Human corrections to a transcript. Each change replaces some segments with new versions and is
+// appended to `corrections` with both versions; corrected segments keep what the transcription
+// produced in `original`. Undo appends the reverse change, so the audit trail is never rewritten.
+
+export const CORRECTION_KIND_LABELS: Record<TranscriptCorrectionKind, string> = {
+    TEXT: 'Texto',
+    SPEAKER: 'Interlocutor',
+    TIME: 'Posição',
+    SPLIT: 'Divisão',
+    MERGE: 'Junção',
+    RENAME_SPEAKER: 'Renomeação',
+    UNDO: 'Anulação',
+};
+
+export interface SegmentEdit {
+    text?: string;     // What was said, without the speaker label
+    speaker?: string;  // Empty string removes the label
+    position?: string; // Label as shown in the viewer, e.g. "01:23", "01:23–01:31", "Pág 2, § 3"
+}
+
+const createCorrectionId = (): string => `cor_${Math.random().toString(36).substr(2, 9)}`;
+
+const withSpeaker = (segment: TranscriptSegment, speaker: string): TranscriptSegment => {
+    const { speaker: _previous, ...rest } = segment;
+    return speaker ? { ...rest, speaker } : rest;
+};
+
+// Label sent to the model and used by older citations for a position
+const timestampFor = (location: EvidenceLocation): string => {
+    switch (location.kind) {
+        case 'AUDIO_TIME': return formatTimestamp(location.start);
+        case 'PAGE': return `Pág ${location.page}`;
+        default: return formatLocation(location);
+    }
+};
+
+const originalOf = (segment: TranscriptSegment): SegmentOriginal =>
+    segment.original || { timestamp: segment.timestamp, location: segment.location, ...(segment.speaker ? { speaker: segment.speaker } : {}), text: segment.text };
+
+const withoutWords = (segment: TranscriptSegment): TranscriptSegment => {
+    const { words, ...rest } = segment;
+    return rest;
+};
+
+const startOf = (segment: TranscriptSegment): number => segment.location.kind === 'AUDIO_TIME' ? segment.location.start : 0;
+
+/**
+ * Puts `after` in place of `before`: edits of the same segments stay where they were, splits and
+ * merges take the place of the first replaced segment. Recordings stay in time order.
+ */
+const replaceSegments = (segments: TranscriptSegment[], before: TranscriptSegment[], after: TranscriptSegment[]): TranscriptSegment[] => {
+    const removed = new Set(before.map(s => s.id));
+    const sameSegments = after.length === before.length && after.every(s => removed.has(s.id));
+    let result: TranscriptSegment[];
+    if (sameSegments) {
+        const replacements = new Map(after.map(s => [s.id, s]));
+        result = segments.map(s => replacements.get(s.id) || s);
+    } else {
+        const at = segments.findIndex(s => removed.has(s.id));
+        const kept = segments.filter(s => !removed.has(s.id));
+        result = [...kept.slice(0, at), ...after, ...kept.slice(at)];
+    }
+    return result.every(s => s.location.kind === 'AUDIO_TIME') ? [...result].sort((a, b) => startOf(a) - startOf(b)) : result;
+};
+
+const applyCorrection = (
+    content: ProcessedContent,
+    kind: TranscriptCorrectionKind,
+    description: string,
+    before: TranscriptSegment[],
+    after: TranscriptSegment[],
+    undoes?: string
+): ProcessedContent => {
+    const segments = replaceSegments(content.segments, before, after);
+    const correction: TranscriptCorrection = {
+        id: createCorrectionId(),
+        createdAt: new Date().toISOString(),
+        kind,
+        description,
+        before,
+        after,
+        ...(undoes ? { undoes } : {})
+    };
+    return { ...content, segments, fullText: transcriptFullText(segments), corrections: [...(content.corrections || []), correction] };
+};
+
+const findSegment = (content: ProcessedContent, segmentId: string): { segment: TranscriptSegment; idx: number } => {
+    const idx = content.segments.findIndex(s => s.id === segmentId);
+    if (idx === -1) throw new Error("O segmento já não existe nesta transcrição.");
+    return { segment: content.segments[idx], idx };
+};
+
+// Position typed by the user; a recording keeps its length when only the start is given
+const parsePosition = (position: string, current: EvidenceLocation): EvidenceLocation => {
+    const parsed = parseLocationLabel(position);
+    if (!parsed || parsed.kind !== current.kind) {
+        throw new Error(`Posição inválida: "${position}". Use o mesmo formato (ex.: ${formatLocation(current)}).`);
+    }
+    if (parsed.kind === 'AUDIO_TIME' && current.kind === 'AUDIO_TIME' && parsed.end === undefined && current.end !== undefined) {
+        return audioTime(parsed.start, parsed.start + (current.end - current.start));
+    }
+    return parsed;
+};
+
+/**
+ * Corrects a segment's text, speaker and/or position as one correction. Unchanged fields are
+ * ignored; nothing is recorded when nothing changed.
+ */
+export const editSegment = (content: ProcessedContent, segmentId: string, edit: SegmentEdit): ProcessedContent => {
+    const { segment } = findSegment(content, segmentId);
+    const speaker = segment.speaker || '';
+    let next: TranscriptSegment = { ...segment };
+    const kinds: TranscriptCorrectionKind[] = [];
+    const changes: string[] = [];
+
+    if (edit.text !== undefined && edit.text.trim() && edit.text.trim() !== segment.text.trim()) {
+        next = { ...withoutWords(next), text: edit.text.trim() }; // Word timings no longer match the text
+        kinds.push('TEXT');
+        changes.push("texto");
+    }
+    if (edit.speaker !== undefined && edit.speaker.trim() !== speaker) {
+        next = withSpeaker(next, edit.speaker.trim());
+        kinds.push('SPEAKER');
+        changes.push(`interlocutor "${speaker || '—'}" → "${edit.speaker.trim() || '—'}"`);
+    }
+    if (edit.position !== undefined && edit.position.trim() !== formatLocation(segment.location)) {
+        const location = parsePosition(edit.position, segment.location);
+        if (formatLocation(location) !== formatLocation(segment.location)) {
+            next = { ...withoutWords(next), location, timestamp: timestampFor(location) };
+            kinds.push('TIME');
+            changes.push(`posição ${formatLocation(segment.location)} → ${formatLocation(location)}`);
+        }
+    }
+    if (kinds.length === 0) return content;
+
+    next = { ...next, original: originalOf(segment) };
+    return applyCorrection(content, kinds[0], `${formatLocation(segment.location)}: ${changes.join(', ')}`, [segment], [next]);
+};
+
+/**
+ * Splits a segment at a character offset of its text. The first
+ * part keeps the segment ID (so citations still resolve), the second part gets the same speaker;
+ * a recording's time is split at the word boundary when word timings exist, in proportion to the
+ * text otherwise.
+ */
+export const splitSegment = (content: ProcessedContent, segmentId: string, offset: number): ProcessedContent => {
+    const { segment } = findSegment(content, segmentId);
+    const spoken = segment.text.trim();
+    const firstSpoken = spoken.slice(0, offset).trim();
+    const secondSpoken = spoken.slice(offset).trim();
+    if (!firstSpoken || !secondSpoken) throw new Error("Coloque o cursor no meio do texto para dividir o segmento.");
+
+    let firstLocation = segment.location;
+    let secondLocation = segment.location;
+    let firstWords: TranscriptSegment['words'];
+    let secondWords: TranscriptSegment['words'];
+    if (segment.location.kind === 'AUDIO_TIME') {
+        const { start, end } = segment.location;
+        const wordCount = firstSpoken.split(/\s+/).length;
+        const words = segment.words && segment.words.length === spoken.split(/\s+/).length ? segment.words : undefined;
+        let cut: number | undefined;
+        if (words && words[wordCount]) {
+            cut = words[wordCount].start;
+            firstWords = words.slice(0, wordCount);
+            secondWords = words.slice(wordCount);
+        } else if (end !== undefined) {
+            cut = start + (end - start) * (firstSpoken.length / (firstSpoken.length + secondSpoken.length));
+        }
+        if (cut !== undefined) {
+            firstLocation = audioTime(start, cut);
+            secondLocation = audioTime(cut, end);
+        }
+    }
+
+    const original = originalOf(segment);
+    const first: TranscriptSegment = { ...withoutWords(segment), text: firstSpoken, location: firstLocation, timestamp: timestampFor(firstLocation), original, ...(firstWords ? { words: firstWords } : {}) };
+    const second: TranscriptSegment = withSpeaker({ id: createSegmentId(), text: secondSpoken, location: secondLocation, timestamp: timestampFor(secondLocation), original, ...(secondWords ? { words: secondWords } : {}) }, segment.speaker || '');
+    return applyCorrection(content, 'SPLIT', `${formatLocation(segment.location)}: segmento dividido em dois`, [segment], [first, second]);
+};
+
+/**
+ * Merges a segment with the one after it, when both have the same speaker. The merged segment
+ * keeps the first ID and answers for the second one's citations too (aliasIds).
+ */
+export const mergeWithNext = (content: ProcessedContent, segmentId: string): ProcessedContent => {
+    const { segment: first, idx } = findSegment(content, segmentId);
+    const second = content.segments[idx + 1];
+    if (!second) throw new Error("Não há segmento seguinte para juntar.");
+
+    if ((first.speaker || '') !== (second.speaker || '')) {
+        throw new Error("Só é possível juntar falas do mesmo interlocutor. Corrija primeiro o interlocutor de um dos segmentos.");
+    }
+
+    let location = first.location;
+    if (first.location.kind === 'AUDIO_TIME' && second.location.kind === 'AUDIO_TIME') {
+        const ends = [first.location.end, second.location.end].filter((e): e is number => e !== undefined);
+        location = audioTime(Math.min(first.location.start, second.location.start), ends.length ? Math.max(...ends) : undefined);
+    }
+    const firstOriginal = originalOf(first);
+    const merged: TranscriptSegment = {
+        ...withoutWords(first),
+        text: `${first.text.trim()} ${second.text.trim()}`,
+        location,
+        timestamp: timestampFor(location),
+        original: { ...firstOriginal, text: `${firstOriginal.text} ${originalOf(second).text}` },
+        aliasIds: [...(first.aliasIds || []), second.id, ...(second.aliasIds || [])],
+        ...(first.words && second.words ? { words: [...first.words, ...second.words] } : {})
+    };
+    return applyCorrection(content, 'MERGE', `${formatLocation(first.location)} e ${formatLocation(second.location)}: segmentos juntos`, [first, second], [merged]);
+};
+
+/**
+ * Renames a speaker label in every segment of the transcript. The label's link to a person is
+ * copied to the new label (and kept on the old one, so an undo finds it again).
+ */
+export const renameSpeaker = (content: ProcessedContent, oldName: string, newName: string): ProcessedContent => {
+    const name = newName.trim();
+    const before = content.segments.filter(s => s.speaker === oldName);
+    if (!name || name === oldName || before.length === 0) return content;
+    const after = before.map(s => ({ ...s, speaker: name, original: originalOf(s) }));
+    const renamed = applyCorrection(content, 'RENAME_SPEAKER', `Interlocutor "${oldName}" renomeado para "${name}" (${before.length} segmentos)`, before, after);
+    const entry = content.speakers?.find(e => e.label === oldName);
+    return entry && !content.speakers?.some(e => e.label === name)
+        ? { ...renamed, speakers: [...(content.speakers || []), { ...entry, label: name }] }
+        : renamed;
+};
+
+/**
+ * Most recent correction that can still be undone (undos are undone by a new correction, not by undo).
+ */
+export const getUndoableCorrection = (content: ProcessedContent): TranscriptCorrection | undefined => {
+    const corrections = content.corrections || [];
+    const undone = new Set(corrections.map(c => c.undoes).filter(Boolean));
+    return [...corrections].reverse().find(c => c.kind !== 'UNDO' && !undone.has(c.id));
+};
+
+/**
+ * Reverts the most recent correction still in effect, recording the reversal as a correction.
+ */
+export const undoLastCorrection = (content: ProcessedContent): ProcessedContent => {
+    const last = getUndoableCorrection(content);
+    if (!last) return content;
+    // Every later correction was itself undone, so the transcript holds exactly `last.after`
+    return applyCorrection(content, 'UNDO', `Anulado — ${last.description}`, last.after, last.before, last.id);
+};
@@ -0,0 +1,415 @@
+import { EvidenceLocation, Person, ProcessedContent, TranscriptSegment } from "../types";
+import { sanitizeTranscript } from "../services/responseParser";
+import { createSegmentId } from "./citations";
+import { audioTime, pageParagraph, paragraphIndex, wholeImage } from "./evidenceLocation";
+import { getSpeakerDisplayName, getSpeakerTable, setSpeakerPerson } from "./speakers";
+import { formatTimestamp } from "./transcriptStitching";
+import { fillSegmentEnds } from "./wordTiming";
+
+// Transcript interchange: SRT and WebVTT subtitles, timestamped plain text and a JSON schema of
+// our own, out of and into ProcessedContent. Importers also read what other transcription tools
+// produce (voice tags, "Nome:" and "[SPEAKER_00]" prefixes, Otter/Rev speaker headings, Whisper JSON).
+
+export type TranscriptFormat = 'SRT' | 'VTT' | 'TXT' | 'JSON';
+
+export const TRANSCRIPT_FORMATS: { id: TranscriptFormat; label: string; extension: string; mimeType: string; timedOnly: boolean }[] = [
+    { id: 'SRT', label: 'Legendas SRT', extension: 'srt', mimeType: 'application/x-subrip', timedOnly: true },
+    { id: 'VTT', label: 'Legendas WebVTT', extension: 'vtt', mimeType: 'text/vtt', timedOnly: true },
+    { id: 'TXT', label: 'Texto com tempos', extension: 'txt', mimeType: 'text/plain', timedOnly: false },
+    { id: 'JSON', label: 'JSON (Veritas)', extension: 'json', mimeType: 'application/json', timedOnly: false },
+];
+
+export const TRANSCRIPT_JSON_FORMAT = 'veritas-transcript';
+export const TRANSCRIPT_JSON_VERSION = 1;
+
+/**
+ * JSON transcript schema (version 1):
+ * - `speakers`: every label used, with the name of the person it is linked to in the case;
+ * - `segments`: in order, each with its typed location (see EvidenceLocation), optional speaker
+ *   label, text and, for recordings, word timings in seconds.
+ */
+export interface TranscriptJson {
+    format: typeof TRANSCRIPT_JSON_FORMAT;
+    version: number;
+    fileName: string;
+    exportedAt: string;
+    speakers: { label: string; person?: string }[];
+    segments: Pick<TranscriptSegment, 'id' | 'location' | 'speaker' | 'text' | 'words'>[];
+}
+
+export interface TranscriptImport {
+    format: TranscriptFormat;
+    segments: TranscriptSegment[];
+    speakerPeople: Record<string, string>; // Label → person name, when the file says who a speaker is
+}
+
+/**
+ * Whether a transcript can be written as subtitles: every segment is a time in a recording.
+ */
+export const isTimedTranscript = (content: ProcessedContent): boolean =>
+    content.segments.length > 0 && content.segments.every(s => s.location.kind === 'AUDIO_TIME');
+
+// --- EXPORT ---
+
+const subtitleTime = (seconds: number, separator: ',' | '.'): string => {
+    const ms = Math.round(Math.max(0, seconds) * 1000);
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Writes a transcript in an interchange format. Subtitle and text formats name each speaker by the
+ * person linked to it; JSON keeps the labels and lists the links separately.
+ */
+export const formatTranscript = (content: ProcessedContent, format: TranscriptFormat, people: Person[]): string => {
+    if (format === 'JSON') {
+        const data: TranscriptJson = {
+            format: TRANSCRIPT_JSON_FORMAT,
+            version: TRANSCRIPT_JSON_VERSION,
+            fileName: content.fileName,
+            exportedAt: new Date().toISOString(),
+            speakers: getSpeakerTable(content, people).map(entry => {
+                const person = people.find(p => p.id === entry.personId);
+                return person ? { label: entry.label, person: person.name } : { label: entry.label };
+            }),
+            segments: content.segments.map(s => ({
+                id: s.id,
+                location: s.location,
+                ...(s.speaker ? { speaker: s.speaker } : {}),
+                text: s.text,
+                ...(s.words?.length ? { words: s.words } : {})
+            }))
+        };
+        return JSON.stringify(data, null, 2);
+    }
+
+    const name = (segment: TranscriptSegment) => segment.speaker ? getSpeakerDisplayName(content, segment.speaker, people) : undefined;
+
+    if (format === 'TXT') {
+        return content.segments.map(s => {
+            const speaker = name(s);
+            const line = speaker ? `${speaker}: ${s.text}` : s.text;
+            switch (s.location.kind) {
+                case 'AUDIO_TIME': return `[${formatTimestamp(s.location.start)}${s.location.end !== undefined ? `-${formatTimestamp(s.location.end)}` : ''}] ${line}`;
+                case 'PAGE': return `[Pág ${s.location.page}] ${line}`;
+                default: return `${line}\n`; // Unpaginated blocks are separated by blank lines
+            }
+        }).join('\n');
+    }
+
+    if (!isTimedTranscript(content)) throw new Error("Só as transcrições de gravações podem ser exportadas como legendas.");
+    const cues = fillSegmentEnds(content.segments).map(s => {
+        const loc = s.location as Extract<EvidenceLocation, { kind: 'AUDIO_TIME' }>;
+        return { start: loc.start, end: loc.end ?? loc.start, speaker: name(s), text: s.text };
+    });
+    if (format === 'SRT') {
+        return cues.map((cue, idx) =>
+            `${idx + 1}\n${subtitleTime(cue.start, ',')} --> ${subtitleTime(cue.end, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`
+        ).join('\n');
+    }
+    return `WEBVTT\n\n${cues.map(cue =>
+        `${subtitleTime(cue.start, '.')} --> ${subtitleTime(cue.end, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cue.text)}\n`
+    ).join('\n')}`;
+};
+
+// --- IMPORT ---
+
+const SUBTITLE_TIME = /(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/;
+
+const parseSubtitleTime = (text: string): number | null => {
+    const m = text.trim().match(new RegExp(`^${SUBTITLE_TIME.source}$`));
+    if (!m) return null;
+    return (m[1] ? parseInt(m[1]) * 3600 : 0) + parseInt(m[2]) * 60 + parseInt(m[3]) + (m[4] ? parseInt(m[4].padEnd(3, '0')) / 1000 : 0);
+};
+
+/**
+ * Splits a speaker name off the start of an imported line: "Nome: texto", "[SPEAKER_00]: texto",
+ * "[Juiz] texto" or "**Nome:** texto". A prefix counts as a name only when it is short and reads
+ * like one (capitalised, at most five words, no sentence punctuation).
+ */
+export const splitSpeakerPrefix = (line: string): { speaker?: string; text: string } => {
+    const bold = line.match(/^\s*\*\*([^*]{1,60}?):?\*\*:?\s+([\s\S]+)$/);
+    if (bold) return { speaker: bold[1].trim(), text: bold[2].trim() };
+    const bracketed = line.match(/^\s*\[([^\]\d:][^\]]{0,59})\]:?\s+([\s\S]+)$/);
+    if (bracketed) return { speaker: bracketed[1].trim(), text: bracketed[2].trim() };
+    const plain = line.match(/^\s*([A-ZÀ-Þ][^:.!?,;\n]{0,39}?):\s+([\s\S]+)$/);
+    if (plain && plain[1].trim().split(/\s+/).length <= 5) return { speaker: plain[1].trim(), text: plain[2].trim() };
+    return { text: line.trim() };
+};
+
+const timedSegment = (start: number, end: number | undefined, line: string): TranscriptSegment | null => {
+    const { speaker, text } = splitSpeakerPrefix(line);
+    if (!text) return null;
+    return {
+        id: createSegmentId(),
+        timestamp: formatTimestamp(start),
+        location: audioTime(start, end !== undefined && end > start ? end : undefined),
+        ...(speaker ? { speaker } : {}),
+        text
+    };
+};
+
+// SRT and WebVTT: blocks separated by blank lines, each with a "start --> end" line
+const parseSubtitles = (raw: string): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    raw.replace(/\r\n?/g, '\n').split(/\n\s*\n/).forEach(block => {
+        const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+        const timing = lines.findIndex(l => l.includes('-->'));
+        if (timing === -1) return; // WEBVTT header, NOTE, STYLE and REGION blocks
+        const [startText, endText] = lines[timing].split('-->');
+        const start = parseSubtitleTime(startText);
+        const end = parseSubtitleTime(endText.trim().split(/\s+/)[0] || '');
+        if (start === null) return;
+
+        let text = lines.slice(timing + 1).join(' ');
+        const voice = text.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+        text = text
+            // WebVTT escapes "<" in text, so any tag is markup; SRT only knows formatting tags
+            .replace(raw.trimStart().startsWith('WEBVTT') ? /<[^>]+>/g : /<\/?(?:i|b|u|font)\b[^>]*>/gi, '')
+            .replace(/\{\\[^}]*\}/g, '')  // SSA positioning codes some SRT files carry
+            .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')
+            .trim();
+        const segment = voice
+            ? (text ? { id: createSegmentId(), timestamp: formatTimestamp(start), location: audioTime(start, end !== null && end > start ? end : undefined), speaker: voice[1].trim(), text } : null)
+            : timedSegment(start, end ?? undefined, text);
+        if (segment) segments.push(segment);
+    });
+    return segments;
+};
+
+// "Nome  0:03" / "Nome (00:01:03):" heading lines followed by what was said (Otter, Rev and similar)
+const SPEAKER_HEADING = /^\s*([^\s.,;!?\[\]][^\n.,;!?\[\]]{0,59}?)\s*[\s(]\(?(\d{1,2}:\d{2}(?::\d{2})?)\)?:?\s*$/;
+
+const parseSpeakerHeadings = (lines: string[]): TranscriptSegment[] => {
+    const firstLine = lines.find(l => l.trim());
+    const headings = lines.filter(l => SPEAKER_HEADING.test(l) && l.match(SPEAKER_HEADING)![1].trim().split(/\s+/).length <= 5);
+    // A prose line may end with a time; headings must open the text or repeat
+    if (headings.length === 0 || (headings.length < 2 && firstLine !== headings[0])) return [];
+
+    const segments: TranscriptSegment[] = [];
+    let current: { speaker: string; start: number; lines: string[] } | null = null;
+    const flush = () => {
+        const text = current?.lines.join(' ').trim();
+        if (current && text) {
+            segments.push({ id: createSegmentId(), timestamp: formatTimestamp(current.start), location: audioTime(current.start), speaker: current.speaker, text });
+        }
+    };
+    lines.forEach(line => {
+        const start = headings.includes(line) ? parseSubtitleTime(line.match(SPEAKER_HEADING)![2]) : null;
+        if (start !== null) {
+            flush();
+            current = { speaker: line.match(SPEAKER_HEADING)![1].replace(/[:\-–]\s*$/, '').trim(), start, lines: [] };
+        } else if (current && line.trim()) {
+            current.lines.push(line.trim());
+        }
+    });
+    flush();
+    return fillSegmentEnds(segments);
+};
+
+const TIMED_LINE = /^\s*\[\s*((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)(?:\s*[-–]\s*((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?))?\s*\]\s*(.*)$/;
+const PAGE_LINE = /^\s*\[\s*(?:P[áa]g\.?|Page)\s*(\d+)\s*\]\s*(.*)$/i;
+
+// One segment per "[MM:SS-MM:SS] Nome: texto" or "[Pág N] texto" line, as exported here and by most tools;
+// unmarked lines continue the previous segment. Unlike model output, nothing is filtered out.
+const parseMarkedLines = (lines: string[]): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    const paragraphsPerPage = new Map<number, number>();
+    lines.forEach(line => {
+        const timed = line.match(TIMED_LINE);
+        const paged = timed ? null : line.match(PAGE_LINE);
+        if (timed) {
+            const start = parseSubtitleTime(timed[1])!;
+            const segment = timedSegment(start, timed[2] ? parseSubtitleTime(timed[2]) ?? undefined : undefined, timed[3]);
+            if (segment) segments.push(segment);
+        } else if (paged) {
+            const page = parseInt(paged[1]);
+            const { speaker, text } = splitSpeakerPrefix(paged[2]);
+            if (!text) return;
+            const paragraph = (paragraphsPerPage.get(page) || 0) + 1;
+            paragraphsPerPage.set(page, paragraph);
+            segments.push({ id: createSegmentId(), timestamp: `Pág ${page}`, location: pageParagraph(page, paragraph), ...(speaker ? { speaker } : {}), text });
+        } else if (segments.length > 0 && line.trim()) {
+            segments[segments.length - 1].text += ` ${line.trim()}`;
+        }
+    });
+    return segments;
+};
+
+const parsePlainText = (raw: string): TranscriptSegment[] => {
+    const lines = raw.replace(/\r\n?/g, '\n')
+        // Several marked passages pasted on one line
+        .replace(/([^\n])[ \t]*(\[\s*(?:(?:\d{1,2}:)?\d{1,2}:\d{2}|P[áa]g\.?\s*\d+)[^\]\n]*\])/g, '$1\n$2')
+        .split('\n');
+    const headed = parseSpeakerHeadings(lines);
+    if (headed.length > 0) return headed;
+    const marked = parseMarkedLines(lines);
+    if (marked.length > 0) return marked;
+    // Pasted model output with several timestamps per line
+    const sanitized = sanitizeTranscript(raw);
+    if (sanitized.length > 0) return sanitized;
+    // No markers at all: one segment per paragraph
+    return raw.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map((p, idx) => {
+        const { speaker, text } = splitSpeakerPrefix(p.replace(/\s*\n\s*/g, ' '));
+        return { id: createSegmentId(), timestamp: `Parte ${idx + 1}`, location: paragraphIndex(idx + 1), ...(speaker ? { speaker } : {}), text };
+    });
+};
+
+const numberField = (item: any, keys: string[]): number | undefined => {
+    for (const key of keys) {
+        const value = item[key];
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        if (typeof value === 'string') {
+            const parsed = parseSubtitleTime(value) ?? (value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : null);
+            if (parsed !== null) return parsed;
+        }
+    }
+    return undefined;
+};
+
+const stringField = (item: any, keys: string[]): string | undefined => {
+    const key = keys.find(k => typeof item[k] === 'string' && item[k].trim());
+    return key ? item[key].trim() : undefined;
+};
+
+const finiteNumber = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Our typed location, rebuilt from its numeric fields only; a malformed one is not accepted
+const parseLocation = (value: any): EvidenceLocation | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    switch (value.kind) {
+        case 'AUDIO_TIME': {
+            const start = finiteNumber(value.start);
+            if (start === undefined || start < 0) return undefined;
+            const end = finiteNumber(value.end);
+            return audioTime(start, end !== undefined && end >= start ? end : undefined);
+        }
+        case 'PAGE': {
+            const page = finiteNumber(value.page);
+            const paragraph = finiteNumber(value.paragraph);
+            if (page === undefined || page < 1) return undefined;
+            return pageParagraph(page, paragraph !== undefined && paragraph >= 1 ? paragraph : undefined);
+        }
+        case 'PARAGRAPH': {
+            const index = finiteNumber(value.index);
+            return index !== undefined && index >= 1 ? paragraphIndex(index) : undefined;
+        }
+        case 'IMAGE_REGION': {
+            const region = value.region;
+            const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(key => finiteNumber(region?.[key]));
+            return x !== undefined && y !== undefined && width !== undefined && height !== undefined
+                ? { kind: 'IMAGE_REGION', region: { x, y, width, height } }
+                : wholeImage();
+        }
+        default:
+            return undefined;
+    }
+};
+
+const locationLabel = (location: EvidenceLocation): string => {
+    switch (location.kind) {
+        case 'AUDIO_TIME': return formatTimestamp(location.start);
+        case 'PAGE': return `Pág ${location.page}`;
+        case 'PARAGRAPH': return `Parte ${location.index}`;
+        case 'IMAGE_REGION': return 'Imagem';
+    }
+};
+
+// Our schema, or any list of { start, end, text, speaker } segments (Whisper, WhisperX and similar)
+const parseJson = (raw: string): { segments: TranscriptSegment[]; speakerPeople: Record<string, string> } => {
+    let data: any;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        throw new Error("O ficheiro JSON não é válido.");
+    }
+    const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.segments) ? data.segments : [];
+    const speakerPeople: Record<string, string> = {};
+    if (data?.format === TRANSCRIPT_JSON_FORMAT && Array.isArray(data.speakers)) {
+        data.speakers.forEach((s: any) => {
+            if (typeof s?.label === 'string' && typeof s.person === 'string') speakerPeople[s.label] = s.person;
+        });
+    }
+
+    const segments: TranscriptSegment[] = [];
+    const usedIds = new Set<string>();
+    items.forEach((item, idx) => {
+        if (!item || typeof item !== 'object') return;
+        const text = stringField(item, ['text', 'transcript', 'content']);
+        if (!text) return;
+        let location = parseLocation(item.location);
+        if (!location) {
+            const start = numberField(item, ['start', 'start_time', 'startTime', 'from']);
+            const page = numberField(item, ['page']);
+            location = start !== undefined ? audioTime(start, numberField(item, ['end', 'end_time', 'endTime', 'to']))
+                : page !== undefined ? pageParagraph(page)
+                : paragraphIndex(idx + 1);
+        }
+        const speaker = stringField(item, ['speaker', 'speaker_label', 'speakerLabel', 'spk']);
+        const words = Array.isArray(item.words)
+            ? item.words.filter((w: any) => typeof w?.start === 'number' && typeof w?.end === 'number' && typeof (w.text ?? w.word) === 'string')
+                .map((w: any) => ({ text: String(w.text ?? w.word).trim(), start: w.start, end: w.end }))
+            : [];
+        // A repeated ID would make citations resolve to the wrong segment: only the first keeps it
+        const id = typeof item.id === 'string' && item.id && !usedIds.has(item.id) ? item.id : createSegmentId();
+        usedIds.add(id);
+        segments.push({
+            id,
+            timestamp: locationLabel(location),
+            location,
+            ...(speaker ? { speaker } : {}),
+            text,
+            ...(words.length > 0 && location.kind === 'AUDIO_TIME' ? { words } : {})
+        });
+    });
+    return { segments, speakerPeople };
+};
+
+/**
+ * Format of an imported transcript, from the file extension or, for pasted text, the content.
+ */
+export const detectTranscriptFormat = (raw: string, fileName?: string): TranscriptFormat => {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    const byExtension = TRANSCRIPT_FORMATS.find(f => f.extension === extension);
+    if (byExtension) return byExtension.id;
+    const text = raw.replace(/^\uFEFF/, '').trimStart();
+    if (/^WEBVTT/.test(text)) return 'VTT';
+    if (/^[\[{]/.test(text)) {
+        try { JSON.parse(text); return 'JSON'; } catch { /* Bracketed timestamps, read as text */ }
+    }
+    if (/^\d{1,2}:\d{2}:\d{2}[.,]\d{1,3}\s*-->/m.test(text)) return 'SRT';
+    return 'TXT';
+};
+
+/**
+ * Reads a transcript made here or by another tool. Segment IDs are kept from our own JSON so
+ * citations of a re-imported transcript still resolve; every other format gets new ones.
+ */
+export const parseTranscript = (raw: string, fileName?: string): TranscriptImport => {
+    const text = raw.replace(/^\uFEFF/, '');
+    const format = detectTranscriptFormat(text, fileName);
+    let result: { segments: TranscriptSegment[]; speakerPeople: Record<string, string> };
+    switch (format) {
+        case 'SRT':
+        case 'VTT': result = { segments: parseSubtitles(text), speakerPeople: {} }; break;
+        case 'JSON': result = parseJson(text); break;
+        default: result = { segments: parsePlainText(text), speakerPeople: {} };
+    }
+    if (result.segments.length === 0) throw new Error("Não foi encontrado nenhum segmento de transcrição no ficheiro.");
+    return { format, ...result };
+};
+
+/**
+ * Links the speakers of an imported transcript to the case people its file named (matched by name).
+ */
+export const linkImportedSpeakers = (content: ProcessedContent, speakerPeople: Record<string, string>, people: Person[]): ProcessedContent => {
+    return Object.entries(speakerPeople).reduce((linked, [label, name]) => {
+        const person = people.find(p => p.name.trim().toLowerCase() === name.trim().toLowerCase());
+        return person ? setSpeakerPerson(linked, label, person.id) : linked;
+    }, content);
+};
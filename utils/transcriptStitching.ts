@@ -0,0 +1,85 @@
+import { EvidenceLocation, TranscriptSegment } from "../types";
+
+export interface AudioChunk {
+    index: number;
+    start: number; // Seconds (absolute)
+    end: number;   // Seconds (absolute, includes the overlap with the next chunk)
+}
+
+/**
+ * Splits a recording into chunks of `chunkSeconds` that overlap by `overlapSeconds`,
+ * so speech cut at a boundary is fully heard by one of the two chunks.
+ */
+export const planAudioChunks = (duration: number, chunkSeconds: number, overlapSeconds: number): AudioChunk[] => {
+    const chunks: AudioChunk[] = [];
+    for (let start = 0, index = 0; start < duration; start += chunkSeconds, index++) {
+        chunks.push({ index, start, end: Math.min(duration, start + chunkSeconds + overlapSeconds) });
+        // Avoid a tiny trailing chunk that would be fully inside the previous overlap
+        if (start + chunkSeconds + overlapSeconds >= duration) break;
+    }
+    return chunks;
+};
+
+export const formatTimestamp = (totalSeconds: number): string => {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = Math.floor(totalSeconds % 60);
+    const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours.toString().padStart(2, '0')}:${mmss}` : mmss;
+};
+
+// Chunk transcripts only carry times; anything else counts as the chunk start
+const startOf = (seg: TranscriptSegment): number => seg.location.kind === 'AUDIO_TIME' ? seg.location.start : 0;
+
+const normalizeWords = (text: string): string[] => text
+    .toLowerCase()
+    .replace(/\*\*.*?\*\*/g, ' ') // Speaker labels differ between chunks
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Jaccard similarity over words: robust to small wording differences between the two transcriptions of an overlap
+const isSameUtterance = (a: string, b: string): boolean => {
+    const wa = new Set(normalizeWords(a));
+    const wb = new Set(normalizeWords(b));
+    if (wa.size === 0 || wb.size === 0) return false;
+    let common = 0;
+    wa.forEach(w => { if (wb.has(w)) common++; });
+    return common / (wa.size + wb.size - common) >= 0.6;
+};
+
+/**
+ * Stitches per-chunk transcripts (timestamps relative to each chunk) into one transcript.
+ *
+ * Times (start, end and word timings) are offset by the chunk start. In each overlap region the cut is made at its midpoint:
+ * the earlier chunk owns what was said before it, the later chunk what was said after.
+ * Utterances straddling the cut that both chunks transcribed are de-duplicated by text similarity.
+ */
+export const stitchChunkSegments = (chunks: { chunk: AudioChunk; segments: TranscriptSegment[] }[]): TranscriptSegment[] => {
+    const sorted = [...chunks].sort((a, b) => a.chunk.start - b.chunk.start);
+    const result: TranscriptSegment[] = [];
+
+    sorted.forEach(({ chunk, segments }, i) => {
+        const prev = sorted[i - 1];
+        const next = sorted[i + 1];
+        const lowerCut = prev ? (chunk.start + prev.chunk.end) / 2 : -Infinity;
+        const upperCut = next ? (next.chunk.start + chunk.end) / 2 : Infinity;
+
+        segments.forEach(seg => {
+            const absolute = startOf(seg) + chunk.start;
+            if (absolute < lowerCut || absolute >= upperCut) return;
+
+            // Compare with the tail of what is already stitched (only relevant near the cut)
+            const duplicate = result.slice(-3).some(r => Math.abs(startOf(r) - absolute) <= 30 && isSameUtterance(r.text, seg.text));
+            if (duplicate) return;
+
+            const end = seg.location.kind === 'AUDIO_TIME' && seg.location.end !== undefined ? seg.location.end + chunk.start : undefined;
+            const location: EvidenceLocation = end === undefined ? { kind: 'AUDIO_TIME', start: absolute } : { kind: 'AUDIO_TIME', start: absolute, end };
+            const words = seg.words?.map(w => ({ ...w, start: w.start + chunk.start, end: w.end + chunk.start }));
+            result.push({ ...seg, location, timestamp: formatTimestamp(absolute), ...(words ? { words } : {}) });
+        });
+    });
+
+    return result.sort((a, b) => startOf(a) - startOf(b));
+};
@@ -0,0 +1,88 @@
+import { EvidenceFile } from "../types";
+import { decodeAudioToMono } from "./audioUtils";
+
+// Waveform of a recording for the viewer timeline: the audio is decoded locally once per file and
+// reduced to min/max peaks, which are kept in memory for the session (the samples are not).
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+const PEAKS_PER_SECOND = 50;      // 20 ms per peak: enough detail at the highest zoom
+const MAX_CACHED_WAVEFORMS = 12;
+
+export interface WaveformPeaks {
+    peaksPerSecond: number;
+    min: Float32Array;
+    max: Float32Array;
+    duration: number;
+}
+
+export interface WaveformColumn {
+    min: number;
+    max: number;
+}
+
+/**
+ * Min/max of every `1 / peaksPerSecond` slice of the samples.
+ */
+export const computeWaveformPeaks = (samples: Float32Array, sampleRate: number, peaksPerSecond: number = PEAKS_PER_SECOND): WaveformPeaks => {
+    const samplesPerPeak = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+    const count = Math.ceil(samples.length / samplesPerPeak);
+    const min = new Float32Array(count);
+    const max = new Float32Array(count);
+    for (let p = 0; p < count; p++) {
+        let lo = 0;
+        let hi = 0;
+        const stop = Math.min(samples.length, (p + 1) * samplesPerPeak);
+        for (let i = p * samplesPerPeak; i < stop; i++) {
+            if (samples[i] < lo) lo = samples[i];
+            if (samples[i] > hi) hi = samples[i];
+        }
+        min[p] = lo;
+        max[p] = hi;
+    }
+    return { peaksPerSecond: sampleRate / samplesPerPeak, min, max, duration: samples.length / sampleRate };
+};
+
+/**
+ * Peaks of [start, end) seconds merged into `columns` columns, one per pixel column of the timeline.
+ */
+export const getWaveformColumns = (peaks: WaveformPeaks, start: number, end: number, columns: number): WaveformColumn[] => {
+    const result: WaveformColumn[] = [];
+    const perColumn = ((end - start) * peaks.peaksPerSecond) / columns;
+    for (let c = 0; c < columns; c++) {
+        const from = Math.floor(start * peaks.peaksPerSecond + c * perColumn);
+        const to = Math.max(from + 1, Math.floor(start * peaks.peaksPerSecond + (c + 1) * perColumn));
+        let lo = 0;
+        let hi = 0;
+        for (let p = Math.max(0, from); p < Math.min(peaks.min.length, to); p++) {
+            if (peaks.min[p] < lo) lo = peaks.min[p];
+            if (peaks.max[p] > hi) hi = peaks.max[p];
+        }
+        result.push({ min: lo, max: hi });
+    }
+    return result;
+};
+
+// Keyed by content hash when known, so a renamed or rehydrated file reuses its waveform
+const waveformCache = new Map<string, Promise<WaveformPeaks>>();
+
+const cacheKey = (file: EvidenceFile): string => file.sha256 || file.id;
+
+/**
+ * Waveform of a recording, decoded on first use and cached for later openings of the viewer.
+ */
+export const getWaveformPeaks = (file: EvidenceFile): Promise<WaveformPeaks> => {
+    const key = cacheKey(file);
+    const cached = waveformCache.get(key);
+    if (cached) return cached;
+    if (!file.file) return Promise.reject(new Error("O ficheiro original não está carregado."));
+
+    const pending = decodeAudioToMono(file.file, WAVEFORM_SAMPLE_RATE)
+        .then(({ samples, sampleRate }) => computeWaveformPeaks(samples, sampleRate));
+    pending.catch(() => waveformCache.delete(key)); // A failed decode may succeed later (e.g. file re-attached)
+
+    waveformCache.set(key, pending);
+    if (waveformCache.size > MAX_CACHED_WAVEFORMS) {
+        waveformCache.delete(waveformCache.keys().next().value as string);
+    }
+    return pending;
+};
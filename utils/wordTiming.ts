@@ -0,0 +1,135 @@
+import { TranscriptSegment, WordTiming } from "../types";
+
+// Segment end times and word timings for recordings. Ends come from the transcript when the
+// model wrote "[MM:SS-MM:SS]" and are estimated from speech rate otherwise; words are aligned
+// locally on the decoded audio (speech energy), or spread evenly when no audio is available.
+
+const SPEECH_WORDS_PER_SECOND = 2.5;  // Typical pace of courtroom speech
+const MIN_SEGMENT_SECONDS = 1;
+const ENERGY_FRAME_SECONDS = 0.02;
+const VOICED_ENERGY_RATIO = 0.15;     // Frame counts as speech above this fraction of the segment's loudest frames
+const MIN_VOICED_FRACTION = 0.2;      // Below this, energy is unreliable (noise, music): spread evenly instead
+
+export interface DecodedAudio {
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+const spokenWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+const estimatedSpeechSeconds = (text: string): number => Math.max(MIN_SEGMENT_SECONDS, spokenWords(text).length / SPEECH_WORDS_PER_SECOND);
+
+/**
+ * Fills the end of every timed segment that has none: the estimated speaking time, cut at the
+ * next segment's start, so a long pause is not counted as speech. Ends past `duration` are clamped.
+ */
+export const fillSegmentEnds = (segments: TranscriptSegment[], duration?: number): TranscriptSegment[] => {
+    return segments.map((seg, idx) => {
+        if (seg.location.kind !== 'AUDIO_TIME') return seg;
+        const start = seg.location.start;
+        let end = seg.location.end;
+        if (end === undefined || end <= start) {
+            const next = segments.slice(idx + 1).find(s => s.location.kind === 'AUDIO_TIME' && s.location.start > start);
+            const nextStart = next && next.location.kind === 'AUDIO_TIME' ? next.location.start : Infinity;
+            end = Math.min(start + estimatedSpeechSeconds(seg.text), nextStart);
+        }
+        if (duration !== undefined && duration > start) end = Math.min(end, duration);
+        return { ...seg, location: { ...seg.location, end } };
+    });
+};
+
+// Per-frame RMS energy of [start, end)
+const frameEnergies = (audio: DecodedAudio, start: number, end: number): number[] => {
+    const frameSize = Math.max(1, Math.round(ENERGY_FRAME_SECONDS * audio.sampleRate));
+    const first = Math.floor(start * audio.sampleRate);
+    const last = Math.min(audio.samples.length, Math.ceil(end * audio.sampleRate));
+    const energies: number[] = [];
+    for (let i = first; i < last; i += frameSize) {
+        let sum = 0;
+        const stop = Math.min(last, i + frameSize);
+        for (let j = i; j < stop; j++) sum += audio.samples[j] * audio.samples[j];
+        energies.push(Math.sqrt(sum / Math.max(1, stop - i)));
+    }
+    return energies;
+};
+
+// Start times of the frames that carry speech, or null when they cannot be told apart from silence
+const voicedFrameTimes = (audio: DecodedAudio, start: number, end: number): number[] | null => {
+    const energies = frameEnergies(audio, start, end);
+    if (energies.length === 0) return null;
+    const loud = [...energies].sort((a, b) => b - a);
+    const reference = loud[Math.floor(loud.length * 0.1)]; // Ignores a few clicks
+    if (reference <= 0) return null;
+    const times = energies
+        .map((e, i) => ({ e, t: start + i * ENERGY_FRAME_SECONDS }))
+        .filter(f => f.e >= reference * VOICED_ENERGY_RATIO)
+        .map(f => f.t);
+    return times.length >= energies.length * MIN_VOICED_FRACTION ? times : null;
+};
+
+/**
+ * Word timings for one segment: each word gets a share of the speaking time proportional to its
+ * length. With decoded audio only frames that carry speech are shared, so pauses between
+ * phrases are skipped; without it the segment's time is shared evenly.
+ */
+export const alignSegmentWords = (segment: TranscriptSegment, audio?: DecodedAudio): WordTiming[] | undefined => {
+    const location = segment.location;
+    if (location.kind !== 'AUDIO_TIME' || location.end === undefined || location.end <= location.start) return undefined;
+    const words = spokenWords(segment.text);
+    if (words.length === 0) return undefined;
+
+    const { start, end } = location;
+    const voiced = audio ? voicedFrameTimes(audio, start, end) : null;
+    const span = voiced ? voiced.length : end - start;
+    // Position along the speaking time → time in the recording
+    const timeAt = (position: number): number => {
+        if (!voiced) return start + position;
+        const frame = Math.min(voiced.length - 1, Math.floor(position));
+        return voiced[frame] + (position - frame) * ENERGY_FRAME_SECONDS;
+    };
+
+    const totalWeight = words.reduce((sum, w) => sum + w.length, 0);
+    let consumed = 0;
+    return words.map(text => {
+        const from = (consumed / totalWeight) * span;
+        consumed += text.length;
+        const to = (consumed / totalWeight) * span;
+        const wordStart = timeAt(from);
+        return { text, start: wordStart, end: Math.min(end, Math.max(wordStart, timeAt(to))) };
+    });
+};
+
+/**
+ * Fills segment ends and word timings for a whole transcript. Segments whose words were already
+ * timed (e.g. by the transcription itself) are kept as they are.
+ */
+export const alignTranscriptWords = (segments: TranscriptSegment[], duration?: number, audio?: DecodedAudio): TranscriptSegment[] => {
+    return fillSegmentEnds(segments, duration).map(seg => {
+        if (seg.words?.length) return seg;
+        const words = alignSegmentWords(seg, audio);
+        return words ? { ...seg, words } : seg;
+    });
+};
+
+/**
+ * Index of the segment being spoken at `time`: the latest one started whose end was not reached
+ * (overlapping speech goes to whoever started last). -1 during pauses.
+ */
+export const findSegmentAtTime = (segments: TranscriptSegment[], time: number): number => {
+    let found = -1;
+    let foundStart = -Infinity;
+    segments.forEach((seg, idx) => {
+        if (seg.location.kind !== 'AUDIO_TIME') return;
+        const { start, end } = seg.location;
+        if (time >= start && (end === undefined || time < end) && start >= foundStart) {
+            found = idx;
+            foundStart = start;
+        }
+    });
+    return found;
+};
+
+/**
+ * Index of the word being spoken at `time`, or -1 between words.
+ */
+export const findWordAtTime = (words: WordTiming[], time: number): number => words.findIndex(w => time >= w.start && time < w.end);